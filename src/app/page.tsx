@@ -2,29 +2,51 @@
 
 import { useRef, useCallback, useEffect, useState } from 'react';
 import { SceneHooks } from '@/hooks/useScene';
+import { useHistory } from '@/hooks/useHistory';
 import MeshGenUI from '@/components/MeshGenUI';
 import Scene from '@/components/main/Scene';
 import Canvas from '@/components/canvas';
 import MeshCutUI from '@/components/MeshCutUI';
 import MeshMergeUI from '@/components/MeshMergeUI';
 import SkelOpsUI from '@/components/SkelOps';
-import { Point, Vec2, Vec3, MeshData, SkelData, MenuAction } from '@/interface';
-import { skinnedMeshFromData } from '@/utils/threeMesh';
+import WeightPaintUI from '@/components/WeightPaintUI';
+import DecimateUI from '@/components/DecimateUI';
+import { Point, Vec2, MenuAction } from '@/interface';
+import { skinnedMeshFromData, bakeSkinnedMesh } from '@/utils/threeMesh';
+import { exportGLTFBlob, importGLTF } from '@/utils/gltf';
+import { parseOBJ, writeOBJ } from '@/utils/obj';
+import { parseProject, meshesToProject, projectToMeshes } from '@/utils/project';
 import * as THREE from 'three';
 import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
 
-export interface SkinnedMeshData {
-    mesh3D: { vertices: { x: number; y: number; z: number }[]; faces: number[][] };
-    skeleton: { joints: { x: number; y: number; z: number }[]; bones: [number, number][] };
-    skinWeights: number[][];
-    skinIndices: number[][];
-    version: string;
+const HISTORY_DEPTH = 50;
+
+function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+async function exportMeshes(meshes: THREE.SkinnedMesh[]) {
+    try {
+        const blob = await exportGLTFBlob(meshes, true);
+        downloadBlob(blob, `rigmesh-${Date.now()}.glb`);
+    } catch (error) {
+        console.error('Failed to export glTF:', error);
+        alert(`Failed to export glTF: ${error instanceof Error ? error.message : error}`);
+    }
 }
 
 export default function Page() {
     const sceneApiRef = useRef<SceneHooks | null>(null);
     const [showCanvas, setShowCanvas] = useState(false);
     const [meshGenPath, setMeshGenPath] = useState<Vec2[] | null>(null);
+    const [meshGenHoles, setMeshGenHoles] = useState<Vec2[][]>([]);
     const [isSceneReady, setIsSceneReady] = useState(false);
     const [showRigUI, setShowRigUI] = useState(false);
     const [riggingMesh, setRiggingMesh] = useState<THREE.SkinnedMesh | null>(null);
@@ -34,10 +56,16 @@ export default function Page() {
     const [mergingMeshes, setMergingMeshes] = useState<[THREE.SkinnedMesh, THREE.SkinnedMesh] | null>(null);
     const [showSkelOpsUI, setShowSkelOpsUI] = useState(false);
     const [skelOpsMesh, setSkelOpsMesh] = useState<THREE.SkinnedMesh | null>(null);
-    const [exportedData, setExportedData] = useState<SkinnedMeshData | null>(null);
+    const [weightPaintMesh, setWeightPaintMesh] = useState<THREE.SkinnedMesh | null>(null);
+    const [decimateMesh, setDecimateMesh] = useState<THREE.SkinnedMesh | null>(null);
     const sceneContainerRef = useRef<HTMLDivElement>(null);
 
     const showMeshGenUI = meshGenPath !== null;
+    const history = useHistory(sceneApiRef, isSceneReady, {
+        depth: HISTORY_DEPTH,
+        enabled: !showMeshGenUI && !showCanvas && !showCutUI && !showMergeUI && !showSkelOpsUI && !weightPaintMesh && !decimateMesh,
+    });
+    const { execute, recordPose, recordAnimations } = history;
 
     const handleSceneReady = useCallback((api: SceneHooks) => {
         sceneApiRef.current = api;
@@ -49,12 +77,11 @@ export default function Page() {
             if (mesh.material instanceof THREE.MeshStandardMaterial) {
                 mesh.material.color.setHex(0xffffff);
             }
-            sceneApiRef.current?.insertObject(mesh);
         });
-        if (cuttingMesh) sceneApiRef.current?.removeObject(cuttingMesh);
+        execute('Cut', cuttingMesh ? [cuttingMesh] : [], meshes);
         setShowCutUI(false);
         setCuttingMesh(null);
-    }, [cuttingMesh]);
+    }, [cuttingMesh, execute]);
 
     const handleMeshCutCancel = useCallback(() => {
         setShowCutUI(false);
@@ -68,10 +95,10 @@ export default function Page() {
             switch (action) {
                 case 'copy':
                     const clonedMesh = SkeletonUtils.clone(meshes[0]);
-                    sceneApiRef.current?.insertObject(clonedMesh);
+                    execute('Copy', [], [clonedMesh]);
                     break;
                 case 'delete':
-                    meshes.forEach((mesh) => sceneApiRef.current?.removeObject(mesh));
+                    execute('Delete', meshes, []);
                     break;
                 case 'rig':
                     if (meshes.length > 0) {
@@ -99,9 +126,27 @@ export default function Page() {
                         setShowSkelOpsUI(true);
                     }
                     break;
+                case 'paintWeights':
+                    setWeightPaintMesh(meshes[0]);
+                    break;
+                case 'applyPose':
+                    // the baked pose becomes the rest pose; keyframes of the old rest pose are dropped
+                    const bakedMesh = skinnedMeshFromData(bakeSkinnedMesh(meshes[0]));
+                    bakedMesh.name = meshes[0].name;
+                    execute('Apply pose', [meshes[0]], [bakedMesh]);
+                    break;
+                case 'decimate':
+                    setDecimateMesh(meshes[0]);
+                    break;
+                case 'exportGLB':
+                    exportMeshes(meshes);
+                    break;
+                case 'exportOBJ':
+                    downloadBlob(new Blob([writeOBJ(meshes)], { type: 'model/obj' }), `rigmesh-${Date.now()}.obj`);
+                    break;
             }
         },
-        []
+        [execute]
     );
 
     const handleSkelOpsComplete = useCallback((result: THREE.SkinnedMesh | THREE.SkinnedMesh[]) => {
@@ -110,20 +155,40 @@ export default function Page() {
             if (mesh.material instanceof THREE.MeshStandardMaterial) {
                 mesh.material.color.setHex(0xffffff);
             }
-            sceneApiRef.current?.removeObject(skelOpsMesh);
-            sceneApiRef.current?.insertObject(mesh);
+            execute('Edit skeleton', [skelOpsMesh], [mesh]);
         }
         setShowSkelOpsUI(false);
         setSkelOpsMesh(null);
-    }, [skelOpsMesh]);
+    }, [skelOpsMesh, execute]);
 
     const handleSkelOpsCancel = useCallback(() => {
         setShowSkelOpsUI(false);
         setSkelOpsMesh(null);
     }, []);
 
-    const handlePathComplete = useCallback((path: Point[]) => {
+    const handleWeightPaintComplete = useCallback((mesh: THREE.SkinnedMesh) => {
+        if (weightPaintMesh)
+            execute('Paint weights', [weightPaintMesh], [mesh]);
+        setWeightPaintMesh(null);
+    }, [weightPaintMesh, execute]);
+
+    const handleWeightPaintCancel = useCallback(() => {
+        setWeightPaintMesh(null);
+    }, []);
+
+    const handleDecimateComplete = useCallback((mesh: THREE.SkinnedMesh) => {
+        if (decimateMesh)
+            execute('Decimate', [decimateMesh], [mesh]);
+        setDecimateMesh(null);
+    }, [decimateMesh, execute]);
+
+    const handleDecimateCancel = useCallback(() => {
+        setDecimateMesh(null);
+    }, []);
+
+    const handlePathComplete = useCallback((path: Point[], holes: Point[][]) => {
         setMeshGenPath(path as Vec2[]);
+        setMeshGenHoles(holes as Vec2[][]);
         setShowCanvas(false);
     }, []);
 
@@ -131,31 +196,36 @@ export default function Page() {
         if (mesh.material instanceof THREE.MeshStandardMaterial) {
             mesh.material.color.setHex(0xffffff);
         }
-        sceneApiRef.current?.insertObject(mesh);
+        execute('Generate mesh', [], [mesh]);
         setMeshGenPath(null);
-    }, []);
+    }, [execute]);
 
     const handleMeshGenCancel = useCallback(() => {
         setMeshGenPath(null);
     }, []);
 
+    const handlePose = useCallback((mesh: THREE.SkinnedMesh, before: THREE.Matrix4[], after: THREE.Matrix4[]) => {
+        recordPose('IK pose', mesh, before, after);
+    }, [recordPose]);
+
     const handleExport = useCallback(() => {
-        if (!exportedData) {
-            alert('No mesh data to export. Please complete the mesh generation first.');
+        const meshes = sceneApiRef.current?.getObjects() ?? [];
+        if (meshes.length === 0) {
+            alert('No mesh to export. Please generate a mesh first.');
             return;
         }
+        exportMeshes(meshes);
+    }, []);
 
-        const json = JSON.stringify(exportedData, null, 2);
-        const blob = new Blob([json], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `skinned-mesh-${Date.now()}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    }, [exportedData]);
+    const handleSaveProject = useCallback(() => {
+        const meshes = sceneApiRef.current?.getObjects() ?? [];
+        if (meshes.length === 0) {
+            alert('No mesh to save. Please generate a mesh first.');
+            return;
+        }
+        const json = JSON.stringify(meshesToProject(meshes));
+        downloadBlob(new Blob([json], { type: 'application/json' }), `rigmesh-${Date.now()}.json`);
+    }, []);
 
     const handleImport = useCallback(
         (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -168,39 +238,68 @@ export default function Page() {
                 return;
             }
 
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                try {
-                    const data = JSON.parse(e.target?.result as string) as SkinnedMeshData;
+            if (/\.obj$/i.test(file.name)) {
+                file.text()
+                    .then((text) => {
+                        const groups = parseOBJ(text);
+                        if (groups.length === 0)
+                            throw new Error('the file contains no faces');
+                        const meshes = groups.map(({ name, mesh }) => {
+                            const skinnedMesh = skinnedMeshFromData({
+                                mesh,
+                                skel: [[], []],
+                                skinWeights: mesh[0].map(() => []),
+                                skinIndices: null,
+                            });
+                            skinnedMesh.name = name;
+                            return skinnedMesh;
+                        });
+                        execute('Import OBJ', [], meshes);
+                    })
+                    .catch((error) => {
+                        console.error('Failed to load OBJ:', error);
+                        alert(`Failed to load OBJ: ${error instanceof Error ? error.message : error}`);
+                    });
+                event.target.value = '';
+                return;
+            }
 
-                    // Validate data structure
-                    if (!data.mesh3D || !data.skeleton || !data.skinWeights || !data.skinIndices) {
-                        throw new Error('Invalid file format: missing required fields');
-                    }
+            if (/\.(glb|gltf)$/i.test(file.name)) {
+                file.arrayBuffer()
+                    .then(importGLTF)
+                    .then((imported) => {
+                        if (imported.length === 0)
+                            throw new Error('the file contains no mesh');
+                        const meshes = imported.map(({ name, data }) => {
+                            const skinnedMesh = skinnedMeshFromData(data);
+                            skinnedMesh.name = name;
+                            return skinnedMesh;
+                        });
+                        execute('Import glTF', [], meshes);
+                    })
+                    .catch((error) => {
+                        console.error('Failed to load glTF:', error);
+                        alert(`Failed to load glTF: ${error instanceof Error ? error.message : error}`);
+                    });
+                event.target.value = '';
+                return;
+            }
 
-                    // Convert back to Vec3 format
-                    const mesh3D: MeshData = [
-                        data.mesh3D.vertices.map((v) => new Vec3(v.x, v.y, v.z)),
-                        data.mesh3D.faces,
-                    ];
-                    const skeleton: SkelData = [
-                        data.skeleton.joints.map((j) => new Vec3(j.x, j.y, j.z)),
-                        data.skeleton.bones,
-                    ];
-
-                    const skinnedMesh = skinnedMeshFromData({ mesh: mesh3D, skel: skeleton, skinWeights: data.skinWeights, skinIndices: data.skinIndices });
-                    sceneApiRef.current.insertObject(skinnedMesh);
-                    // setExportedData({ mesh: mesh3D, skel: skeleton, skinWeights: data.skinWeights, skinIndices: data.skinIndices, version: data.version });
-                } catch (error) {
-                    console.error('Failed to load mesh data:', error);
-                    alert(`Failed to load mesh data: ${error instanceof Error ? error.message : 'Invalid file format'}`);
-                }
-            };
-            reader.readAsText(file);
+            file.text()
+                .then((text) => {
+                    const project = parseProject(text);
+                    if (project.meshes.length === 0)
+                        throw new Error('the project contains no mesh');
+                    execute('Open project', [], projectToMeshes(project));
+                })
+                .catch((error) => {
+                    console.error('Failed to load project:', error);
+                    alert(`Failed to load project: ${error instanceof Error ? error.message : error}`);
+                });
             // Reset input so same file can be selected again
             event.target.value = '';
         },
-        [isSceneReady]
+        [isSceneReady, execute]
     );
 
     // Trigger window resize event when scene becomes visible after closing meshgen
@@ -223,12 +322,15 @@ export default function Page() {
                 <Scene
                     onSceneReady={handleSceneReady}
                     onMenuAction={handleMenuAction}
+                    onPose={handlePose}
+                    onAnimationEdit={recordAnimations}
                     className="h-full w-full"
                 />
             </div>
             {showMeshGenUI && meshGenPath && (
                 <MeshGenUI
                     path={meshGenPath}
+                    holes={meshGenHoles}
                     onComplete={handleMeshGenComplete}
                     onCancel={handleMeshGenCancel}
                 />
@@ -257,10 +359,8 @@ export default function Page() {
                         if (mergedMesh.material instanceof THREE.MeshStandardMaterial) {
                             mergedMesh.material.color.setHex(0xffffff);
                         }
-                        sceneApiRef.current?.insertObject(mergedMesh);
-                        // Remove the original meshes
-                        sceneApiRef.current?.removeObject(mergingMeshes[0]);
-                        sceneApiRef.current?.removeObject(mergingMeshes[1]);
+                        // Replace the original meshes
+                        execute('Merge', [mergingMeshes[0], mergingMeshes[1]], [mergedMesh]);
                         setShowMergeUI(false);
                         setMergingMeshes(null);
                     }}
@@ -279,6 +379,22 @@ export default function Page() {
                 />
             )}
 
+            {weightPaintMesh && (
+                <WeightPaintUI
+                    skinnedMesh={weightPaintMesh}
+                    onComplete={handleWeightPaintComplete}
+                    onCancel={handleWeightPaintCancel}
+                />
+            )}
+
+            {decimateMesh && (
+                <DecimateUI
+                    skinnedMesh={decimateMesh}
+                    onComplete={handleDecimateComplete}
+                    onCancel={handleDecimateCancel}
+                />
+            )}
+
             {/* Control buttons */}
             <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2">
                 <button
@@ -304,11 +420,55 @@ export default function Page() {
 
                 {!showMeshGenUI && (
                     <>
+                        <button
+                            onClick={history.undo}
+                            disabled={!history.undoLabel}
+                            className="rounded-lg bg-gray-700 p-3 text-white shadow-lg transition-colors hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                strokeWidth={1.5}
+                                stroke="currentColor"
+                                className="h-6 w-6"
+                            >
+                                <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    d="M9 15 3 9m0 0 6-6M3 9h12a6 6 0 0 1 0 12h-3"
+                                />
+                            </svg>
+                        </button>
+
+                        <button
+                            onClick={history.redo}
+                            disabled={!history.redoLabel}
+                            className="rounded-lg bg-gray-700 p-3 text-white shadow-lg transition-colors hover:bg-gray-800 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                strokeWidth={1.5}
+                                stroke="currentColor"
+                                className="h-6 w-6"
+                            >
+                                <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    d="m15 15 6-6m0 0-6-6m6 6H9a6 6 0 0 0 0 12h3"
+                                />
+                            </svg>
+                        </button>
+
                         <button
                             onClick={handleExport}
-                            disabled={!exportedData}
+                            disabled={!isSceneReady}
                             className="rounded-lg bg-green-600 p-3 text-white shadow-lg transition-colors hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
-                            title="Export Skinned Mesh Data"
+                            title="Export Scene as glTF (.glb)"
                         >
                             <svg
                                 xmlns="http://www.w3.org/2000/svg"
@@ -326,13 +486,35 @@ export default function Page() {
                             </svg>
                         </button>
 
+                        <button
+                            onClick={handleSaveProject}
+                            disabled={!isSceneReady}
+                            className="rounded-lg bg-teal-600 p-3 text-white shadow-lg transition-colors hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                            title="Save Project (.json)"
+                        >
+                            <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                strokeWidth={1.5}
+                                stroke="currentColor"
+                                className="h-6 w-6"
+                            >
+                                <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    d="M17.593 3.322c1.1.128 1.907 1.077 1.907 2.185V21L12 17.25 4.5 21V5.507c0-1.108.806-2.057 1.907-2.185a48.507 48.507 0 0 1 11.186 0Z"
+                                />
+                            </svg>
+                        </button>
+
                         <label
                             className="rounded-lg bg-purple-600 p-3 text-white shadow-lg transition-colors hover:bg-purple-700 cursor-pointer"
-                            title="Import Skinned Mesh Data"
+                            title="Open Project (.json), glTF (.glb, .gltf) or OBJ"
                         >
                             <input
                                 type="file"
-                                accept=".json"
+                                accept=".json,.glb,.gltf,.obj"
                                 onChange={handleImport}
                                 className="hidden"
                             />
@@ -0,0 +1,219 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { parseArgs } from 'util';
+import { Vec2 } from '@/interface';
+import { MeshGenParams, DEFAULT_MESHGEN_PARAMS, normalizeSketch, runMeshGenPipeline } from '@/core/pipeline';
+import { PROFILE_TYPES, ProfileType } from '@/utils/profile';
+import { SKIN_SOLVERS, SkinSolver } from '@/core/skin';
+import { parseSVGPath, extractSVGPaths } from '@/utils/svg';
+import { serializeSkinnedMeshData } from '@/utils/serialize';
+
+/**
+ * Headless MeshGen: turns sketch files into rigged meshes without the browser.
+ *
+ *   npm run meshgen -- <input...> [-o <file|dir>] [--<param> <value>...]
+ *
+ * Inputs are SVG files or JSON point lists in screen coordinates (y down), as
+ * drawn on the canvas. The result is written as serialized SkinnedMeshData.
+ */
+
+const USAGE = `Usage: meshgen <input...> [options]
+
+Inputs:
+  *.svg     every subpath of every <path>; the largest one is the outline,
+            the others are holes
+  *.json    [[x, y], ...] or { "path": [[x, y], ...], "holes": [[[x, y], ...], ...] }
+
+Options:
+  -o, --out <path>          output file for a single input, or directory for
+                            several (default: stdout for a single input)
+  --params <file>           JSON object with MeshGenParams values
+  --profile-type <name>     ${PROFILE_TYPES.join(' | ')}
+  --profile-curve <file>    cross-section for the custom profile (same formats as inputs)
+  --skin-solver <name>      ${SKIN_SOLVERS.join(' | ')}
+  --segments <n>            samples per SVG curve segment (default 16)
+  -h, --help                show this message
+${Object.keys(DEFAULT_MESHGEN_PARAMS)
+    .filter(key => key !== 'profileType' && key !== 'profileCurve' && key !== 'skinSolver')
+    .map(key => `  --${kebab(key)} <n>`)
+    .join('\n')}
+`;
+
+type NumericParam = Exclude<keyof MeshGenParams, 'profileCurve'>;
+
+function kebab(key: string) {
+    return key.replace(/[A-Z]/g, c => '-' + c.toLowerCase());
+}
+
+function toVec2s(points: unknown, what: string): Vec2[] {
+    if (!Array.isArray(points))
+        throw new Error(`${what} must be an array of points`);
+
+    return points.map((p, i) => {
+        const [x, y] = Array.isArray(p) ? p : [p?.x, p?.y];
+        if (!Number.isFinite(x) || !Number.isFinite(y))
+            throw new Error(`${what}[${i}] is not a point`);
+        return new Vec2(x, y);
+    });
+}
+
+function signedArea(ring: Vec2[]) {
+    let area = 0;
+    for (let i = 0; i < ring.length; i++) {
+        const a = ring[i], b = ring[(i + 1) % ring.length];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return area / 2;
+}
+
+/**
+ * Read a sketch file as [outline, holes], still in file coordinates.
+ */
+function readSketch(file: string, segments: number): [Vec2[], Vec2[][]] {
+    const text = readFileSync(file, 'utf8');
+
+    if (extname(file).toLowerCase() === '.svg') {
+        const rings = extractSVGPaths(text)
+            .flatMap(d => parseSVGPath(d, segments))
+            .filter(ring => ring.length >= 3);
+        if (rings.length === 0)
+            throw new Error('no closed <path> found');
+
+        const areas = rings.map(ring => Math.abs(signedArea(ring)));
+        const outer = areas.indexOf(Math.max(...areas));
+        return [rings[outer], rings.filter((_, i) => i !== outer)];
+    }
+
+    const json = JSON.parse(text);
+    if (Array.isArray(json))
+        return [toVec2s(json, 'path'), []];
+
+    const holes = json.holes ?? [];
+    if (!Array.isArray(holes))
+        throw new Error('holes must be an array of point lists');
+    return [toVec2s(json.path, 'path'), holes.map((h: unknown, i: number) => toVec2s(h, `holes[${i}]`))];
+}
+
+function parseProfileType(value: string): number {
+    const index = PROFILE_TYPES.indexOf(value as ProfileType);
+    if (index >= 0)
+        return index;
+    if (/^\d+$/.test(value) && Number(value) < PROFILE_TYPES.length)
+        return Number(value);
+    throw new Error(`unknown profile type "${value}", expected one of ${PROFILE_TYPES.join(', ')}`);
+}
+
+function parseSkinSolver(value: string): number {
+    const index = SKIN_SOLVERS.indexOf(value as SkinSolver);
+    if (index >= 0)
+        return index;
+    if (/^\d+$/.test(value) && Number(value) < SKIN_SOLVERS.length)
+        return Number(value);
+    throw new Error(`unknown skin solver "${value}", expected one of ${SKIN_SOLVERS.join(', ')}`);
+}
+
+function main(argv: string[]): number {
+    const numeric = Object.keys(DEFAULT_MESHGEN_PARAMS)
+        .filter(key => key !== 'profileType' && key !== 'profileCurve' && key !== 'skinSolver') as NumericParam[];
+
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'out':              { type: 'string', short: 'o' },
+            'params':           { type: 'string' },
+            'profile-type':     { type: 'string' },
+            'profile-curve':    { type: 'string' },
+            'skin-solver':      { type: 'string' },
+            'segments':         { type: 'string' },
+            'help':             { type: 'boolean', short: 'h' },
+            ...Object.fromEntries(numeric.map(key => [kebab(key), { type: 'string' as const }])),
+        },
+    });
+    if (values.help || positionals.length === 0) {
+        process.stderr.write(USAGE);
+        return values.help ? 0 : 1;
+    }
+
+    const segments = values.segments ? Number(values.segments) : 16;
+    if (!Number.isInteger(segments) || segments < 1)
+        throw new Error('--segments must be a positive integer');
+
+    const params: MeshGenParams = { ...DEFAULT_MESHGEN_PARAMS };
+    const given = new Set<string>();
+    if (values.params) {
+        const overrides = JSON.parse(readFileSync(values.params as string, 'utf8'));
+        for (const [key, value] of Object.entries(overrides)) {
+            if (!(key in params))
+                throw new Error(`unknown parameter "${key}" in ${values.params}`);
+            if (key === 'profileCurve')
+                params.profileCurve = value === null ? null : toVec2s(value, 'profileCurve');
+            else if (key === 'profileType' && typeof value === 'string')
+                params.profileType = parseProfileType(value);
+            else if (key === 'skinSolver' && typeof value === 'string')
+                params.skinSolver = parseSkinSolver(value);
+            else if (typeof value === 'number')
+                params[key as NumericParam] = value;
+            else
+                throw new Error(`parameter "${key}" in ${values.params} must be a number`);
+            given.add(key);
+        }
+    }
+    for (const key of numeric) {
+        const value = values[kebab(key)] as string | undefined;
+        if (value === undefined) continue;
+        if (!Number.isFinite(Number(value)))
+            throw new Error(`--${kebab(key)} expects a number, got "${value}"`);
+        params[key] = Number(value);
+        given.add(key);
+    }
+    // the interactive flow starts remeshing at the sketch resolution
+    if (!given.has('isometricLength'))
+        params.isometricLength = Math.max(5, params.isodistance);
+
+    if (values['profile-type'])
+        params.profileType = parseProfileType(values['profile-type'] as string);
+    if (values['skin-solver'])
+        params.skinSolver = parseSkinSolver(values['skin-solver'] as string);
+    if (values['profile-curve']) {
+        const [curve] = readSketch(values['profile-curve'] as string, segments);
+        params.profileCurve = normalizeSketch(curve)[0];
+    }
+
+    const out = values.out as string | undefined;
+    if (positionals.length > 1) {
+        if (!out)
+            throw new Error('--out <dir> is required with several inputs');
+        mkdirSync(out, { recursive: true });
+    }
+
+    let failures = 0;
+    for (const input of positionals) {
+        const name = basename(input, extname(input));
+        try {
+            const [path, holes] = readSketch(input, segments);
+            const [outline, inner] = normalizeSketch(path, holes);
+            const data = runMeshGenPipeline(outline, inner, params, (step) => {
+                process.stderr.write(`[meshgen] ${name}: ${step}\n`);
+            });
+            const json = JSON.stringify(serializeSkinnedMeshData(data));
+
+            if (positionals.length > 1)     writeFileSync(join(out!, `${name}.json`), json);
+            else if (out)                   writeFileSync(out, json);
+            else                            process.stdout.write(json + '\n');
+
+            process.stderr.write(`[meshgen] ${name}: ${data.mesh[0].length} vertices, ${data.skel[1].length} bones\n`);
+        } catch (error) {
+            failures++;
+            process.stderr.write(`[meshgen] ${input}: ${error instanceof Error ? error.message : error}\n`);
+        }
+    }
+    return failures > 0 ? 1 : 0;
+}
+
+try {
+    process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+    process.stderr.write(`meshgen: ${error instanceof Error ? error.message : error}\n`);
+    process.exitCode = 1;
+}
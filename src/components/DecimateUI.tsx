@@ -0,0 +1,125 @@
+'use client';
+
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { SkinnedMeshData } from '@/interface';
+import { SceneHooks, useScene } from '@/hooks/useScene';
+import { buildMesh, snapshotSkinnedMesh, restoreSkinnedMesh, MeshSnapshot } from '@/utils/threeMesh';
+import { serializeSkinnedMeshData, deserializeSkinnedMeshData } from '@/utils/serialize';
+import { decimate } from '@/core/decimate';
+import Controller from '@/components/template/Controller';
+
+/** Milliseconds of slider rest before the preview is decimated again */
+const PREVIEW_DELAY = 200;
+
+export interface DecimateUIProps {
+    skinnedMesh: THREE.SkinnedMesh;
+    onComplete?: (mesh: THREE.SkinnedMesh) => void;
+    onCancel?: () => void;
+}
+
+/**
+ * Decimation of a rigged mesh, previewed flat shaded in its bind pose.
+ * Next rebuilds the mesh from the decimated data, keeping its skeleton,
+ * transform, pose and name.
+ */
+export default function DecimateUI({
+    skinnedMesh,
+    onComplete,
+    onCancel,
+}: DecimateUIProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const sceneApi = useScene(containerRef);
+    const apiRef = useRef<SceneHooks>(null);
+    apiRef.current = sceneApi;
+
+    const snapshotRef = useRef<MeshSnapshot | null>(null);
+    const dataRef = useRef<SkinnedMeshData | null>(null);
+    const resultRef = useRef<SkinnedMeshData | null>(null);
+
+    const [ratio, setRatio] = useState<number>(0.5);
+    const [maxError, setMaxError] = useState<number>(0);
+    const [jointRadius, setJointRadius] = useState<number>(0.15);
+    const [faces, setFaces] = useState<[number, number]>([0, 0]);
+
+    useEffect(() => {
+        const snapshot = snapshotSkinnedMesh(skinnedMesh);
+        snapshotRef.current = snapshot;
+        dataRef.current = deserializeSkinnedMeshData(snapshot.data);
+    }, [skinnedMesh]);
+
+    useEffect(() => {
+        const data = dataRef.current;
+        if (!data) return;
+
+        let display: THREE.Mesh | null = null;
+        const timer = setTimeout(() => {
+            const total = data.mesh[1].length;
+            const result = decimate(data, {
+                targetFaces: Math.round(ratio * total),
+                // 0 leaves the error unbounded
+                maxError: maxError > 0 ? maxError : Infinity,
+                jointRadius,
+            });
+            resultRef.current = result;
+            setFaces([result.mesh[1].length, total]);
+
+            display = buildMesh(result.mesh, false);
+            const material = display.material as THREE.MeshStandardMaterial;
+            material.flatShading = true;
+            material.needsUpdate = true;
+            apiRef.current?.insertObject(display);
+        }, PREVIEW_DELAY);
+
+        return () => {
+            clearTimeout(timer);
+            if (!display) return;
+            apiRef.current?.removeObject(display);
+            display.geometry.dispose();
+            (display.material as THREE.Material).dispose();
+        };
+    }, [skinnedMesh, ratio, maxError, jointRadius]);
+
+    const onNext = useCallback(() => {
+        const snapshot = snapshotRef.current;
+        const result = resultRef.current;
+        if (!snapshot || !result) return;
+
+        onComplete?.(restoreSkinnedMesh({
+            ...snapshot,
+            data: serializeSkinnedMeshData(result),
+        }));
+    }, [onComplete]);
+
+    const steps = useMemo(() => [
+        {
+            name: 'Decimate',
+            desc: `Collapse edges by quadric error down to a fraction of the triangles (${faces[0]} of ${faces[1]}), or until the error, relative to the mesh size, exceeds the bound (0: no bound). Vertices within the joint radius, a fraction of the shortest bone at each joint, are kept.`,
+            params: [
+                { name: 'faces', value: ratio, min: 0.05, max: 1, step: 0.05, onChange: setRatio },
+                { name: 'maxError', value: maxError, min: 0, max: 0.02, step: 0.001, onChange: setMaxError },
+                { name: 'jointRadius', value: jointRadius, min: 0, max: 0.5, step: 0.05, onChange: setJointRadius },
+            ],
+        },
+    ], [faces, ratio, maxError, jointRadius]);
+
+    return (
+        <div className="absolute inset-0 z-50 flex flex-col sm:flex-row bg-white dark:bg-gray-900">
+            <div ref={containerRef} className="flex-1 min-w-0 min-h-0 relative"/>
+            <div
+                role="complementary"
+                className="flex-shrink-0 w-full sm:w-80 border-l border-gray-700 bg-gray-900 overflow-auto shadow-xl flex flex-col"
+                data-mantine-color-scheme="dark"
+            >
+                <div className="p-4 flex-1 min-h-0">
+                    <Controller
+                        currentStep={1}
+                        onNext={onNext}
+                        onCancel={onCancel}
+                        steps={steps}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
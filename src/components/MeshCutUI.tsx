@@ -7,10 +7,28 @@ import { SceneHooks } from '@/hooks/useScene';
 
 import Scene from '@/components/template/Scene';
 import Controller from '@/components/template/Controller';
-import { computeCutPlaneFromScreenLine } from '@/core/meshcut';
-import { ScreenLine } from '@/core/meshcut';
+import { computeCutStrokeFromScreenPath, computeBonePlane, computeBoneSlicePlanes } from '@/core/meshcut';
+import { ScreenPath, Cut } from '@/core/meshcut';
+import { Vec3 } from '@/interface';
+import * as geo2d from '@/utils/geo2d';
+import { SKIN_SOLVERS } from '@/core/skin';
 import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
 
+/** Pixels between recorded stroke samples */
+const MIN_SAMPLE_DISTANCE = 3;
+/** Largest deviation in pixels dropped when simplifying the stroke */
+const SIMPLIFY_TOLERANCE = 2;
+const MAX_SLICES = 12;
+/** Draw freehand strokes, or cut across a selected bone */
+const CUT_MODES = ['stroke', 'bone'];
+
+type Point = { x: number; y: number };
+
+const worldPosition = (bone: THREE.Bone): Vec3 => {
+    const p = bone.getWorldPosition(new THREE.Vector3());
+    return new Vec3(p.x, p.y, p.z);
+};
+
 export interface MeshCutUIProps {
     skinnedMesh: THREE.SkinnedMesh;
     onComplete?: (meshes: THREE.SkinnedMesh[]) => void;
@@ -30,8 +48,20 @@ export default function MeshCutUI({
     const rectRef = useRef<DOMRect | null>(null);
 
     const [ready, setReady] = useState(false);
-    const [point1, setPoint1] = useState<{ x: number; y: number } | null>(null);
-    const [point2, setPoint2] = useState<{ x: number; y: number } | null>(null);
+    const [strokes, setStrokes] = useState<Point[][]>([]);
+    const [bone, setBone] = useState<[THREE.Bone, THREE.Bone] | null>(null);
+    const [slices, setSlices] = useState<number>(1);
+    const [cutMode, setCutMode] = useState<number>(0);
+    const [t, setT] = useState<number>(0.5);
+    const viewRef = useRef<HTMLDivElement>(null);
+    const discsRef = useRef<THREE.Group | null>(null);
+
+    /** Planes across the selected bone: one at t, or evenly spaced slices */
+    const bonePlanes = useMemo(() => {
+        if (CUT_MODES[cutMode] !== 'bone' || !bone) return [];
+        const [head, tail] = bone.map(worldPosition);
+        return slices > 1 ? computeBoneSlicePlanes(head, tail, slices) : [computeBonePlane(head, tail, t)];
+    }, [cutMode, bone, slices, t]);
     const [isDragging, setIsDragging] = useState(false);
     const [isDrawing, setIsDrawing] = useState(false);
 
@@ -57,12 +87,13 @@ export default function MeshCutUI({
             x: e.clientX - rectRef.current.left,
             y: e.clientY - rectRef.current.top
         };
-        if (!point1) {
-            setPoint1(point);
-            setIsDragging(true);
+        // shift-click extends the last stroke with a straight segment, otherwise a new stroke starts
+        if (e.shiftKey && strokes.length > 0) {
+            setStrokes(prev => [...prev.slice(0, -1), [...prev[prev.length - 1], point]]);
         } else {
-            setPoint2(point);
+            setStrokes(prev => [...prev, [point]]);
         }
+        setIsDragging(true);
     };
     const handlePointerMove = (e: React.PointerEvent) => {
         if (flowApi.state.currentStep !== 1)        return;
@@ -73,7 +104,12 @@ export default function MeshCutUI({
             x: e.clientX - rectRef.current.left,
             y: e.clientY - rectRef.current.top
         };
-        setPoint2(point);
+        setStrokes(prev => {
+            const stroke = prev[prev.length - 1];
+            const last = stroke[stroke.length - 1];
+            if (Math.hypot(point.x - last.x, point.y - last.y) < MIN_SAMPLE_DISTANCE) return prev;
+            return [...prev.slice(0, -1), [...stroke, point]];
+        });
     };
     const handlePointerUp = (e: React.PointerEvent) => {
         if (flowApi.state.currentStep !== 1)    return;
@@ -97,15 +133,21 @@ export default function MeshCutUI({
             if (e.key === 'c' || e.key === 'C') {
                 setIsDrawing(prev => !prev);
                 setIsDragging(false);
-                setPoint1(null);
-                setPoint2(null);
+            } else if (e.key === 'Backspace') {
+                setStrokes(prev => prev.slice(0, -1));
             } else if (e.key === 'Enter') { 
-                if (point1 && point2) {
-                    const ndc1 = localToNDC(point1.x, point1.y);
-                    const ndc2 = localToNDC(point2.x, point2.y);
-                    const line: ScreenLine = [ndc1, ndc2];
-                    const plane = computeCutPlaneFromScreenLine(line, cameraRef.current);
-                    flowApi.onCutReady(plane);
+                const cuts: Cut[] = [];
+                strokes.forEach(stroke => {
+                    const simplified = geo2d.simplifyPolyline(stroke, SIMPLIFY_TOLERANCE);
+                    const [first, last] = [simplified[0], simplified[simplified.length - 1]];
+                    if (simplified.length < 2 || Math.hypot(last.x - first.x, last.y - first.y) === 0) return;
+                    const path: ScreenPath = simplified.map(p => localToNDC(p.x, p.y));
+                    cuts.push(computeCutStrokeFromScreenPath(path, cameraRef.current));
+                });
+                cuts.push(...bonePlanes);
+
+                if (cuts.length > 0) {
+                    flowApi.onCutReady(cuts);
                     flowApi.state.resultRef.current.forEach(mesh => {
                         sceneRef.current.insertObject(mesh);
                     });
@@ -113,22 +155,136 @@ export default function MeshCutUI({
 
                     setIsDrawing(false);
                     setIsDragging(false);
-                    setPoint1(null);
-                    setPoint2(null);
+                    setStrokes([]);
+                    setBone(null);
                 }
             } else if (e.key === 'Escape') {
                 setIsDrawing(false);
                 setIsDragging(false);
-                setPoint1(null);
-                setPoint2(null);
+                setStrokes([]);
+                setBone(null);
             }
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [ready, flowApi.state.currentStep, point1, point2]);
+    }, [ready, flowApi.state.currentStep, strokes, bonePlanes]);
+
+    // Click a bone to cut across it
+    useEffect(() => {
+        if (!ready || flowApi.state.currentStep !== 1 || CUT_MODES[cutMode] !== 'bone') return;
+        const canvas = canvasRef.current;
+        const handleMouseDown = (e: MouseEvent) => {
+            if (e.button !== 0) return;
+            const result = sceneRef.current?.raycast(e.clientX, e.clientY);
+            if (Array.isArray(result)) setBone(result as [THREE.Bone, THREE.Bone]);
+        };
+        canvas.addEventListener('mousedown', handleMouseDown);
+        return () => canvas.removeEventListener('mousedown', handleMouseDown);
+    }, [ready, flowApi.state.currentStep, cutMode]);
+
+    // Preview the bone planes as discs across the bone
+    useEffect(() => {
+        if (!ready || flowApi.state.currentStep !== 1 || !bone || bonePlanes.length === 0) return;
+        const box = new THREE.Box3().setFromObject(cloneRef.current);
+        const radius = box.getSize(new THREE.Vector3()).length() / 4;
+        const geometry = new THREE.CircleGeometry(radius, 48);
+        const material = new THREE.MeshBasicMaterial({
+            color: 0x00ffff,
+            transparent: true,
+            opacity: 0.25,
+            side: THREE.DoubleSide,
+            depthWrite: false,
+        });
+        const group = new THREE.Group();
+        const head = worldPosition(bone[0]);
+        bonePlanes.forEach(({ normal, offset }) => {
+            const disc = new THREE.Mesh(geometry, material);
+            const center = head.minus(normal.times(normal.dot(head) + offset));
+            disc.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), new THREE.Vector3(normal.x, normal.y, normal.z));
+            disc.position.set(center.x, center.y, center.z);
+            group.add(disc);
+        });
+        sceneRef.current.insertObject(group);
+        discsRef.current = group;
+        return () => {
+            discsRef.current = null;
+            sceneRef.current?.removeObject(group);
+            geometry.dispose();
+            material.dispose();
+        };
+    }, [ready, flowApi.state.currentStep, bone, bonePlanes]);
+
+    // Drag the single disc along its bone; capture phase so that neither
+    // orbiting nor mesh selection sees the drag
+    useEffect(() => {
+        const view = viewRef.current;
+        if (!ready || !view || flowApi.state.currentStep !== 1 || !bone || slices > 1) return;
+        const [head, tail] = bone.map(worldPosition);
+        const axis = tail.minus(head);
+        let dragging = false;
+
+        const mouseRay = (e: PointerEvent): THREE.Ray => {
+            const rect = canvasRef.current.getBoundingClientRect();
+            const ndc = new THREE.Vector2(
+                ((e.clientX - rect.left) / rect.width) * 2 - 1,
+                -((e.clientY - rect.top) / rect.height) * 2 + 1
+            );
+            const raycaster = new THREE.Raycaster();
+            raycaster.setFromCamera(ndc, cameraRef.current);
+            return raycaster.ray;
+        };
+        // parameter along the bone of its closest point to the ray
+        const paramOnBone = (ray: THREE.Ray): number | null => {
+            const d = new Vec3(ray.direction.x, ray.direction.y, ray.direction.z);
+            const w = head.minus(new Vec3(ray.origin.x, ray.origin.y, ray.origin.z));
+            const a = axis.norm2(), b = axis.dot(d), c = d.norm2();
+            const denom = a * c - b * b;
+            if (denom < 1e-12 * a * c) return null;
+            return Math.max(0, Math.min(1, (b * d.dot(w) - c * axis.dot(w)) / denom));
+        };
+        const handlePointerDown = (e: PointerEvent) => {
+            if (e.button !== 0 || !discsRef.current) return;
+            const ray = mouseRay(e);
+            const raycaster = new THREE.Raycaster(ray.origin, ray.direction);
+            if (raycaster.intersectObjects(discsRef.current.children, false).length === 0) return;
+            // preventing the pointer event also suppresses the mousedown that selects meshes
+            e.preventDefault();
+            e.stopPropagation();
+            dragging = true;
+        };
+        const handlePointerMove = (e: PointerEvent) => {
+            if (!dragging) return;
+            const param = paramOnBone(mouseRay(e));
+            if (param !== null) setT(param);
+        };
+        const handlePointerUp = () => {
+            dragging = false;
+        };
+
+        view.addEventListener('pointerdown', handlePointerDown, true);
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            view.removeEventListener('pointerdown', handlePointerDown, true);
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+        };
+    }, [ready, flowApi.state.currentStep, bone, slices]);
 
     const steps = useMemo(() => [
-        { name: 'Draw Cut Line', desc: 'Press C to start/stop drawing, Enter to confirm, Escape to cancel', params: [] },
+        {
+            name: 'Draw Cut Lines',
+            desc: CUT_MODES[cutMode] === 'stroke'
+                ? 'Press C to start/stop drawing, then drag freehand strokes (shift-click adds a straight segment, Backspace removes the last stroke). Enter cuts along every stroke at once, Escape clears'
+                : 'Click a bone to cut normal to it at t; drag the disc or the slider to move the cut. More slices cut the bone into equal pieces. Enter cuts, Escape clears',
+            params: [
+                { name: 'cutMode', value: cutMode, min: 0, max: CUT_MODES.length - 1, step: 1, labels: CUT_MODES, onChange: setCutMode },
+                ...(CUT_MODES[cutMode] === 'bone' ? [
+                    { name: 't', value: t, min: 0, max: 1, step: 0.01, onChange: setT },
+                    { name: 'slices', value: slices, min: 1, max: MAX_SLICES, step: 1, onChange: setSlices },
+                ] : []),
+            ],
+        },
         { name: 'Mesh Stitch', desc: '', params: [] },
         {
             name: 'Mesh Smooth',
@@ -138,12 +294,18 @@ export default function MeshCutUI({
                 { name: 'smoothFactor', value: flowApi.params.smoothFactor, min: 0, max: 5, step: 0.05, onChange: flowApi.onParamChange.setSmoothFactor },
             ],
         },
-        { name: 'SkinWeight Computation', desc: '', params: [] },
-    ], [flowApi.params.smoothLayers, flowApi.params.smoothFactor]);
+        {
+            name: 'SkinWeight Computation',
+            desc: 'Inherit diffuses the weights of the input mesh into the caps; a solver recomputes the weights of every piece.',
+            params: [
+                { name: 'skinSolver', value: flowApi.params.skinSolver, min: 0, max: SKIN_SOLVERS.length, step: 1, labels: ['inherit', ...SKIN_SOLVERS], onChange: flowApi.onParamChange.setSkinSolver },
+            ],
+        },
+    ], [cutMode, t, slices, flowApi.params.smoothLayers, flowApi.params.smoothFactor, flowApi.params.skinSolver]);
 
     return (
         <div className="absolute inset-0 z-50 flex flex-col sm:flex-row bg-white dark:bg-gray-900">
-            <div className="flex-1 min-w-0 min-h-0 relative">
+            <div ref={viewRef} className="flex-1 min-w-0 min-h-0 relative">
                 <Scene
                     enableRig={false}
                     enableTransform={true}
@@ -168,14 +330,16 @@ export default function MeshCutUI({
                             viewBox={`0 0 ${sceneRef.current?.getCanvas()?.width ?? 0} ${sceneRef.current?.getCanvas()?.height ?? 0}`}
                             preserveAspectRatio="none"
                         >
-                            {point1 && point2 && (
-                                <line
-                                    x1={point1.x} y1={point1.y}
-                                    x2={point2.x} y2={point2.y}
+                            {strokes.filter(stroke => stroke.length >= 2).map((stroke, i) => (
+                                <polyline
+                                    key={i}
+                                    points={stroke.map(p => `${p.x},${p.y}`).join(' ')}
+                                    fill='none'
                                     stroke='cyan'
                                     strokeWidth={3}
+                                    strokeLinejoin='round'
                                 />
-                            )}
+                            ))}
                         </svg>
                     )}
                     </>
@@ -2,13 +2,17 @@
 
 import { useRef, useCallback, useEffect, useState, useMemo } from 'react';
 import * as THREE from 'three';
+import { Progress } from '@mantine/core';
 import { useMeshGen } from '@/hooks/useMeshGen';
 import { SceneHooks } from '@/hooks/useScene';
 import { Vec2, Vec3 } from '@/interface';
 import { createSkeleton } from '@/utils/threeSkel';
+import { PROFILE_TYPES } from '@/utils/profile';
+import { SKIN_SOLVERS } from '@/core/skin';
 
 import Scene from '@/components/template/Scene';
 import Controller from '@/components/template/Controller';
+import Canvas from '@/components/canvas';
 
 const COLORS = {
     POLYGON: 0xffffff,
@@ -50,11 +54,12 @@ function disposeDisplayGroup(group: THREE.Group) {
 
 export interface MeshGenUIProps {
     path: Vec2[];
+    holes?: Vec2[][];
     onComplete?: (mesh: THREE.SkinnedMesh) => void;
     onCancel?: () => void;
 }
 
-export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps) {
+export default function MeshGenUI({ path, holes, onComplete, onCancel }: MeshGenUIProps) {
     const sceneRef = useRef<SceneHooks | null>(null);
     const flowApi = useMeshGen(onComplete);
     const displayGroupRef = useRef<THREE.Group | null>(null);
@@ -67,9 +72,9 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
             const group = new THREE.Group();
             displayGroupRef.current = group;
             api.insertObject(group);
-            flowApi.onPathComplete(path);
+            flowApi.onPathComplete(path, holes);
         },
-        [path, flowApi.onPathComplete]
+        [path, holes, flowApi.onPathComplete]
     );
 
     // Sync display to state: clear display group and re-render current step
@@ -80,11 +85,12 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
         if (!scene) return;
 
         disposeDisplayGroup(group);
-        const { currentStep, mesh2D, mesh3D, chordData, capOffset, junctionOffset, skeleton } = flowApi.state;
+        const { currentStep, mesh2D, rings, mesh3D, chordData, capOffset, junctionOffset, skeleton } = flowApi.state;
 
-        if (currentStep >= 2 && mesh2D) {
-            const polygon = mesh2D[0].map((v) => new THREE.Vector3(v.x, v.y, 0));
-            if (polygon.length >= 3) {
+        if (currentStep >= 2 && mesh2D && rings) {
+            for (const ring of rings) {
+                const polygon = ring.map((i) => new THREE.Vector3(mesh2D[0][i].x, mesh2D[0][i].y, 0));
+                if (polygon.length < 3) continue;
                 polygon.push(polygon[0].clone());
                 const geom = new THREE.BufferGeometry().setFromPoints(polygon);
                 const line = new THREE.Line(geom, new THREE.LineBasicMaterial({ color: COLORS.POLYGON }));
@@ -155,7 +161,7 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
             const skelGroup = createSkeleton(skeleton);
             group.add(skelGroup);
         }
-    }, [ready, flowApi.state.currentStep, flowApi.state.mesh2D, flowApi.state.mesh3D, flowApi.state.chordData, flowApi.state.capOffset, flowApi.state.junctionOffset, flowApi.state.skeleton]);
+    }, [ready, flowApi.state.currentStep, flowApi.state.mesh2D, flowApi.state.rings, flowApi.state.mesh3D, flowApi.state.chordData, flowApi.state.capOffset, flowApi.state.junctionOffset, flowApi.state.skeleton]);
 
     useEffect(() => {
         return () => {
@@ -207,7 +213,7 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
             },
             {
                 name: 'Mesh Smooth',
-                desc: 'Smooth the 3D pipe mesh. Higher factor = stronger smoothing.',
+                desc: 'Smooth the 3D pipe mesh. Higher factor = stronger smoothing. The profile sets the cross-section of every pipe; depth scales its thickness.',
                 params: [
                     {
                         name: 'smoothFactor',
@@ -217,6 +223,23 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
                         step: 0.05,
                         onChange: flowApi.onParamChange.setSmoothFactor,
                     },
+                    {
+                        name: 'profile',
+                        value: flowApi.params.profileType,
+                        min: 0,
+                        max: PROFILE_TYPES.length - 1,
+                        step: 1,
+                        labels: PROFILE_TYPES,
+                        onChange: flowApi.onParamChange.setProfileType,
+                    },
+                    {
+                        name: 'profileDepth',
+                        value: flowApi.params.profileDepth,
+                        min: 0.1,
+                        max: 1,
+                        step: 0.05,
+                        onChange: flowApi.onParamChange.setProfileDepth,
+                    },
                 ],
             },
             {
@@ -243,7 +266,7 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
             },
             {
                 name: 'Skeleton',
-                desc: 'Auto-generated skeleton from mesh. Thresholds control bone placement and pruning.',
+                desc: 'Auto-generated skeleton from mesh. Thresholds control bone placement and pruning. The skin solver computes the weights on Next: closest bone, bone heat with visibility, or bounded biharmonic.',
                 params: [
                     {
                         name: 'boneDevThreshold',
@@ -269,6 +292,15 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
                         step: 1,
                         onChange: flowApi.onParamChange.setBonePruningThreshold,
                     },
+                    {
+                        name: 'skinSolver',
+                        value: flowApi.params.skinSolver,
+                        min: 0,
+                        max: SKIN_SOLVERS.length - 1,
+                        step: 1,
+                        labels: SKIN_SOLVERS,
+                        onChange: flowApi.onParamChange.setSkinSolver,
+                    },
                 ],
             },
         ],
@@ -277,11 +309,14 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
             flowApi.params.laplacianIters,
             flowApi.params.laplacianAlpha,
             flowApi.params.smoothFactor,
+            flowApi.params.profileType,
+            flowApi.params.profileDepth,
             flowApi.params.isometricIterations,
             flowApi.params.isometricLength,
             flowApi.params.boneDevThreshold,
             flowApi.params.boneLenThreshold,
             flowApi.params.bonePruningThreshold,
+            flowApi.params.skinSolver,
         ]
     );
 
@@ -293,6 +328,11 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
                     enableTransform={false}
                     onSceneReady={handleReady}
                 />
+                {flowApi.state.progress !== null && (
+                    <div className="absolute top-0 inset-x-0 p-2 pointer-events-none">
+                        <Progress value={flowApi.state.progress * 100} size="sm" animated striped />
+                    </div>
+                )}
             </div>
             <div
                 role="complementary"
@@ -310,6 +350,14 @@ export default function MeshGenUI({ path, onComplete, onCancel }: MeshGenUIProps
                         steps={steps}
                     />
                 </div>
+                {flowApi.state.currentStep === 3 && PROFILE_TYPES[flowApi.params.profileType] === 'custom' && (
+                    <div className="p-4 pt-0">
+                        <p className="mb-2 text-xs text-gray-400">Draw the cross-section; its thickness along the width is used for every pipe.</p>
+                        <div className="h-48 bg-gray-800">
+                            <Canvas onPathComplete={(curve) => flowApi.onParamChange.setProfileCurve(curve as Vec2[])} />
+                        </div>
+                    </div>
+                )}
             </div>
         </div>
     );
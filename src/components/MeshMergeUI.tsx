@@ -6,6 +6,8 @@ import { useMeshMerge } from '@/hooks/useMeshMerge';
 import { SceneHooks } from '@/hooks/useScene';
 import { SkeletonConnector } from '@/utils/threeSkel';
 import { traceMesh } from '@/utils/threeSkel';
+import { SKIN_SOLVERS } from '@/core/skin';
+import { CLEANUP_MODES } from '@/core/meshmerge';
 
 import Scene from '@/components/template/Scene';
 import Controller from '@/components/template/Controller';
@@ -27,6 +29,7 @@ export default function MeshMergeUI({
     const clone1Ref = useRef<THREE.SkinnedMesh | null>(null);
     const clone2Ref = useRef<THREE.SkinnedMesh | null>(null);
     const connectorRef = useRef<SkeletonConnector | null>(null);
+    const shownRef = useRef<THREE.SkinnedMesh | null>(null);
     const sceneRef = useRef<SceneHooks | null>(null);
     const flowApi = useMeshMerge(onComplete);
     const [ready, setReady] = useState(false);
@@ -109,12 +112,11 @@ export default function MeshMergeUI({
 
     useEffect(() => {
         if (!ready) return;
-        if (flowApi.state.currentStep === 2) {
+        if (flowApi.state.currentStep === 2 && clone1Ref.current) {
             sceneRef.current.detach();
             sceneRef.current.removeObject(clone1Ref.current);
             sceneRef.current.removeObject(clone2Ref.current);
             sceneRef.current.removeObject(connectorRef.current);
-            sceneRef.current.insertObject(flowApi.state.resultRef.current);
 
             clone1Ref.current.geometry.dispose();
             clone1Ref.current.material.dispose();
@@ -126,11 +128,24 @@ export default function MeshMergeUI({
             clone2Ref.current = null;
             connectorRef.current = null;
         }
-    }, [ready, flowApi.state.currentStep]);
+        // the cleanup step runs again when its mode changes: show the new result
+        const result = flowApi.state.resultRef.current;
+        if (flowApi.state.currentStep === 2 && result !== shownRef.current) {
+            if (shownRef.current) sceneRef.current.removeObject(shownRef.current);
+            sceneRef.current.insertObject(result);
+            shownRef.current = result;
+        }
+    }, [ready, flowApi.state.currentStep, flowApi.params.cleanupMode]);
 
     const steps = useMemo(() => [
         { name: 'Position & Connect', desc: 'Drag meshes into place. Click mesh to update connector; Space cycles snap/split/connect.', params: [] },
-        { name: 'Mesh Cleanup', desc: 'Triangle removal and cleanup.', params: [] },
+        {
+            name: 'Mesh Cleanup',
+            desc: 'Remove triangles inside the other mesh, or cut both surfaces along their intersection (union, nothing left to stitch).',
+            params: [
+                { name: 'cleanupMode', value: flowApi.params.cleanupMode, min: 0, max: CLEANUP_MODES.length - 1, step: 1, labels: CLEANUP_MODES, onChange: flowApi.onParamChange.setCleanupMode },
+            ],
+        },
         { name: 'Mesh Stitch', desc: 'Stitch boundaries between meshes.', params: [] },
         {
             name: 'Mesh Smooth',
@@ -140,8 +155,14 @@ export default function MeshMergeUI({
                 { name: 'smoothFactor', value: flowApi.params.smoothFactor, min: 0, max: 5, step: 0.05, onChange: flowApi.onParamChange.setSmoothFactor },
             ],
         },
-        { name: 'SkinWeight Computation', desc: 'Compute skin weights for the merged mesh.', params: [] },
-    ], [flowApi.params.smoothLayers, flowApi.params.smoothFactor]);
+        {
+            name: 'SkinWeight Computation',
+            desc: 'Compute skin weights for the merged mesh: keep the weights of both meshes, closest bone, bone heat with visibility, or bounded biharmonic.',
+            params: [
+                { name: 'skinSolver', value: flowApi.params.skinSolver, min: 0, max: SKIN_SOLVERS.length, step: 1, labels: ['inherit', ...SKIN_SOLVERS], onChange: flowApi.onParamChange.setSkinSolver },
+            ],
+        },
+    ], [flowApi.params.cleanupMode, flowApi.params.smoothLayers, flowApi.params.smoothFactor, flowApi.params.skinSolver]);
 
     return (
         <div className="absolute inset-0 z-50 flex flex-col sm:flex-row bg-white dark:bg-gray-900">
@@ -1,6 +1,6 @@
 'use client';
 
-import { useRef, useCallback, useEffect, useMemo } from 'react';
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
 import { Vec3 } from '@/interface';
 import { SceneHooks } from '@/hooks/useScene';
@@ -9,7 +9,7 @@ import { SkeletonJoint } from '@/utils/threeSkel';
 import { useScene } from '@/hooks/useScene';
 import Controller from '@/components/template/Controller';
 
-import { computeSkinWeightsGlobal } from '@/core/skin';
+import { computeSkinWeights, SKIN_SOLVERS } from '@/core/skin';
 import { skinnedMeshFromData } from '@/utils/threeMesh';
 import { skinnedMeshToData } from '@/utils/threeMesh';
 import { buildMesh } from '@/utils/threeMesh';
@@ -32,6 +32,7 @@ export default function SkelOpsUI({
     const meshRef = useRef<THREE.Mesh | null>(null);
     const helperRef = useRef<THREE.Group | null>(null);
     const selectRef = useRef<[THREE.Bone, THREE.Bone] | null>(null);
+    const [skinSolver, setSkinSolver] = useState<number>(0);
 
     const findBoneHelper = useCallback((boneA: THREE.Bone, boneB: THREE.Bone) => {
         return helperRef.current.children.find(child => {
@@ -197,7 +198,7 @@ export default function SkelOpsUI({
             B.push([x, y]);
         });
 
-        const skinWeights = computeSkinWeightsGlobal([V, F], [J, B]);
+        const skinWeights = computeSkinWeights([V, F], [J, B], SKIN_SOLVERS[skinSolver]);
         const mesh = skinnedMeshFromData({
             mesh: [V, F],
             skel: [J, B],
@@ -205,15 +206,25 @@ export default function SkelOpsUI({
             skinIndices: null,
         });
         onComplete?.(mesh);
-    }, []);
+    }, [skinSolver]);
 
     const steps = useMemo(() => [
         {
             name: 'Skeleton Refinement',
-            desc: "Click on a bone segment to select it. Press X to split the bone segment, or Space to merge 2 endpoints.",
-            params: [],
+            desc: "Click on a bone segment to select it. Press X to split the bone segment, or Space to merge 2 endpoints. The skin solver recomputes the weights on Next.",
+            params: [
+                {
+                    name: 'skinSolver',
+                    value: skinSolver,
+                    min: 0,
+                    max: SKIN_SOLVERS.length - 1,
+                    step: 1,
+                    labels: SKIN_SOLVERS,
+                    onChange: setSkinSolver,
+                },
+            ],
         },
-    ], []);
+    ], [skinSolver]);
 
     return (
         <div className="absolute inset-0 z-50 flex flex-col sm:flex-row bg-white dark:bg-gray-900">
@@ -0,0 +1,272 @@
+'use client';
+
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react';
+import * as THREE from 'three';
+import { Vec3 } from '@/interface';
+import { SceneHooks, useScene } from '@/hooks/useScene';
+import { SkeletonBone, SkeletonJoint } from '@/utils/threeSkel';
+import { buildMesh, snapshotSkinnedMesh, restoreSkinnedMesh, MeshSnapshot } from '@/utils/threeMesh';
+import { deserializeSkinnedMeshData } from '@/utils/serialize';
+import { WeightPaint, BRUSH_MODES, weightColor } from '@/core/weightpaint';
+import Controller from '@/components/template/Controller';
+
+const COLORS = {
+    BONE: 0x0000ff,
+    BONE_SELECTED: 0xffaa00,
+    CURSOR: 0xffffff,
+};
+
+export interface WeightPaintUIProps {
+    skinnedMesh: THREE.SkinnedMesh;
+    onComplete?: (mesh: THREE.SkinnedMesh) => void;
+    onCancel?: () => void;
+}
+
+/**
+ * Weight paint mode for a rigged mesh, shown in its bind pose.
+ * Click a bone to show its weights as a heat map, drag on the mesh to paint
+ * (the camera orbits when the drag starts off the mesh). Next rebuilds the
+ * mesh with the painted weights through setSkinWeights, keeping its
+ * transform, pose and name.
+ */
+export default function WeightPaintUI({
+    skinnedMesh,
+    onComplete,
+    onCancel,
+}: WeightPaintUIProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const sceneApi = useScene(containerRef);
+    const apiRef = useRef<SceneHooks>(null);
+    apiRef.current = sceneApi;
+
+    const snapshotRef = useRef<MeshSnapshot | null>(null);
+    const painterRef = useRef<WeightPaint | null>(null);
+    const meshRef = useRef<THREE.Mesh | null>(null);
+    const helperRef = useRef<THREE.Group | null>(null);
+    const cursorRef = useRef<THREE.Mesh | null>(null);
+    const bonesRef = useRef<[THREE.Bone, THREE.Bone][]>([]);
+    const sizeRef = useRef<number>(1);
+
+    const [bone, setBone] = useState<number>(0);
+    const [mode, setMode] = useState<number>(0);
+    const [radius, setRadius] = useState<number>(0.1);
+    const [strength, setStrength] = useState<number>(0.2);
+    const [falloff, setFalloff] = useState<number>(0.5);
+    const [boneCount, setBoneCount] = useState<number>(0);
+
+    const brushRef = useRef({ bone, mode, radius, strength, falloff });
+    brushRef.current = { bone, mode, radius, strength, falloff };
+
+    const updateColors = useCallback((vertices?: number[]) => {
+        const mesh = meshRef.current;
+        const painter = painterRef.current;
+        if (!mesh || !painter) return;
+
+        const colorAttr = mesh.geometry.getAttribute('color') as THREE.BufferAttribute;
+        const weights = painter.boneWeights(brushRef.current.bone);
+        (vertices ?? weights.map((_, i) => i)).forEach(i => {
+            const [r, g, b] = weightColor(weights[i]);
+            colorAttr.setXYZ(i, r, g, b);
+        });
+        colorAttr.needsUpdate = true;
+    }, []);
+
+    useEffect(() => {
+        const snapshot = snapshotSkinnedMesh(skinnedMesh);
+        const { mesh, skel, skinWeights, skinIndices } = deserializeSkinnedMeshData(snapshot.data);
+        snapshotRef.current = snapshot;
+        painterRef.current = new WeightPaint(mesh, skel[1].length, skinWeights, skinIndices);
+        setBoneCount(skel[1].length);
+        setBone(0);
+
+        const display = buildMesh(mesh, false);
+        display.geometry.setAttribute('color', new THREE.Float32BufferAttribute(new Float32Array(mesh[0].length * 3), 3));
+        const material = display.material as THREE.MeshStandardMaterial;
+        material.vertexColors = true;
+        material.needsUpdate = true;
+        meshRef.current = display;
+
+        display.geometry.computeBoundingBox();
+        sizeRef.current = display.geometry.boundingBox.getSize(new THREE.Vector3()).length() || 1;
+
+        const helper = new THREE.Group();
+        helper.userData.isHelper = true;
+        const joints = skel[0].map((joint: Vec3) => {
+            const b = new THREE.Bone();
+            b.position.set(joint.x, joint.y, joint.z);
+            helper.add(new SkeletonJoint(b));
+            apiRef.current?.insertObject(b);
+            return b;
+        });
+        bonesRef.current = skel[1].map(([i0, i1]) => {
+            helper.add(new SkeletonBone(joints[i0], joints[i1]));
+            return [joints[i0], joints[i1]] as [THREE.Bone, THREE.Bone];
+        });
+        helperRef.current = helper;
+
+        const cursor = new THREE.Mesh(
+            new THREE.SphereGeometry(1, 16, 12),
+            new THREE.MeshBasicMaterial({ color: COLORS.CURSOR, wireframe: true, transparent: true, opacity: 0.4 })
+        );
+        cursor.visible = false;
+        cursorRef.current = cursor;
+
+        apiRef.current?.insertObject(helper);
+        apiRef.current?.insertObject(display);
+        apiRef.current?.insertObject(cursor);
+        updateColors();
+
+        return () => {
+            joints.forEach(b => apiRef.current?.removeObject(b));
+            [helper, display, cursor].forEach(obj => apiRef.current?.removeObject(obj));
+            display.geometry.dispose();
+            material.dispose();
+            cursor.geometry.dispose();
+            (cursor.material as THREE.Material).dispose();
+        };
+    }, [skinnedMesh, updateColors]);
+
+    // Show the weights of the selected bone and highlight it
+    useEffect(() => {
+        updateColors();
+        const helper = helperRef.current;
+        if (!helper) return;
+
+        const [jointA, jointB] = bonesRef.current[bone] ?? [];
+        helper.children.forEach(child => {
+            if (!child?.isHelperBone) return;
+            const selected = child.jointA === jointA && child.jointB === jointB;
+            child.material.color.set(selected ? COLORS.BONE_SELECTED : COLORS.BONE);
+        });
+    }, [bone, boneCount, updateColors]);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        let painting = false;
+
+        const hitMesh = (event: PointerEvent): THREE.Vector3 | null => {
+            const camera = apiRef.current?.getCamera();
+            const canvas = apiRef.current?.getCanvas();
+            const mesh = meshRef.current;
+            if (!camera || !canvas || !mesh) return null;
+
+            const rect = canvas.getBoundingClientRect();
+            const ndc = new THREE.Vector2(
+                ((event.clientX - rect.left) / rect.width) * 2 - 1,
+                -((event.clientY - rect.top) / rect.height) * 2 + 1
+            );
+            const raycaster = new THREE.Raycaster();
+            raycaster.setFromCamera(ndc, camera);
+            return raycaster.intersectObject(mesh, false)[0]?.point ?? null;
+        };
+
+        const dab = (point: THREE.Vector3) => {
+            const painter = painterRef.current;
+            if (!painter || painter.boneCount === 0) return;
+
+            const { bone, mode, radius, strength, falloff } = brushRef.current;
+            const touched = painter.stroke(new Vec3(point.x, point.y, point.z), bone, {
+                mode: BRUSH_MODES[mode],
+                radius: radius * sizeRef.current,
+                strength,
+                falloff,
+            });
+            updateColors(touched);
+        };
+
+        const moveCursor = (point: THREE.Vector3 | null) => {
+            const cursor = cursorRef.current;
+            if (!cursor) return;
+            cursor.visible = point !== null;
+            if (point) {
+                cursor.position.copy(point);
+                cursor.scale.setScalar(brushRef.current.radius * sizeRef.current);
+            }
+        };
+
+        // Capture phase: claim drags that start on the mesh before OrbitControls sees them
+        const handlePointerDown = (event: PointerEvent) => {
+            if (event.button !== 0) return;
+
+            const result = apiRef.current?.raycast(event.clientX, event.clientY);
+            if (Array.isArray(result)) {
+                const index = bonesRef.current.findIndex(([a, b]) =>
+                    (a === result[0] && b === result[1]) || (a === result[1] && b === result[0]));
+                if (index >= 0) setBone(index);
+                event.stopPropagation();
+                return;
+            }
+            const point = hitMesh(event);
+            if (!point) return;
+
+            event.stopPropagation();
+            painting = true;
+            dab(point);
+        };
+        const handlePointerMove = (event: PointerEvent) => {
+            const point = hitMesh(event);
+            moveCursor(point);
+            if (painting && point) dab(point);
+        };
+        const handlePointerUp = () => {
+            painting = false;
+        };
+
+        container.addEventListener('pointerdown', handlePointerDown, true);
+        container.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            container.removeEventListener('pointerdown', handlePointerDown, true);
+            container.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+        };
+    }, [updateColors]);
+
+    const onNext = useCallback(() => {
+        const snapshot = snapshotRef.current;
+        const painter = painterRef.current;
+        if (!snapshot || !painter) return;
+
+        const { skinWeights, skinIndices } = painter.getSkinWeights();
+        onComplete?.(restoreSkinnedMesh({
+            ...snapshot,
+            data: { ...snapshot.data, skinWeights, skinIndices },
+        }));
+    }, [onComplete]);
+
+    const steps = useMemo(() => [
+        {
+            name: 'Weight Paint',
+            desc: 'Click a bone to show its weights (blue 0, red 1). Drag on the mesh to paint; drag elsewhere to orbit. Radius is relative to the mesh size, falloff is the soft part of the brush.',
+            params: [
+                { name: 'bone', value: bone, min: 0, max: Math.max(0, boneCount - 1), step: 1, onChange: setBone },
+                { name: 'brush', value: mode, min: 0, max: BRUSH_MODES.length - 1, step: 1, labels: BRUSH_MODES, onChange: setMode },
+                { name: 'radius', value: radius, min: 0.01, max: 0.5, step: 0.01, onChange: setRadius },
+                { name: 'strength', value: strength, min: 0.01, max: 1, step: 0.01, onChange: setStrength },
+                { name: 'falloff', value: falloff, min: 0, max: 1, step: 0.05, onChange: setFalloff },
+            ],
+        },
+    ], [bone, boneCount, mode, radius, strength, falloff]);
+
+    return (
+        <div className="absolute inset-0 z-50 flex flex-col sm:flex-row bg-white dark:bg-gray-900">
+            <div ref={containerRef} className="flex-1 min-w-0 min-h-0 relative"/>
+            <div
+                role="complementary"
+                className="flex-shrink-0 w-full sm:w-80 border-l border-gray-700 bg-gray-900 overflow-auto shadow-xl flex flex-col"
+                data-mantine-color-scheme="dark"
+            >
+                <div className="p-4 flex-1 min-h-0">
+                    <Controller
+                        currentStep={1}
+                        onNext={onNext}
+                        onCancel={onCancel}
+                        steps={steps}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -4,7 +4,7 @@ import { useRef, useEffect, useState, useCallback } from 'react';
 import { Point, Vec2 } from '../interface/point';
 
 interface CanvasProps {
-    onPathComplete?: (path: Point[]) => void;
+    onPathComplete?: (path: Point[], holes: Point[][]) => void;
 }
 
 const CLOSE_THRESHOLD = 10;
@@ -14,6 +14,7 @@ export default function Canvas({ onPathComplete }: CanvasProps) {
     const [isDrawing, setIsDrawing] = useState(false);
     const [startPoint, setStartPoint] = useState<Point | null>(null);
     const [currentPath, setCurrentPath] = useState<Point[]>([]);
+    const [rings, setRings] = useState<Point[][]>([]);
     const hasLeftStartRef = useRef(false);
 
     // Get mouse position relative to canvas
@@ -36,14 +37,26 @@ export default function Canvas({ onPathComplete }: CanvasProps) {
         return canvasRef.current?.getContext('2d');
     }, []);
 
-    // Draw the current path on canvas
+    // Draw the finished rings and the current path on canvas
     const drawPath = useCallback(() => {
         const ctx = getContext();
-        if (!ctx || currentPath.length < 2) return;
+        if (!ctx) return;
 
         const canvas = canvasRef.current!;
         ctx.clearRect(0, 0, canvas.width, canvas.height);
 
+        // Draw rings kept for the sketch: the first is the outline, the rest are holes
+        rings.forEach((ring, i) => {
+            ctx.strokeStyle = i === 0 ? '#3b82f6' : '#f59e0b';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.moveTo(ring[0].x, ring[0].y);
+            ring.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+            ctx.closePath();
+            ctx.stroke();
+        });
+        if (currentPath.length < 2) return;
+
         // Draw main path
         ctx.strokeStyle = '#3b82f6';
         ctx.lineWidth = 2;
@@ -67,15 +80,7 @@ export default function Canvas({ onPathComplete }: CanvasProps) {
                 ctx.setLineDash([]);
             }
         }
-    }, [currentPath, startPoint, getContext, isCloseToStart]);
-
-    // Close and export the path
-    const closePath = useCallback(() => {
-        if (!startPoint || currentPath.length < 2) return;
-        const closedPath = [...currentPath, startPoint];
-        onPathComplete?.(closedPath);
-        resetDrawing();
-    }, [startPoint, currentPath, onPathComplete]);
+    }, [rings, currentPath, startPoint, getContext, isCloseToStart]);
 
     // Reset drawing state
     const resetDrawing = useCallback(() => {
@@ -86,6 +91,33 @@ export default function Canvas({ onPathComplete }: CanvasProps) {
         getContext()?.clearRect(0, 0, canvasRef.current?.width || 0, canvasRef.current?.height || 0);
     }, [getContext]);
 
+    // Export the kept rings as outline + holes
+    const submitRings = useCallback((allRings: Point[][]) => {
+        if (allRings.length === 0) return;
+        onPathComplete?.(allRings[0], allRings.slice(1));
+        setRings([]);
+    }, [onPathComplete]);
+
+    // Close the path; holding Shift keeps it and waits for more rings
+    const closePath = useCallback((keep: boolean = false) => {
+        if (!startPoint || currentPath.length < 2) return;
+        const closedPath = [...currentPath, startPoint];
+        resetDrawing();
+
+        if (keep)   setRings(prev => [...prev, closedPath]);
+        else        submitRings([...rings, closedPath]);
+    }, [startPoint, currentPath, rings, resetDrawing, submitRings]);
+
+    // Enter submits the rings kept so far, Escape drops them
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Enter')  submitRings(rings);
+            if (e.key === 'Escape') setRings([]);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [rings, submitRings]);
+
     // Redraw when path changes
     useEffect(() => {
         drawPath();
@@ -130,12 +162,12 @@ export default function Canvas({ onPathComplete }: CanvasProps) {
 
         // Auto-close if back near start
         if (newPath.length > 2 && hasLeftStartRef.current && isCloseToStart(point, startPoint)) {
-            closePath();
+            closePath(e.shiftKey);
         }
     }, [isDrawing, startPoint, currentPath, getMousePos, isCloseToStart, closePath]);
 
-    const handleMouseUp = useCallback(() => {
-        if (isDrawing) closePath();
+    const handleMouseUp = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (isDrawing) closePath(e.shiftKey);
     }, [isDrawing, closePath]);
 
     const handleMouseLeave = useCallback(() => {
@@ -166,6 +198,11 @@ export default function Canvas({ onPathComplete }: CanvasProps) {
                     )}
                 </div>
             )}
+            {!isDrawing && rings.length > 0 && (
+                <div className="absolute top-2 left-2 text-sm text-gray-600 dark:text-gray-400">
+                    {rings.length} ring(s) kept - draw holes with Shift held, release without Shift or press Enter to finish
+                </div>
+            )}
         </div>
     );
 }
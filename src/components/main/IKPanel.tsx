@@ -0,0 +1,103 @@
+'use client';
+
+import { SceneHooks } from '@/hooks/useScene';
+import { useIK, PoseListener } from '@/hooks/useIK';
+import { IK_SOLVERS } from '@/core/ik';
+
+export interface IKPanelProps {
+    sceneApi: SceneHooks | null;
+    onPose?: PoseListener;
+    className?: string;
+}
+
+const MAX_CHAIN_LENGTH = 10;
+
+const toggleClass = (on: boolean) =>
+    `rounded px-2 py-0.5 text-xs ${
+        on
+            ? 'bg-blue-600 text-white'
+            : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+    }`;
+
+/**
+ * IK posing controls for the main viewport.
+ * With IK on, drag a joint to pose the chain above it; Shift+click pins a joint.
+ * Pin and angle limit apply to the last clicked joint.
+ */
+export default function IKPanel({ sceneApi, onPose, className = '' }: IKPanelProps) {
+    const ik = useIK(sceneApi, onPose);
+
+    if (!sceneApi) return null;
+
+    const limitDegrees = ik.limit === null ? 180 : Math.round((ik.limit * 180) / Math.PI);
+
+    return (
+        <div
+            className={`w-60 rounded-lg border border-gray-200 bg-white/95 p-2 text-xs text-gray-700 shadow-xl backdrop-blur-sm dark:border-gray-700 dark:bg-gray-800/95 dark:text-gray-300 ${className}`}
+            onContextMenu={(e) => e.preventDefault()}
+        >
+            <div className="flex items-center gap-2">
+                <span className="font-semibold">IK posing</span>
+                <button className={`ml-auto ${toggleClass(ik.enabled)}`} onClick={() => ik.setEnabled(!ik.enabled)}>
+                    {ik.enabled ? 'On' : 'Off'}
+                </button>
+            </div>
+
+            {ik.enabled && (
+                <div className="mt-2 flex flex-col gap-2">
+                    <div className="flex items-center gap-1">
+                        <span className="w-16">Solver</span>
+                        {IK_SOLVERS.map((name, i) => (
+                            <button key={name} className={toggleClass(ik.solver === i)} onClick={() => ik.setSolver(i)}>
+                                {name.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-1">
+                        <span className="w-16">Chain</span>
+                        <input
+                            type="range"
+                            min={0}
+                            max={MAX_CHAIN_LENGTH}
+                            value={ik.chainLength}
+                            onChange={(e) => ik.setChainLength(Number(e.target.value))}
+                            className="min-w-0 flex-1"
+                        />
+                        <span className="w-8 text-right">{ik.chainLength === 0 ? 'root' : ik.chainLength}</span>
+                    </label>
+
+                    <div className="border-t border-gray-200 pt-2 dark:border-gray-700">
+                        {ik.active ? (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <span className="min-w-0 flex-1 truncate">{ik.active.name || 'joint'}</span>
+                                    <button className={toggleClass(ik.pinned)} onClick={ik.togglePinned}>
+                                        {ik.pinned ? 'Pinned' : 'Pin'}
+                                    </button>
+                                </div>
+                                <label className="mt-2 flex items-center gap-1">
+                                    <span className="w-16">Limit</span>
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={180}
+                                        step={5}
+                                        value={limitDegrees}
+                                        onChange={(e) => {
+                                            const degrees = Number(e.target.value);
+                                            ik.setLimit(degrees >= 180 ? null : (degrees * Math.PI) / 180);
+                                        }}
+                                        className="min-w-0 flex-1"
+                                    />
+                                    <span className="w-8 text-right">{ik.limit === null ? 'free' : `${limitDegrees}°`}</span>
+                                </label>
+                            </>
+                        ) : (
+                            <span className="text-gray-500">Drag a joint to pose its chain, Shift+click to pin it.</span>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { SceneHooks } from '@/hooks/useScene';
+import * as THREE from 'three';
+
+export interface OutlinerProps {
+    sceneApi: SceneHooks | null;
+    className?: string;
+}
+
+const ICONS = {
+    expanded: ['m19.5 8.25-7.5 7.5-7.5-7.5'],
+    collapsed: ['m8.25 4.5 7.5 7.5-7.5 7.5'],
+    visible: [
+        'M2.036 12.322a1.012 1.012 0 0 1 0-.639C3.423 7.51 7.36 4.5 12 4.5c4.638 0 8.573 3.007 9.963 7.178.07.207.07.431 0 .639C20.577 16.49 16.64 19.5 12 19.5c-4.638 0-8.573-3.007-9.963-7.178Z',
+        'M15 12a3 3 0 1 1-6 0 3 3 0 0 1 6 0Z',
+    ],
+    hidden: [
+        'M3.98 8.223A10.477 10.477 0 0 0 1.934 12C3.226 16.338 7.244 19.5 12 19.5c.993 0 1.953-.138 2.863-.395M6.228 6.228A10.451 10.451 0 0 1 12 4.5c4.756 0 8.773 3.162 10.065 7.498a10.522 10.522 0 0 1-4.293 5.774M6.228 6.228 3 3m3.228 3.228 3.65 3.65m7.894 7.894L21 21m-3.228-3.228-3.65-3.65m0 0a3 3 0 1 0-4.243-4.243m4.242 4.242L9.88 9.88',
+    ],
+    locked: [
+        'M16.5 10.5V6.75a4.5 4.5 0 1 0-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 0 0 2.25-2.25v-6.75a2.25 2.25 0 0 0-2.25-2.25H6.75a2.25 2.25 0 0 0-2.25 2.25v6.75a2.25 2.25 0 0 0 2.25 2.25Z',
+    ],
+    unlocked: [
+        'M13.5 10.5V6.75a4.5 4.5 0 1 1 9 0v3.75M3.75 21.75h10.5a2.25 2.25 0 0 0 2.25-2.25v-6.75a2.25 2.25 0 0 0-2.25-2.25H3.75a2.25 2.25 0 0 0-2.25 2.25v6.75a2.25 2.25 0 0 0 2.25 2.25Z',
+    ],
+};
+
+function Icon({ name }: { name: keyof typeof ICONS }) {
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="h-3.5 w-3.5">
+            {ICONS[name].map((d) => <path key={d} strokeLinecap="round" strokeLinejoin="round" d={d} />)}
+        </svg>
+    );
+}
+
+const iconButton = 'p-0.5 rounded text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white';
+
+/** Bones whose parent is not a bone, i.e. the roots of the joint hierarchy. */
+const rootBones = (mesh: THREE.SkinnedMesh): THREE.Bone[] =>
+    mesh.skeleton.bones.filter((bone: THREE.Bone) => !(bone.parent instanceof THREE.Bone));
+
+/**
+ * Outliner panel for the main viewport.
+ * Lists the skinned meshes registered by useScene with their skeleton helper and
+ * bone hierarchy. Items can be renamed (double-click), hidden, locked against
+ * picking and selected; the selection is the object attached to the transform
+ * controls, so it follows viewport clicks too.
+ */
+export default function Outliner({ sceneApi, className = '' }: OutlinerProps) {
+    const [, setVersion] = useState(0);
+    const [isOpen, setIsOpen] = useState(true);
+    const [expanded, setExpanded] = useState<Set<number>>(new Set());
+    const [editing, setEditing] = useState<THREE.Object3D | null>(null);
+    const [draft, setDraft] = useState('');
+
+    useEffect(() => {
+        if (!sceneApi) return;
+        return sceneApi.subscribe(() => setVersion((v) => v + 1));
+    }, [sceneApi]);
+
+    const toggleExpanded = useCallback((uid: number) => {
+        setExpanded((prev) => {
+            const next = new Set(prev);
+            if (next.has(uid)) next.delete(uid);
+            else next.add(uid);
+            return next;
+        });
+    }, []);
+
+    const startRename = useCallback((obj: THREE.Object3D) => {
+        setEditing(obj);
+        setDraft(obj.name);
+    }, []);
+
+    const commitRename = useCallback(() => {
+        if (editing && sceneApi && draft.trim())
+            sceneApi.rename(editing, draft.trim());
+        setEditing(null);
+    }, [editing, draft, sceneApi]);
+
+    const select = useCallback((obj: THREE.Object3D) => {
+        if (!sceneApi) return;
+        sceneApi.setSpace(obj instanceof THREE.Bone ? 'local' : 'world');
+        sceneApi.attach(obj);
+    }, [sceneApi]);
+
+    if (!sceneApi) return null;
+
+    const meshes = sceneApi.getObjects();
+    const selected = sceneApi.getSelected();
+
+    const renderName = (obj: THREE.Object3D, fallback: string) => editing === obj ? (
+        <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditing(null);
+            }}
+            onClick={(e) => e.stopPropagation()}
+            className="min-w-0 flex-1 rounded border border-gray-300 bg-white px-1 text-xs text-gray-900 dark:border-gray-600 dark:bg-gray-900 dark:text-gray-100"
+        />
+    ) : (
+        <span
+            className="min-w-0 flex-1 truncate"
+            onDoubleClick={(e) => {
+                e.stopPropagation();
+                startRename(obj);
+            }}
+        >
+            {obj.name || fallback}
+        </span>
+    );
+
+    const renderToggles = (obj: THREE.Object3D) => (
+        <>
+            <button
+                className={iconButton}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    sceneApi.setVisible(obj, !obj.visible);
+                }}
+                title={obj.visible ? 'Hide' : 'Show'}
+            >
+                <Icon name={obj.visible ? 'visible' : 'hidden'} />
+            </button>
+            <button
+                className={iconButton}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    sceneApi.setLocked(obj, !obj.userData.locked);
+                }}
+                title={obj.userData.locked ? 'Unlock' : 'Lock against picking'}
+            >
+                <Icon name={obj.userData.locked ? 'locked' : 'unlocked'} />
+            </button>
+        </>
+    );
+
+    const rowClass = (isSelected: boolean, isDisabled: boolean) =>
+        `flex items-center gap-1 rounded px-1 py-0.5 text-xs cursor-pointer ${
+            isSelected
+                ? 'bg-blue-100 text-blue-900 dark:bg-blue-900/50 dark:text-blue-100'
+                : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+        } ${isDisabled ? 'opacity-50' : ''}`;
+
+    const renderBone = (bone: THREE.Bone, depth: number, pickable: boolean): React.ReactNode => (
+        <div key={bone.uuid}>
+            <div
+                className={rowClass(selected === bone, !pickable)}
+                style={{ paddingLeft: `${depth * 12 + 4}px` }}
+                onClick={() => pickable && select(bone)}
+            >
+                {renderName(bone, 'bone')}
+            </div>
+            {bone.children
+                .filter((child): child is THREE.Bone => child instanceof THREE.Bone)
+                .map((child) => renderBone(child, depth + 1, pickable))}
+        </div>
+    );
+
+    return (
+        <div
+            className={`w-60 rounded-lg border border-gray-200 bg-white/95 shadow-xl backdrop-blur-sm dark:border-gray-700 dark:bg-gray-800/95 ${className}`}
+            onContextMenu={(e) => e.preventDefault()}
+        >
+            <button
+                className="flex w-full items-center gap-1 border-b border-gray-200 px-3 py-2 text-xs font-semibold text-gray-700 dark:border-gray-700 dark:text-gray-300"
+                onClick={() => setIsOpen((v) => !v)}
+            >
+                <Icon name={isOpen ? 'expanded' : 'collapsed'} />
+                Outliner
+                <span className="ml-auto font-normal text-gray-500">{meshes.length}</span>
+            </button>
+
+            {isOpen && (
+                <div className="max-h-[50vh] overflow-y-auto p-1">
+                    {meshes.length === 0 && (
+                        <div className="px-2 py-1 text-xs text-gray-500">No meshes in the scene</div>
+                    )}
+                    {meshes.map((mesh, i) => {
+                        const uid = mesh.userData.uid as number;
+                        const helper = sceneApi.getHelper(mesh);
+                        const isExpanded = expanded.has(uid);
+                        const meshPickable = mesh.visible && !mesh.userData.locked;
+                        const bonesPickable = !!helper && helper.visible && !helper.userData.locked;
+
+                        return (
+                            <div key={mesh.uuid}>
+                                <div
+                                    className={rowClass(selected === mesh, !meshPickable)}
+                                    onClick={() => meshPickable && select(mesh)}
+                                >
+                                    <button
+                                        className={iconButton}
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            toggleExpanded(uid);
+                                        }}
+                                    >
+                                        <Icon name={isExpanded ? 'expanded' : 'collapsed'} />
+                                    </button>
+                                    {renderName(mesh, `Mesh ${i + 1}`)}
+                                    {renderToggles(mesh)}
+                                </div>
+
+                                {isExpanded && helper && (
+                                    <div className={rowClass(false, !bonesPickable)} style={{ paddingLeft: '24px' }}>
+                                        <span className="min-w-0 flex-1 truncate italic">Skeleton helper</span>
+                                        {renderToggles(helper)}
+                                    </div>
+                                )}
+                                {isExpanded && rootBones(mesh).map((bone) => renderBone(bone, 2, bonesPickable))}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
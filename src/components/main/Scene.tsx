@@ -4,6 +4,11 @@ import { useRef, useEffect, useState, useCallback } from 'react';
 import { SceneHooks } from '@/hooks/useScene';
 import { MenuAction } from '@/interface';
 import SceneMenu, { MenuPosition } from './SceneMenu';
+import Outliner from './Outliner';
+import IKPanel from './IKPanel';
+import Timeline from './Timeline';
+import { PoseListener } from '@/hooks/useIK';
+import { AnimationListener } from '@/hooks/useAnimation';
 import TemplateScene from '@/components/template/Scene';
 import { traceMesh } from '@/utils/threeSkel';
 import * as THREE from 'three';
@@ -11,21 +16,27 @@ import * as THREE from 'three';
 export interface SceneProps {
     onSceneReady?: (api: SceneHooks) => void;
     onMenuAction?: (action: MenuAction, meshes: THREE.SkinnedMesh[]) => void;
+    onPose?: PoseListener;
+    onAnimationEdit?: AnimationListener;
     className?: string;
     style?: React.CSSProperties;
 }
 
 /**
  * Main 3D Scene component for the main viewport.
- * Uses the template Scene for the 3D view and adds context menu (SceneMenu) and menu action handling.
+ * Uses the template Scene for the 3D view and adds context menu (SceneMenu), menu action handling,
+ * the scene graph (Outliner), IK posing (IKPanel) and keyframe animation (Timeline).
  */
 export default function Scene({
     onSceneReady,
     onMenuAction,
+    onPose,
+    onAnimationEdit,
     className = 'w-full h-full',
     style,
 }: SceneProps) {
     const sceneApiRef = useRef<SceneHooks | null>(null);
+    const [sceneApi, setSceneApi] = useState<SceneHooks | null>(null);
 
     const [isMenuOpen, setIsMenuOpen] = useState(false);
     const [menuPosition, setMenuPosition] = useState<MenuPosition | null>(null);
@@ -35,6 +46,7 @@ export default function Scene({
     const handleSceneReady = useCallback(
         (api: SceneHooks) => {
             sceneApiRef.current = api;
+            setSceneApi(api);
             onSceneReady?.(api);
         },
         [onSceneReady]
@@ -95,6 +107,9 @@ export default function Scene({
                     onSceneReady={handleSceneReady}
                 />
             </div>
+            <Outliner sceneApi={sceneApi} className="absolute top-4 right-4 z-40" />
+            <IKPanel sceneApi={sceneApi} onPose={onPose} className="absolute bottom-4 left-4 z-40" />
+            <Timeline sceneApi={sceneApi} onEdit={onAnimationEdit} className="absolute bottom-4 left-1/2 z-40 -translate-x-1/2" />
             <SceneMenu
                 isOpen={isMenuOpen}
                 position={menuPosition}
@@ -125,6 +125,11 @@ export default function SceneMenu({
         { label: 'Cut', action: 'cut', disabled: false },
         { label: 'Delete', action: 'delete', disabled: false },
         { label: 'Edit Skeleton', action: 'editSkeleton', disabled: selectedMeshes.length !== 1 },
+        { label: 'Paint Weights', action: 'paintWeights', disabled: selectedMeshes.length !== 1 || !selectedMeshes[0].userData.bones?.length },
+        { label: 'Apply Pose', action: 'applyPose', disabled: selectedMeshes.length !== 1 || !selectedMeshes[0].userData.bones?.length },
+        { label: 'Decimate', action: 'decimate', disabled: selectedMeshes.length !== 1 },
+        { label: 'Export glTF', action: 'exportGLB', disabled: false, divider: true },
+        { label: 'Export OBJ', action: 'exportOBJ', disabled: false },
     ];
 
     if (!isOpen || !position) {
@@ -0,0 +1,133 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SceneHooks } from '@/hooks/useScene';
+import { useAnimation, AnimationListener } from '@/hooks/useAnimation';
+import { INTERPOLATIONS, SAMPLE_RATE } from '@/utils/animation';
+
+export interface TimelineProps {
+    sceneApi: SceneHooks | null;
+    onEdit?: AnimationListener;
+    className?: string;
+}
+
+const toggleClass = (on: boolean) =>
+    `rounded px-2 py-0.5 text-xs ${
+        on
+            ? 'bg-blue-600 text-white'
+            : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600'
+    }`;
+
+/**
+ * Keyframe timeline of the last selected rigged mesh.
+ * Pose the bones, move the playhead and press Key to record the pose there;
+ * keyframes are marked above the scrub bar and can be clicked to jump to them.
+ */
+export default function Timeline({ sceneApi, onEdit, className = '' }: TimelineProps) {
+    const anim = useAnimation(sceneApi, onEdit);
+    const [durationText, setDurationText] = useState('');
+
+    useEffect(() => {
+        setDurationText(anim.duration.toFixed(2));
+    }, [anim.duration]);
+
+    if (!sceneApi) return null;
+
+    const commitDuration = () => {
+        const value = Number(durationText);
+        if (value > 0) anim.setDuration(value);
+        else setDurationText(anim.duration.toFixed(2));
+    };
+    const interpolation = INTERPOLATIONS.indexOf(anim.animation?.interpolation ?? 'linear');
+
+    return (
+        <div
+            className={`w-[28rem] rounded-lg border border-gray-200 bg-white/95 p-2 text-xs text-gray-700 shadow-xl backdrop-blur-sm dark:border-gray-700 dark:bg-gray-800/95 dark:text-gray-300 ${className}`}
+            onContextMenu={(e) => e.preventDefault()}
+        >
+            <div className="flex items-center gap-2">
+                <span className="font-semibold">Timeline</span>
+                <span className="min-w-0 flex-1 truncate text-gray-500">
+                    {anim.mesh ? anim.mesh.name || 'Mesh' : 'Select a rigged mesh to animate it.'}
+                </span>
+                {anim.mesh && (
+                    <span className="tabular-nums">
+                        {anim.time.toFixed(2)} / {anim.duration.toFixed(2)} s
+                    </span>
+                )}
+            </div>
+
+            {anim.mesh && (
+                <div className="mt-2 flex flex-col gap-2">
+                    <div className="relative h-2">
+                        {anim.animation?.keyframes.map(({ time }) => (
+                            <button
+                                key={time}
+                                title={`${time.toFixed(2)} s`}
+                                className="absolute top-0 h-2 w-2 -translate-x-1/2 rotate-45 bg-amber-500 hover:bg-amber-400"
+                                style={{ left: `${(time / anim.duration) * 100}%` }}
+                                onClick={() => anim.setTime(time)}
+                            />
+                        ))}
+                    </div>
+                    <input
+                        type="range"
+                        min={0}
+                        max={anim.duration}
+                        step={1 / SAMPLE_RATE}
+                        value={anim.time}
+                        onChange={(e) => {
+                            anim.setPlaying(false);
+                            anim.setTime(Number(e.target.value));
+                        }}
+                        className="w-full"
+                    />
+                    <div className="flex items-center gap-1">
+                        <button
+                            className={toggleClass(anim.playing)}
+                            disabled={!anim.animation?.keyframes.length}
+                            onClick={() => anim.setPlaying(!anim.playing)}
+                        >
+                            {anim.playing ? 'Pause' : 'Play'}
+                        </button>
+                        <button className={toggleClass(anim.loop)} onClick={() => anim.setLoop(!anim.loop)}>
+                            Loop
+                        </button>
+                        <span className="mx-1 h-4 border-l border-gray-200 dark:border-gray-700" />
+                        <button className={toggleClass(false)} disabled={anim.playing} onClick={anim.addKeyframe}>
+                            Key
+                        </button>
+                        <button className={toggleClass(false)} disabled={!anim.hasKeyframe} onClick={anim.removeKeyframe}>
+                            Delete
+                        </button>
+                        <span className="mx-1 h-4 border-l border-gray-200 dark:border-gray-700" />
+                        {INTERPOLATIONS.map((name, i) => (
+                            <button
+                                key={name}
+                                className={toggleClass(interpolation === i)}
+                                disabled={!anim.animation}
+                                onClick={() => anim.setInterpolation(i)}
+                            >
+                                {name}
+                            </button>
+                        ))}
+                        <label className="ml-auto flex items-center gap-1">
+                            <span>Length</span>
+                            <input
+                                type="number"
+                                min={0.1}
+                                step={0.1}
+                                value={durationText}
+                                disabled={!anim.animation}
+                                onChange={(e) => setDurationText(e.target.value)}
+                                onBlur={commitDuration}
+                                onKeyDown={(e) => e.key === 'Enter' && commitDuration()}
+                                className="w-14 rounded border border-gray-200 bg-transparent px-1 dark:border-gray-600"
+                            />
+                        </label>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { Stepper, Slider, Button, Stack, Group, Paper, Text, Box } from '@mantine/core';
+import { Stepper, Slider, SegmentedControl, Button, Stack, Group, Paper, Text, Box } from '@mantine/core';
 
 export interface ControllerParamProps {
     name: string;
@@ -9,6 +9,8 @@ export interface ControllerParamProps {
     max: number;
     step: number;
     onChange: (value: number) => void;
+    /** When set, the value is an index into these labels and is picked from a segmented control. */
+    labels?: string[];
 };
 export interface ControllerStepProps {
     name: string;
@@ -50,23 +52,33 @@ export default function Controller({ currentStep, onNext, onCancel, steps }: Con
                                 <Text size="md" fw={700} c="var(--mantine-color-text)">
                                     {p.name}
                                 </Text>
-                                <Group wrap="nowrap" align="center" gap="xs" style={{ width: '100%' }}>
-                                    <Text size="xs" c="dimmed" style={{ minWidth: 28, textAlign: 'left' }}>
-                                        {p.step >= 1 ? Math.round(p.min) : p.min.toFixed(2)}
-                                    </Text>
-                                    <Slider
-                                        value={p.value}
-                                        onChange={p.onChange}
-                                        min={p.min}
-                                        max={p.max}
-                                        step={p.step}
-                                        size="sm"
-                                        style={{ flex: 1 }}
+                                {p.labels ? (
+                                    <SegmentedControl
+                                        value={String(p.value)}
+                                        onChange={(v) => p.onChange(Number(v))}
+                                        data={p.labels.map((label, i) => ({ label, value: String(i) }))}
+                                        size="xs"
+                                        fullWidth
                                     />
-                                    <Text size="xs" c="dimmed" style={{ minWidth: 28, textAlign: 'right' }}>
-                                        {p.step >= 1 ? Math.round(p.max) : p.max.toFixed(2)}
-                                    </Text>
-                                </Group>
+                                ) : (
+                                    <Group wrap="nowrap" align="center" gap="xs" style={{ width: '100%' }}>
+                                        <Text size="xs" c="dimmed" style={{ minWidth: 28, textAlign: 'left' }}>
+                                            {p.step >= 1 ? Math.round(p.min) : p.min.toFixed(2)}
+                                        </Text>
+                                        <Slider
+                                            value={p.value}
+                                            onChange={p.onChange}
+                                            min={p.min}
+                                            max={p.max}
+                                            step={p.step}
+                                            size="sm"
+                                            style={{ flex: 1 }}
+                                        />
+                                        <Text size="xs" c="dimmed" style={{ minWidth: 28, textAlign: 'right' }}>
+                                            {p.step >= 1 ? Math.round(p.max) : p.max.toFixed(2)}
+                                        </Text>
+                                    </Group>
+                                )}
                             </Stack>
                         ))}
                     </Stack>
@@ -42,6 +42,7 @@ export default function Scene({
         if (!canvas) return;
 
         const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.ctrlKey || event.metaKey || event.target instanceof HTMLInputElement) return;
             const key = event.key.toLowerCase();
             if (key === 'g')    apiRef.current.setMode('translate');
             if (key === 'r')    apiRef.current.setMode('rotate');
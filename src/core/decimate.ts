@@ -0,0 +1,276 @@
+/**
+ * Quadric error decimation (Garland & Heckbert) of a rigged mesh.
+ *
+ * Every vertex accumulates the planes of its faces as a quadric, and edges are
+ * collapsed cheapest first into the point minimizing the sum of their end
+ * quadrics. Collapses go through HalfEdgeMesh, whose link condition keeps a
+ * closed manifold mesh closed and manifold; collapses that would fold a face
+ * over are skipped. Vertices near a joint are never moved, so the surface
+ * keeps its shape where it bends, and the per-bone weights of the merged
+ * vertices are interpolated along the collapsed edge.
+ */
+
+import { Vec3, SkinnedMeshData } from '@/interface';
+import { HalfEdgeMesh } from '@/utils/halfedge';
+
+export interface DecimateOptions {
+    /** Number of faces to stop at; half of the input by default. */
+    targetFaces?: number;
+    /**
+     * Largest root mean square distance of a new vertex to the planes it
+     * replaces, relative to the bounding box diagonal; no bound by default.
+     */
+    maxError?: number;
+    /** Vertices closer to a joint than this fraction of its shortest bone are kept in place. */
+    jointRadius?: number;
+}
+
+/** Weight of the planes across boundary edges, which hold the outline of open meshes */
+const BOUNDARY_WEIGHT = 100;
+/** Smallest cosine between a face normal before and after a collapse */
+const MIN_NORMAL_COS = 0.1;
+
+/**
+ * Symmetric 4 x 4 matrix of a sum of squared plane distances, stored as its
+ * upper triangle, followed by the total weight of the planes.
+ */
+type Quadric = Float64Array;
+
+function planeQuadric(n: Vec3, p: Vec3, weight: number): Quadric {
+    const [a, b, c] = [n.x, n.y, n.z];
+    const d = -n.dot(p);
+    const w = weight;
+    return Float64Array.of(
+        w * a * a, w * a * b, w * a * c, w * a * d,
+        w * b * b, w * b * c, w * b * d,
+        w * c * c, w * c * d,
+        w * d * d,
+        w,
+    );
+}
+
+function addQuadric(target: Quadric, q: Quadric) {
+    for (let k = 0; k < 11; k++) target[k] += q[k];
+}
+
+/** Mean squared distance of p to the planes of q. */
+function quadricError(q: Quadric, p: Vec3): number {
+    const { x, y, z } = p;
+    const e = q[0] * x * x + 2 * q[1] * x * y + 2 * q[2] * x * z + 2 * q[3] * x
+        + q[4] * y * y + 2 * q[5] * y * z + 2 * q[6] * y
+        + q[7] * z * z + 2 * q[8] * z
+        + q[9];
+    return q[10] > 0 ? Math.max(0, e) / q[10] : 0;
+}
+
+/** Point minimizing q, or null when its planes do not pin one down. */
+function quadricMinimum(q: Quadric): Vec3 | null {
+    const [a, b, c, d, e, f, g, h, i] = q;
+    // [a b c; b e f; c f h] p = -[d g i], through the cofactors of the symmetric matrix
+    const c00 = e * h - f * f, c01 = c * f - b * h, c02 = b * f - c * e;
+    const c11 = a * h - c * c, c12 = b * c - a * f, c22 = a * e - b * b;
+    const det = a * c00 + b * c01 + c * c02;
+    const scale = Math.max(Math.abs(a), Math.abs(e), Math.abs(h));
+    if (Math.abs(det) <= 1e-9 * scale * scale * scale) return null;
+    const x = -(c00 * d + c01 * g + c02 * i) / det;
+    const y = -(c01 * d + c11 * g + c12 * i) / det;
+    const z = -(c02 * d + c12 * g + c22 * i) / det;
+    return new Vec3(x, y, z);
+}
+
+/** Binary min-heap of collapse candidates, ordered by cost. */
+class CandidateHeap {
+    private costs: number[] = [];
+    private items: number[][] = [];
+
+    get size(): number {
+        return this.costs.length;
+    }
+
+    push(cost: number, item: number[]) {
+        this.costs.push(cost);
+        this.items.push(item);
+        let i = this.costs.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.costs[parent] <= this.costs[i]) break;
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    pop(): [number, number[]] {
+        const top: [number, number[]] = [this.costs[0], this.items[0]];
+        const cost = this.costs.pop(), item = this.items.pop();
+        if (this.costs.length > 0) {
+            this.costs[0] = cost;
+            this.items[0] = item;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1, r = l + 1;
+                let m = i;
+                if (l < this.costs.length && this.costs[l] < this.costs[m]) m = l;
+                if (r < this.costs.length && this.costs[r] < this.costs[m]) m = r;
+                if (m === i) break;
+                this.swap(i, m);
+                i = m;
+            }
+        }
+        return top;
+    }
+
+    private swap(i: number, j: number) {
+        [this.costs[i], this.costs[j]] = [this.costs[j], this.costs[i]];
+        [this.items[i], this.items[j]] = [this.items[j], this.items[i]];
+    }
+}
+
+/** Vertices within jointRadius times the shortest bone of some joint. */
+function protectedVertices(V: Vec3[], data: SkinnedMeshData, jointRadius: number): boolean[] {
+    const [J, B] = data.skel;
+    const radius = J.map(() => Infinity);
+    B.forEach(([i0, i1]) => {
+        const length = J[i0].minus(J[i1]).norm();
+        radius[i0] = Math.min(radius[i0], length * jointRadius);
+        radius[i1] = Math.min(radius[i1], length * jointRadius);
+    });
+    return V.map(v => J.some((j, k) => radius[k] < Infinity && v.minus(j).norm() < radius[k]));
+}
+
+/**
+ * Decimates a rigged mesh down to a face count or an error bound, whichever
+ * is reached first. The skeleton is kept as is and the weights come back in
+ * the sparse skinWeights / skinIndices layout of setSkinWeights.
+ */
+export function decimate(data: SkinnedMeshData, options: DecimateOptions = {}): SkinnedMeshData {
+    const [V, F] = data.mesh;
+    const { targetFaces = Math.floor(F.length / 2), maxError = Infinity, jointRadius = 0.15 } = options;
+    const mesh = new HalfEdgeMesh(data.mesh);
+    const P = mesh.positions;
+
+    let lo = new Vec3(Infinity, Infinity, Infinity), hi = new Vec3(-Infinity, -Infinity, -Infinity);
+    V.forEach(v => {
+        lo = new Vec3(Math.min(lo.x, v.x), Math.min(lo.y, v.y), Math.min(lo.z, v.z));
+        hi = new Vec3(Math.max(hi.x, v.x), Math.max(hi.y, v.y), Math.max(hi.z, v.z));
+    });
+    const bound = (maxError * hi.minus(lo).norm()) ** 2;
+
+    const quadrics = V.map(() => new Float64Array(11));
+    mesh.faces().forEach(f => {
+        const [a, b, c] = mesh.faceVertices(f);
+        const n = P[b].minus(P[a]).cross(P[c].minus(P[a]));
+        const area = n.norm() / 2;
+        if (area === 0) return;
+        const q = planeQuadric(n.unit(), P[a], area);
+        [a, b, c].forEach(v => addQuadric(quadrics[v], q));
+    });
+    mesh.edges().forEach(h => {
+        if (!mesh.isBoundaryEdge(h)) return;
+        const e = mesh.face(h) < 0 ? mesh.twin(h) : h;
+        const [a, b, c] = [mesh.source(e), mesh.target(e), mesh.opposite(mesh.source(e), mesh.target(e))];
+        const edge = P[b].minus(P[a]);
+        const n = edge.cross(edge.cross(P[c].minus(P[a])));
+        if (n.norm() === 0) return;
+        const q = planeQuadric(n.unit(), P[a], BOUNDARY_WEIGHT * edge.norm2());
+        addQuadric(quadrics[a], q);
+        addQuadric(quadrics[b], q);
+    });
+
+    const fixed = protectedVertices(V, data, jointRadius);
+    const weights = V.map((_, i) => {
+        const w = new Map<number, number>();
+        (data.skinWeights[i] ?? []).forEach((x, k) => {
+            const bone = data.skinIndices ? data.skinIndices[i][k] : k;
+            w.set(bone, (w.get(bone) ?? 0) + x);
+        });
+        return w;
+    });
+
+    /** Where the edge of h collapses to, and at which error; kept vertices pin it down. */
+    const placement = (h: number): [Vec3, number] | null => {
+        const [a, b] = [mesh.source(h), mesh.target(h)];
+        if (fixed[a] && fixed[b]) return null;
+        const q = Float64Array.from(quadrics[a]);
+        addQuadric(q, quadrics[b]);
+        let p: Vec3;
+        if (fixed[a] || fixed[b]) {
+            p = fixed[a] ? P[a] : P[b];
+        } else {
+            const mid = P[a].plus(P[b]).times(0.5);
+            p = [quadricMinimum(q), P[a], P[b], mid]
+                .filter((x): x is Vec3 => x !== null)
+                .reduce((best, x) => quadricError(q, x) < quadricError(q, best) ? x : best);
+        }
+        return [p, quadricError(q, p)];
+    };
+
+    /** Whether moving the vertices of the edge of h to p turns some face over. */
+    const folds = (h: number, p: Vec3): boolean => {
+        const [a, b] = [mesh.source(h), mesh.target(h)];
+        for (const v of [a, b]) for (const e of mesh.outgoingEdges(v)) {
+            if (mesh.face(e) < 0) continue;
+            const [x, y] = [mesh.target(e), mesh.target(mesh.next(e))];
+            if (x === a || x === b || y === a || y === b) continue;
+            const before = P[x].minus(P[v]).cross(P[y].minus(P[v]));
+            const after = P[x].minus(p).cross(P[y].minus(p));
+            if (after.dot(before) <= MIN_NORMAL_COS * after.norm() * before.norm()) return true;
+        }
+        return false;
+    };
+
+    // heap entries are invalidated by stamping the vertices a collapse changes
+    const heap = new CandidateHeap();
+    let clock = 0;
+    const stamp = V.map(() => clock++);
+    const push = (h: number) => {
+        const candidate = placement(h);
+        if (candidate) heap.push(candidate[1], [h, stamp[mesh.source(h)], stamp[mesh.target(h)]]);
+    };
+    mesh.edges().forEach(push);
+
+    let faces = mesh.faces().length;
+    while (faces > targetFaces && heap.size > 0) {
+        const [cost, [h, sa, sb]] = heap.pop();
+        if (cost > bound) break;
+        const [a, b] = [mesh.source(h), mesh.target(h)];
+        if (a < 0 || b < 0 || stamp[a] !== sa || stamp[b] !== sb) continue;
+
+        // the target of e is merged into its source, so a kept vertex must be the source
+        const e = fixed[b] ? mesh.twin(h) : h;
+        const [p] = placement(e);
+        if (!mesh.canCollapse(e) || folds(e, p)) continue;
+        const [keep, gone] = [mesh.source(e), mesh.target(e)];
+        const removed = [e, mesh.twin(e)].filter(x => mesh.face(x) >= 0).length;
+
+        const edge = P[gone].minus(P[keep]);
+        const t = edge.norm2() > 0 ? Math.max(0, Math.min(1, p.minus(P[keep]).dot(edge) / edge.norm2())) : 0.5;
+        const merged = new Map<number, number>();
+        weights[keep].forEach((x, bone) => merged.set(bone, (1 - t) * x));
+        weights[gone].forEach((x, bone) => merged.set(bone, (merged.get(bone) ?? 0) + t * x));
+
+        mesh.collapse(e, p);
+        addQuadric(quadrics[keep], quadrics[gone]);
+        weights[keep] = merged;
+        faces -= removed;
+
+        stamp[keep] = clock++;
+        mesh.outgoingEdges(keep).forEach(x => push(x < mesh.twin(x) ? x : mesh.twin(x)));
+    }
+
+    const kept = mesh.vertices();
+    const skinWeights: number[][] = [];
+    const skinIndices: number[][] = [];
+    kept.forEach(v => {
+        const bones = [...weights[v].keys()].filter(bone => weights[v].get(bone) > 0);
+        const total = bones.reduce((s, bone) => s + weights[v].get(bone), 0);
+        skinIndices.push(bones);
+        skinWeights.push(bones.map(bone => weights[v].get(bone) / total));
+    });
+
+    return {
+        mesh: mesh.toMeshData(),
+        skel: data.skel,
+        skinWeights,
+        skinIndices,
+    };
+}
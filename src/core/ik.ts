@@ -0,0 +1,130 @@
+/**
+ * Inverse kinematics on bone chains: rotate the bones of a chain so that its
+ * last joint (the effector) reaches a target, with CCD or FABRIK.
+ *
+ * A chain lists joints from its root to the effector, each one the parent of
+ * the next. Bones are rotated in place; their positions (and so the bone
+ * lengths) are never changed.
+ */
+
+import * as THREE from 'three';
+
+export type IKSolver = 'ccd' | 'fabrik';
+export const IK_SOLVERS: IKSolver[] = ['ccd', 'fabrik'];
+
+export interface IKOptions {
+    solver?: IKSolver;
+    iterations?: number;
+    /** Distance to the target at which the solver stops, in world units. */
+    tolerance?: number;
+    /** Joints that keep their world position: no joint above the last pinned one moves. */
+    pinned?: Set<THREE.Bone>;
+    /** Largest rotation of a joint away from the bind pose, in radians. */
+    limits?: Map<THREE.Bone, number>;
+}
+
+const _identity = new THREE.Quaternion();
+const _parent = new THREE.Quaternion();
+const _delta = new THREE.Quaternion();
+const _from = new THREE.Vector3();
+const _to = new THREE.Vector3();
+const _a = new THREE.Vector3();
+const _b = new THREE.Vector3();
+
+const worldPosition = (bone: THREE.Bone) => bone.getWorldPosition(new THREE.Vector3());
+
+/**
+ * Chain from the joint `length` bones above the effector (or the top of its
+ * hierarchy) down to the effector.
+ */
+export function ikChain(effector: THREE.Bone, length: number = Infinity): THREE.Bone[] {
+    const chain = [effector];
+    while (chain.length <= length && chain[0].parent instanceof THREE.Bone)
+        chain.unshift(chain[0].parent as THREE.Bone);
+    return chain;
+}
+
+/**
+ * Rotate `bone` so that the world direction `from` turns into `to`, then clamp
+ * the rotation to the joint limit. Bones are in the bind pose at identity
+ * rotation (see buildSkel), so the limit bounds the angle to the identity.
+ */
+function rotateBone(bone: THREE.Bone, from: THREE.Vector3, to: THREE.Vector3, limit?: number) {
+    if (from.lengthSq() < 1e-12 || to.lengthSq() < 1e-12)
+        return;
+
+    // world-space rotation taken into the frame of the parent
+    _delta.setFromUnitVectors(_a.copy(from).normalize(), _b.copy(to).normalize());
+    bone.parent ? bone.parent.getWorldQuaternion(_parent) : _parent.identity();
+    _delta.premultiply(_parent.clone().invert()).multiply(_parent);
+    bone.quaternion.premultiply(_delta);
+
+    if (limit !== undefined && bone.quaternion.angleTo(_identity) > limit)
+        bone.quaternion.copy(_identity.clone().rotateTowards(bone.quaternion, limit));
+    bone.updateMatrixWorld(true);
+}
+
+function solveCCD(chain: THREE.Bone[], target: THREE.Vector3, iterations: number, tolerance: number, limits?: Map<THREE.Bone, number>) {
+    const effector = chain[chain.length - 1];
+    for (let it = 0; it < iterations; it++) {
+        for (let i = chain.length - 2; i >= 0; i--) {
+            const joint = worldPosition(chain[i]);
+            _from.copy(worldPosition(effector)).sub(joint);
+            _to.copy(target).sub(joint);
+            rotateBone(chain[i], _from, _to, limits?.get(chain[i]));
+        }
+        if (worldPosition(effector).distanceTo(target) < tolerance)
+            break;
+    }
+}
+
+function solveFABRIK(chain: THREE.Bone[], target: THREE.Vector3, iterations: number, tolerance: number, limits?: Map<THREE.Bone, number>) {
+    const n = chain.length;
+    const p = chain.map(worldPosition);
+    const lengths = p.slice(1).map((q, i) => q.distanceTo(p[i]));
+    const root = p[0].clone();
+
+    const place = (i: number, from: number) => {
+        const dir = p[i].clone().sub(p[from]);
+        if (dir.lengthSq() < 1e-12) return;
+        p[i].copy(p[from]).addScaledVector(dir.normalize(), lengths[Math.min(i, from)]);
+    };
+    for (let it = 0; it < iterations; it++) {
+        p[n - 1].copy(target);
+        for (let i = n - 2; i >= 0; i--) place(i, i + 1);
+        p[0].copy(root);
+        for (let i = 1; i < n; i++) place(i, i - 1);
+        if (p[n - 1].distanceTo(target) < tolerance)
+            break;
+    }
+    // turn the solved positions into rotations, aiming each bone at the next solved joint
+    for (let i = 0; i < n - 1; i++) {
+        const joint = worldPosition(chain[i]);
+        _from.copy(worldPosition(chain[i + 1])).sub(joint);
+        _to.copy(p[i + 1]).sub(joint);
+        rotateBone(chain[i], _from, _to, limits?.get(chain[i]));
+    }
+}
+
+/**
+ * Pose a chain so that its effector reaches `target` (world space).
+ * @returns the remaining distance between the effector and the target
+ */
+export function solveIK(chain: THREE.Bone[], target: THREE.Vector3, options: IKOptions = {}): number {
+    const { solver = 'ccd', iterations = 20, tolerance = 1e-3, pinned, limits } = options;
+    const effector = chain[chain.length - 1];
+
+    let start = 0;
+    for (let i = 0; i < chain.length; i++)
+        if (pinned?.has(chain[i])) start = i;
+    const free = chain.slice(start);
+
+    if (free.length >= 2) {
+        free[0].updateWorldMatrix(true, true);
+        if (solver === 'fabrik')
+            solveFABRIK(free, target, iterations, tolerance, limits);
+        else
+            solveCCD(free, target, iterations, tolerance, limits);
+    }
+    return worldPosition(effector).distanceTo(target);
+}
@@ -1,28 +1,71 @@
 /**
- * Mesh cut operator: cut mesh + skeleton by a plane, extract boundary.
+ * Mesh cut operator: cut mesh + skeleton by a plane or a freehand ruled
+ * surface, extract boundary.
  *
  * Plane: normal·x + offset = 0 (normal unit Vec3, offset number). No THREE.Plane.
  */
 
-import { Vec2, Vec3, Plane, Frame } from '@/interface';
+import { Vec2, Vec3, Plane, SkinnedMeshData } from '@/interface';
 import { skinnedMeshFromData } from '@/utils/threeMesh';
 import { skinnedMeshToData } from '@/utils/threeMesh';
 import { setSkinWeights } from '@/utils/threeMesh';
 import { getSkinWeights } from '@/utils/threeMesh';
 import { buildMesh } from '@/utils/threeMesh';
-import { buildLaplacianTopology, smooth } from '@/utils/solver';
-import { buildLaplacianGeometry, diffuse } from '@/utils/solver';
+import { extractMeshData } from '@/utils/threeMesh';
+import { extractSkelData } from '@/utils/threeMesh';
+import * as skin from '@/core/skin';
+import { SkinSolver } from '@/core/skin';
+import { buildLaplacianTopology, SolverContext } from '@/utils/solver';
+import { buildLaplacianGeometry } from '@/utils/solver';
 import * as geo2d from '@/utils/geo2d';
 import * as geo3d from '@/utils/geo3d';
 import * as THREE from 'three';
 import * as topo from '@/utils/topo';
+import { HalfEdgeMesh } from '@/utils/halfedge';
+import { deepCopy } from '@/utils/misc';
 
-var graphlib = require("graphlib");
 var cdt2d = require('cdt2d');
 
 /** Screen-space line: two NDC points (Vec2 or [x,y] tuple) */
 export type ScreenLine = [[number, number], [number, number]];
 
+/** Screen-space stroke: NDC points of a freehand polyline */
+export type ScreenPath = [number, number][];
+
+/**
+ * Freehand cut: a polyline extruded along `direction` into a ruled surface.
+ * The first and last segments extend indefinitely, so the surface splits space in two.
+ */
+export interface CutStroke {
+    points: Vec3[];
+    /** Extrusion direction (unit) */
+    direction: Vec3;
+}
+
+/** Cut of the mesh: a plane or a freehand stroke */
+export type Cut = Plane | CutStroke;
+
+/**
+ * Intersect the camera ray through an NDC point with the view plane through the world origin.
+ */
+function unprojectToViewPlane(ndcX: number, ndcY: number, camera: THREE.PerspectiveCamera, viewDir: Vec3): Vec3 {
+    const near = new THREE.Vector3(ndcX, ndcY, 0).unproject(camera);
+    const far = new THREE.Vector3(ndcX, ndcY, 1).unproject(camera);
+    const dir = new THREE.Vector3().subVectors(far, near).normalize();
+    const originV = new Vec3(near.x, near.y, near.z);
+    const dirV = new Vec3(dir.x, dir.y, dir.z);
+    const denom = viewDir.dot(dirV);
+    if (Math.abs(denom) < 1e-8) return originV;
+    const t = -viewDir.dot(originV) / denom;
+    return originV.plus(dirV.times(t));
+}
+
+function cameraDirection(camera: THREE.PerspectiveCamera): Vec3 {
+    const viewDir = new THREE.Vector3();
+    camera.getWorldDirection(viewDir);
+    return new Vec3(viewDir.x, viewDir.y, viewDir.z);
+}
+
 /**
  * Compute a cut plane from a screen-space line and camera.
  * This is a utility function for UI components to convert user-drawn lines into cut planes.
@@ -34,25 +77,11 @@ export function computeCutPlaneFromScreenLine(
     line: ScreenLine,
     camera: THREE.PerspectiveCamera
 ): Plane {
-    const viewDir = new THREE.Vector3();
-    camera.getWorldDirection(viewDir);
-    const viewDirV = new Vec3(viewDir.x, viewDir.y, viewDir.z);
-
-    const unprojectNDCToViewPlane = (ndcX: number, ndcY: number): Vec3 => {
-        const near = new THREE.Vector3(ndcX, ndcY, 0).unproject(camera);
-        const far = new THREE.Vector3(ndcX, ndcY, 1).unproject(camera);
-        const dir = new THREE.Vector3().subVectors(far, near).normalize();
-        const originV = new Vec3(near.x, near.y, near.z);
-        const dirV = new Vec3(dir.x, dir.y, dir.z);
-        const denom = viewDirV.dot(dirV);
-        if (Math.abs(denom) < 1e-8) return originV;
-        const t = -viewDirV.dot(originV) / denom;
-        return originV.plus(dirV.times(t));
-    };
+    const viewDirV = cameraDirection(camera);
 
     const [p1, p2] = line;
-    const Q1 = unprojectNDCToViewPlane(p1[0], p1[1]);
-    const Q2 = unprojectNDCToViewPlane(p2[0], p2[1]);
+    const Q1 = unprojectToViewPlane(p1[0], p1[1], camera, viewDirV);
+    const Q2 = unprojectToViewPlane(p2[0], p2[1], camera, viewDirV);
     const lineDir = Q2.minus(Q1);
 
     const pointOnPlane = Q1.plus(Q2).times(0.5);
@@ -64,45 +93,188 @@ export function computeCutPlaneFromScreenLine(
     };
 }
 
-export class MeshCut {
-    private inputMesh: THREE.SkinnedMesh;
-    private normal: Vec3;
+/**
+ * Compute a freehand cut from a screen-space stroke and camera: the stroke is
+ * unprojected to the view plane and extruded along the view direction.
+ * @param path Screen-space stroke (NDC points)
+ * @param camera Perspective camera used for unprojection
+ */
+export function computeCutStrokeFromScreenPath(
+    path: ScreenPath,
+    camera: THREE.PerspectiveCamera
+): CutStroke {
+    const viewDirV = cameraDirection(camera).unit();
+    return {
+        points: path.map(([x, y]) => unprojectToViewPlane(x, y, camera, viewDirV)),
+        direction: viewDirV,
+    };
+}
+
+/**
+ * Plane normal to a bone, through the point at parameter t along it.
+ * @param head First joint of the bone (t = 0)
+ * @param tail Second joint of the bone (t = 1)
+ */
+export function computeBonePlane(head: Vec3, tail: Vec3, t: number): Plane {
+    const normal = tail.minus(head).unit();
+    const point = head.plus(tail.minus(head).times(t));
+    return { normal, offset: -normal.dot(point) };
+}
+
+/**
+ * Planes normal to a bone, slicing it into pieces of equal length.
+ * @param pieces Number of pieces, one more than the number of planes
+ */
+export function computeBoneSlicePlanes(head: Vec3, tail: Vec3, pieces: number): Plane[] {
+    const planes: Plane[] = [];
+    for (let k = 1; k < pieces; k++)
+        planes.push(computeBonePlane(head, tail, k / pieces));
+    return planes;
+}
+
+/**
+ * Cutting surface of a stroke, seen in the plane normal to its direction:
+ * signed distance for the split, and a map to 2D for the caps. A surface
+ * extruded along a fixed direction is developable, so unfolding it by arc
+ * length along the stroke is an isometry and the caps keep their spacing on
+ * curved cuts. A plane is the stroke of a single segment.
+ */
+class CutSurface {
+    private direction: Vec3;
     private basisU: Vec3;
     private basisV: Vec3;
+    /** Stroke in the (basisU, basisV) plane, and arc length at each of its points */
+    private path: Vec2[] = [];
+    private arc: number[] = [];
+
+    constructor(cut: Cut) {
+        if ('normal' in cut) {
+            // the plane through -offset·normal is the stroke along basisU extruded along basisV
+            const [u, v] = geo3d.computePlaneBasis(cut.normal);
+            const origin = cut.normal.times(-cut.offset);
+            cut = { points: [origin, origin.plus(u)], direction: v };
+        }
+        this.direction = cut.direction;
+        [this.basisU, this.basisV] = geo3d.computePlaneBasis(cut.direction);
+        for (const p of cut.points) {
+            const q = this.project(p);
+            const last = this.path[this.path.length - 1];
+            if (last && q.minus(last).norm() < 1e-9) continue;
+            this.arc.push(last ? this.arc[this.arc.length - 1] + q.minus(last).norm() : 0);
+            this.path.push(q);
+        }
+    }
+
+    private project(p: Vec3): Vec2 {
+        return new Vec2(p.dot(this.basisU), p.dot(this.basisV));
+    }
+
+    /** Unit normal on the right of segment i, so that (tangent, direction, normal) is right-handed. */
+    private normal(i: number): Vec2 {
+        const t = this.path[i + 1].minus(this.path[i]).unit();
+        return new Vec2(t.y, -t.x);
+    }
+
+    /**
+     * Closest point of the stroke to q: segment, parameter along it (the end
+     * segments are extended), and signed distance.
+     */
+    private closest(q: Vec2): [number, number, number] {
+        const m = this.path.length - 1;
+        let best = Infinity, seg = 0, param = 0;
+        for (let i = 0; i < m; i++) {
+            const a = this.path[i], ab = this.path[i + 1].minus(a);
+            let t = q.minus(a).dot(ab) / ab.norm2();
+            if (i > 0) t = Math.max(t, 0);
+            if (i < m - 1) t = Math.min(t, 1);
+            const d = q.minus(a.plus(ab.times(t))).norm();
+            if (d < best) best = d, seg = i, param = t;
+        }
+        // at an inner corner of the stroke, the side is given by the bisector of both segment normals
+        let normal = this.normal(seg);
+        if (param === 1 && seg < m - 1) normal = normal.plus(this.normal(seg + 1));
+        if (param === 0 && seg > 0) normal = normal.plus(this.normal(seg - 1));
+        const a = this.path[seg], c = a.plus(this.path[seg + 1].minus(a).times(param));
+        return [seg, param, q.minus(c).dot(normal) >= 0 ? best : -best];
+    }
+
+    /** Signed distance of p to the surface. */
+    distance(p: Vec3): number {
+        return this.closest(this.project(p))[2];
+    }
+
+    /** Coordinates of the closest point of the surface to p, unrolled to 2D: arc length and height. */
+    unfold(p: Vec3): Vec2 {
+        const [seg, t] = this.closest(this.project(p));
+        const length = this.arc[seg + 1] - this.arc[seg];
+        return new Vec2(this.arc[seg] + t * length, p.dot(this.direction));
+    }
+
+    /** Point of the surface at unrolled coordinates q. */
+    fold(q: Vec2): Vec3 {
+        let seg = 0;
+        while (seg < this.path.length - 2 && q.x > this.arc[seg + 1]) seg++;
+        const a = this.path[seg], t = this.path[seg + 1].minus(a).unit();
+        const c = a.plus(t.times(q.x - this.arc[seg]));
+        return this.basisU.times(c.x).plus(this.basisV.times(c.y)).plus(this.direction.times(q.y));
+    }
+}
+
+export class MeshCut {
+    private inputMesh: THREE.SkinnedMesh;
+    private surfaces: CutSurface[] = [];
     private spacing: number;
+    /** Factors reused while smoothing is re-run with the same parameters */
+    private solver = new SolverContext();
 
     constructor(mesh: THREE.SkinnedMesh) {
         this.inputMesh = mesh;
     }
-    public runMeshSplit(plane: Plane): THREE.SkinnedMesh[] {
-        const [basisU, basisV] = geo3d.computePlaneBasis(plane.normal);
-        this.normal = plane.normal;
-        this.basisU = basisU;
-        this.basisV = basisV;
+    /**
+     * Split the mesh and its skeleton along one or several planes or freehand
+     * strokes, returning every piece. Bones crossing a cut are shortened to
+     * end one edge length away from it.
+     */
+    public runMeshSplit(cuts: Cut | Cut[]): THREE.SkinnedMesh[] {
+        this.surfaces = (Array.isArray(cuts) ? cuts : [cuts]).map(cut => new CutSurface(cut));
         const data = skinnedMeshToData(this.inputMesh);
-        const vertexDist = data.mesh[0].map(v => this.normal.dot(v) + plane.offset);
-        const jointDist = data.skel[0].map(j => this.normal.dot(j) + plane.offset);
 
-        const n = data.mesh[0].length;
-        const g = new graphlib.Graph();
         this.spacing = 0;
+        data.mesh[1].forEach(([i0, i1, i2]) => {
+            this.spacing += data.mesh[0][i1].minus(data.mesh[0][i0]).norm();
+            this.spacing += data.mesh[0][i2].minus(data.mesh[0][i1]).norm();
+            this.spacing += data.mesh[0][i0].minus(data.mesh[0][i2]).norm();
+        });
+        this.spacing /= 3 * data.mesh[1].length;
 
-        data.mesh[1].forEach(([i0, i1, i2], _) => {
+        let pieces = [data];
+        for (const surface of this.surfaces)
+            pieces = pieces.flatMap(piece => this.splitData(piece, surface));
+
+        return pieces.map(piece => {
+            const mesh = skinnedMeshFromData(piece);
+            // pieces are centered on their vertices; the cutting surfaces are in the frame of the input mesh
+            mesh.userData.cutOrigin = mesh.position.toArray();
+            return mesh;
+        });
+    }
+    /**
+     * Split mesh data along a surface into its connected pieces. Pieces
+     * without faces, such as bones cut off beyond the mesh, are dropped.
+     */
+    private splitData(data: SkinnedMeshData, surface: CutSurface): SkinnedMeshData[] {
+        const vertexDist = data.mesh[0].map(v => surface.distance(v));
+        const jointDist = data.skel[0].map(j => surface.distance(j));
+
+        const n = data.mesh[0].length;
+        const faces = data.mesh[1].filter(([i0, i1, i2]) => {
             const d0 = vertexDist[i0];
             const d1 = vertexDist[i1];
             const d2 = vertexDist[i2];
 
-            if ((d0 >= 0 && d1 >= 0 && d2 >= 0) ||
-                (d0 < 0 && d1 < 0 && d2 < 0)) {
-                g.setEdge(i0, i1, i2);
-                g.setEdge(i1, i2, i0);
-                g.setEdge(i2, i0, i1);
-            }
-            this.spacing += data.mesh[0][i1].minus(data.mesh[0][i0]).norm();
-            this.spacing += data.mesh[0][i2].minus(data.mesh[0][i1]).norm();
-            this.spacing += data.mesh[0][i0].minus(data.mesh[0][i2]).norm();
+            return (d0 >= 0 && d1 >= 0 && d2 >= 0) ||
+                   (d0 < 0 && d1 < 0 && d2 < 0);
         });
-        this.spacing /= 3 * data.mesh[1].length;
 
         const newJoints = [...data.skel[0]];
         const newBones: [number, number][] = [];
@@ -126,14 +298,14 @@ export class MeshCut {
                     tmp.push(newBones.length);
                     newBones.push([i0, newJoints.length]);
                     newJoints.push(newPos);
-                    jointDist.push(plane.normal.dot(newPos) + plane.offset);
+                    jointDist.push(surface.distance(newPos));
                 }
                 if (Math.abs(d1) >= 2 * this.spacing) {
                     const newPos = v1.minus(dir.times(Math.abs(d1) - this.spacing));
                     tmp.push(newBones.length);
                     newBones.push([i1, newJoints.length]);
                     newJoints.push(newPos);
-                    jointDist.push(plane.normal.dot(newPos) + plane.offset);
+                    jointDist.push(surface.distance(newPos));
                 }
                 splitMap.push(tmp);
             }
@@ -141,12 +313,20 @@ export class MeshCut {
         const offsetJoint = n;
         const offsetBone = n + newJoints.length;
 
+        // vertices, joints and bones connected by kept faces, bones and skin weights
+        const parent = Array.from({ length: offsetBone + newBones.length }, (_, i) => i);
+        const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+        const union = (a: number, b: number) => { parent[find(a)] = find(b); };
+
+        faces.forEach(([i0, i1, i2]) => {
+            union(i0, i1);
+            union(i1, i2);
+        });
         newBones.forEach(([i0, i1], idx) => {
-            g.setEdge(offsetJoint + i0, offsetBone + idx);
-            g.setEdge(offsetJoint + i1, offsetBone + idx);
-            g.setEdge(offsetBone + idx, offsetJoint + i0);
-            g.setEdge(offsetBone + idx, offsetJoint + i1);
+            union(offsetJoint + i0, offsetBone + idx);
+            union(offsetJoint + i1, offsetBone + idx);
         });
+        const influences: [number, number][][] = Array.from({ length: n }, () => []);
 
         for (let i = 0; i < n; i++)
         for (let j = 0; j < data.skinWeights[i].length; j++) {
@@ -157,30 +337,42 @@ export class MeshCut {
                 let [t, _] = newBones[idx];
                 if ((vertexDist[i] >= 0 && jointDist[t] >= 0) ||
                     (vertexDist[i] < 0 && jointDist[t] < 0)) {
-                    g.setEdge(i, idx + offsetBone, w);
-                    g.setEdge(idx + offsetBone, i, w);
+                    influences[i].push([idx, w]);
+                    union(i, offsetBone + idx);
                 }
             }
         }
 
-        let components = graphlib.alg.components(g);
-        let newMeshes = [];
+        const components = new Map<number, number[]>();
+        const componentFaces = new Map<number, number[][]>();
+        parent.forEach((_, x) => {
+            const root = find(x);
+            if (!components.has(root)) components.set(root, []);
+            components.get(root).push(x);
+        });
+        faces.forEach(f => {
+            const root = find(f[0]);
+            if (!componentFaces.has(root)) componentFaces.set(root, []);
+            componentFaces.get(root).push(f);
+        });
+        let pieces: SkinnedMeshData[] = [];
 
-        components.forEach(comp => {
+        components.forEach((comp, root) => {
+            if (!componentFaces.has(root)) return;
             let vIdxMap = new Map();
             let bIdxMap = new Map();
             let jIdxMap = new Map();
 
             comp.forEach((x, _) => {
                 if (x < n) {
-                    vIdxMap.set(Number(x), vIdxMap.size);
+                    vIdxMap.set(x, vIdxMap.size);
                 } else if (x < offsetBone) {
-                    jIdxMap.set(Number(x), jIdxMap.size);
+                    jIdxMap.set(x, jIdxMap.size);
                 } else {
-                    bIdxMap.set(Number(x), bIdxMap.size);
+                    bIdxMap.set(x, bIdxMap.size);
                 }
             });
-            let V = new Array(vIdxMap.size), F = [];
+            let V = new Array(vIdxMap.size);
             let J = new Array(jIdxMap.size), B = new Array(bIdxMap.size);
             let skinWeights = new Array(vIdxMap.size);
             let skinIndices = new Array(vIdxMap.size);
@@ -195,35 +387,19 @@ export class MeshCut {
                 ];
             });
             vIdxMap.forEach((i, u) => {
-                let weights = [];
-                let indices = [];
-
-                for (let e of g.outEdges(u)) {
-                    let v = Number(e.w);
-                    let w = g.edge(u, v);
-                    if (v < n) {
-                        if (u < v && u < w)
-                            F.push([
-                                vIdxMap.get(u),
-                                vIdxMap.get(v),
-                                vIdxMap.get(w)
-                            ]);
-                    } else {
-                        weights.push(w);
-                        indices.push(bIdxMap.get(v));
-                    }
-                }
-                skinWeights[i] = weights;
-                skinIndices[i] = indices;
+                skinWeights[i] = influences[u].map(([_, w]) => w);
+                skinIndices[i] = influences[u].map(([idx, _]) => bIdxMap.get(idx + offsetBone));
             });
-            newMeshes.push(skinnedMeshFromData({
+            const F = componentFaces.get(root).map(f => f.map(u => vIdxMap.get(u)));
+
+            pieces.push({
                 mesh: [V, F],
                 skel: [J, B],
                 skinWeights,
                 skinIndices
-            }));
+            });
         });
-        return newMeshes;
+        return pieces;
     }
     public runMeshStitch(mesh: THREE.SkinnedMesh) {
         const V = [], F = [];
@@ -238,39 +414,33 @@ export class MeshCut {
         for (let i = 0; i < idxAttr.count; i += 3)
             F.push([idxAttr.getX(i), idxAttr.getX(i+1), idxAttr.getX(i+2)]);
         
-        let topoG = null;
+        let topology: HalfEdgeMesh = null;
         let loops = null;
 
         if (!mesh.userData?.stitched) {
             mesh.userData.stitched = true;
-            topoG = new graphlib.Graph();
-
-            V.forEach((v, i) => topoG.setNode(i, v));
-            F.forEach((f, _) => {
-                topoG.setEdge(f[0], f[1], f[2]);
-                topoG.setEdge(f[1], f[2], f[0]);
-                topoG.setEdge(f[2], f[0], f[1]);
-            });
-            mesh.userData.topoG = topoG;
-            mesh.userData.loops = loops = topo.extraceBoundaryLoops(topoG);
+            topology = new HalfEdgeMesh([V, F]);
+            mesh.userData.topology = topology;
+            mesh.userData.loops = loops = topo.extraceBoundaryLoops(topology);
         } else {
+            topology = mesh.userData.topology;
+            loops = mesh.userData.loops;
             for (let i = 0; i < V.length; i++) {
-                V[i] = topoG.node(i);
+                V[i] = topology.positions[i];
                 posAttr.setXYZ(i, V[i].x, V[i].y, V[i].z);
             }
-            topoG = mesh.userData.topoG;
-            loops = mesh.userData.loops;
         }
 
+        const origin = new Vec3(...(mesh.userData.cutOrigin ?? [0, 0, 0]) as [number, number, number]);
+
         loops.forEach(loop => {
             const n = loop.length;
-            const centroid = loop.reduce((acc, i) => acc.plus(V[i]), new Vec3(0, 0, 0)).over(n);
-            const offset = centroid.dot(this.normal);
-
-            const plane = { normal: this.normal, offset };            
-            const frame = { origin: centroid, basisU: this.basisU, basisV: this.basisV };
+            const W = loop.map(i => V[i].plus(origin));
+            // the loop was opened by the cut it lies closest to
+            const deviation = this.surfaces.map(surface => W.reduce((sum, w) => sum + Math.abs(surface.distance(w)), 0));
+            const surface = this.surfaces[deviation.indexOf(Math.min(...deviation))];
 
-            let polygon = loop.map(i => geo3d.projectTo2D(V[i], plane, frame));
+            let polygon = W.map(w => surface.unfold(w));
             let inverse = false;
 
             if (geo2d.isClockwise(polygon)) {
@@ -285,7 +455,7 @@ export class MeshCut {
             gridPoints.forEach(p => points.push([p.x, p.y]));
 
             const faces = cdt2d(points, polygon.map((_, index) => [index, (index + 1) % polygon.length]), { exterior: false });
-            const verts = points.map((p, i) => i < n ? V[loop[i]] : geo3d.projectTo3D(new Vec2(...p), frame));
+            const verts = points.map((p, i) => i < n ? V[loop[i]] : surface.fold(new Vec2(...p)).minus(origin));
 
             if (inverse)
                 faces.forEach(face => face.reverse());
@@ -301,7 +471,7 @@ export class MeshCut {
         let posAttr = mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
         let idxAttr = mesh.geometry.getIndex();
 
-        const topoG = mesh.userData.topoG;
+        let topology: HalfEdgeMesh = mesh.userData.topology;
 
         if (!mesh.userData?.patched) {
             const V = [], F = [];
@@ -331,7 +501,6 @@ export class MeshCut {
                     V.push(new Vec3(v.x, v.y, v.z));
                     skinWeights.push([]);
                     skinIndices.push([]);
-                    topoG.setNode(index, V[index]);
                 }
                 for (let i = 0; i < idxAttr.count; i += 3) {
                     const f = [idxAttr.getX(i), idxAttr.getX(i+1), idxAttr.getX(i+2)];
@@ -341,14 +510,12 @@ export class MeshCut {
                         else            face.push(i - base + offset);
                     });
                     F.push(face);
-                    topoG.setEdge(face[0], face[1], face[2]);
-                    topoG.setEdge(face[1], face[2], face[0]);
-                    topoG.setEdge(face[2], face[0], face[1]);
                 }
                 patch.geometry?.dispose();
                 patch.material?.dispose();
                 mesh.remove(patch);
             });
+            mesh.userData.topology = topology = new HalfEdgeMesh([V, F]);
             const newMesh = buildMesh([V, F], false);
             newMesh.material.dispose();
             mesh.geometry.dispose();
@@ -360,7 +527,7 @@ export class MeshCut {
             idxAttr = mesh.geometry.getIndex();
         } else {
             for (let i = 0; i < posAttr.count; i++) {
-                let v = topoG.node(i);
+                let v = topology.positions[i];
                 posAttr.setXYZ(i, v.x, v.y, v.z);
             }
         }
@@ -368,46 +535,42 @@ export class MeshCut {
         for (let i = mesh.userData.patchBase; i < posAttr.count; i++)
             source.push(i);
 
-        const [interior, boundary] = topo.expand(topoG, source, smoothLayers);
+        const [interior, boundary] = topo.expand(topology, source, smoothLayers);
 
         const local_region = new Set<number>([...boundary, ...interior]);
-        const local_faces = [];
-
-        local_region.forEach(x => {
-            for (const e of topoG.outEdges(x)) {
-                const y = Number(e.w);
-                const z = topoG.edge(x, y);
-
-                if (!local_region.has(y))   continue;
-                if (!local_region.has(z))   continue;
-
-                if (x < y && x < z)
-                    local_faces.push([x, y, z]);
-            }
-        });
+        const local_faces = topo.regionFaces(topology, local_region);
         const local_lap = buildLaplacianTopology([[], local_faces]);
 
-        const hardX = boundary.map((i) => [i, topoG.node(i).x] as [number, number]);
-        const hardY = boundary.map((i) => [i, topoG.node(i).y] as [number, number]);
-        const hardZ = boundary.map((i) => [i, topoG.node(i).z] as [number, number]);
-        const weakX = interior.map((i) => [i, topoG.node(i).x] as [number, number]);
-        const weakY = interior.map((i) => [i, topoG.node(i).y] as [number, number]);
-        const weakZ = interior.map((i) => [i, topoG.node(i).z] as [number, number]);
-
-        const resX = smooth(local_lap, weakX, hardX, smoothFactor);
-        const resY = smooth(local_lap, weakY, hardY, smoothFactor);
-        const resZ = smooth(local_lap, weakZ, hardZ, smoothFactor);
+        const xyz = (i: number): [number, number[]] => {
+            const v = topology.positions[i];
+            return [i, [v.x, v.y, v.z]];
+        };
+        const result = this.solver.smooth(local_lap, interior.map(xyz), boundary.map(xyz), smoothFactor);
 
         for (const i of local_region) {
-            posAttr.setXYZ(i, resX.get(i)!, resY.get(i)!, resZ.get(i)!);
+            const [x, y, z] = result.get(i)!;
+            posAttr.setXYZ(i, x, y, z);
         }
         posAttr.needsUpdate = true;
         mesh.geometry.computeVertexNormals();
     }
-    public computeSkinWeights(mesh: THREE.SkinnedMesh) {
+    /**
+     * Weights of the cap patch. By default they are diffused from the boundary
+     * loops, keeping the weights inherited from the input mesh elsewhere; with a
+     * solver the weights of the whole piece are recomputed from its skeleton.
+     */
+    public computeSkinWeights(mesh: THREE.SkinnedMesh, solver: SkinSolver | null = null) {
+        // keep the inherited weights so that the step can be re-run with another solver
+        mesh.userData.inheritedWeights ??= getSkinWeights(mesh);
+        if (solver) {
+            const skel = extractSkelData(mesh);
+            setSkinWeights(mesh, skin.computeSkinWeights(extractMeshData(mesh), skel, solver), null);
+            return;
+        }
         const posAttr = mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
         const posArray = [];
-        const { skinWeights, skinIndices } = getSkinWeights(mesh);
+        const skinWeights: number[][] = deepCopy(mesh.userData.inheritedWeights.skinWeights);
+        const skinIndices: number[][] = deepCopy(mesh.userData.inheritedWeights.skinIndices);
 
         for (let i = 0; i < posAttr.count; i++) {
             let v = new THREE.Vector3();
@@ -416,7 +579,6 @@ export class MeshCut {
         }
         const boundary = mesh.userData.loops.flat();
         const interior = [];
-        const topoG = mesh.userData.topoG;
         for (let i = mesh.userData.patchBase; i < posAttr.count; i++) {
             interior.push(i);
             skinWeights[i] = [];
@@ -424,31 +586,18 @@ export class MeshCut {
         }
 
         const local_region = new Set<number>([...boundary, ...interior]);
-        const local_faces = [];
-
-        local_region.forEach(x => {
-            for (const e of topoG.outEdges(x)) {
-                const y = Number(e.w);
-                const z = topoG.edge(x, y);
-
-                if (!local_region.has(y))   continue;
-                if (!local_region.has(z))   continue;
-
-                if (x < y && x < z)
-                    local_faces.push([x, y, z]);
-            }
-        });
+        const local_faces = topo.regionFaces(mesh.userData.topology, local_region);
         const local_lap = buildLaplacianGeometry([posArray, local_faces]);
 
-        for (let j = 0; j < skinWeights[0].length; j++) {
-            const constraints: [number, number][] = boundary.map(i => [i, skinWeights[i][j]] as [number, number]);
-            const result = diffuse(local_lap, [], constraints, 1);
+        const nBones = skinWeights[0].length;
+        const constraints: [number, number[]][] = boundary.map(i => [i, skinWeights[i].slice(0, nBones)]);
+        const result = this.solver.diffuse(local_lap, [], constraints, 1);
 
+        for (let j = 0; j < nBones; j++)
             for (let [i, w] of result) if (i >= mesh.userData.patchBase) {
-                skinWeights[i].push(w);
+                skinWeights[i].push(w[j]);
                 skinIndices[i].push(j);
             }
-        }
         setSkinWeights(mesh, skinWeights, skinIndices);
     }
 }
\ No newline at end of file
@@ -5,7 +5,8 @@ import Vector from '@/lib/linalg/vector';
 import { Point, Vec2, Vec3 } from '../interface/point';
 import { MeshData } from '../interface';
 import { SkelData } from '../interface';
-import { buildLaplacianTopology, smooth } from '@/utils/solver';
+import { buildLaplacianTopology, SolverContext } from '@/utils/solver';
+import { CrossSection, buildProfile, profilePerimeter } from '@/utils/profile';
 
 // @ts-ignore - CommonJS module
 var Graph = require("graphlib").Graph;
@@ -59,19 +60,41 @@ class MeshGen {
     private allVertices: Vector[] = [];
     private allFaces: number[][] = [];
     private mesh2D: [Vec2[], number[][]] = [[], []];
-
-    constructor(polygon: Point[], private isodistance: number) {
+    private rings: number[][] = [];
+    private profile: CrossSection = buildProfile('circle');
+    private perimeter: number = 2 * Math.PI;
+
+    /**
+     * @param polygon - outer ring of the sketch
+     * @param isodistance - target spacing between boundary samples
+     * @param holes - inner rings cut out of the outline; each hole adds one handle to the surface
+     */
+    constructor(polygon: Point[], private isodistance: number, holes: Point[][] = []) {
         if (geo2d.isClockwise(polygon))
             polygon.reverse();
         
         const centroid = polygon.reduce((acc, p) => acc.plus(p), new Vec2(0, 0)).over(polygon.length);
-        polygon = polygon.map(p => p.minus(centroid));
-        polygon = reparameterize(polygon, 2*this.isodistance);
+        const rings = [polygon, ...holes.map(h => geo2d.isClockwise(h) ? h : h.slice().reverse())]
+            .map(ring => ring.map(p => p.minus(centroid)))
+            .map(ring => reparameterize(ring, 2*this.isodistance))
+            .filter((ring, index) => index === 0 || ring.length >= 3);
+
+        const points: Vec2[] = [];
+        const edges: [number, number][] = [];
+
+        for (const ring of rings) {
+            const offset = points.length;
+            this.rings.push(ring.map((_, index) => offset + index));
+            ring.forEach((p, index) => {
+                points.push(new Vec2(p.x, p.y));
+                edges.push([offset + index, offset + (index+1)%ring.length]);
+            });
+        }
         this.mesh2D = [
-            polygon.map(p => new Vec2(p.x, p.y)),
+            points,
             cdt2d(
-                polygon.map(p => [p.x, p.y]),
-                polygon.map((_, index) => [index, (index+1)%polygon.length]),
+                points.map(p => [p.x, p.y]),
+                edges,
                 {exterior: false}
             )
         ]
@@ -137,15 +160,16 @@ class MeshGen {
             if (chordIndices.length === 3)  this.chordJunctions.push([i0, i1, i2]);
         }
     }
-    private generateCircle(c: Vector, d: Vector, r: number) {
+    private generateRing(c: Vector, d: Vector, r: number) {
         let z = new Vector(0, 0, 1);
-        let n = Math.floor(r * 2 * Math.PI / this.isodistance);
+        let n = Math.floor(r * this.perimeter / this.isodistance);
         if (n % 2 === 1) n++;
         let points = [];
         for (let i = 0; i < n; i++) {
-            let t = i / n;
-            let x = d.times(Math.cos(t * 2 * Math.PI));
-            let y = z.times(Math.sin(t * 2 * Math.PI));
+            // pin the ring endpoints exactly onto the chord, junction stitching relies on it
+            let p = 2*i === n ? new Vec2(-1, 0) : i === 0 ? new Vec2(1, 0) : this.profile(i / n * 2 * Math.PI);
+            let x = d.times(p.x);
+            let y = z.times(p.y);
             points.push(x.plus(y).times(r).plus(c));
         }
         return points;
@@ -267,6 +291,10 @@ class MeshGen {
         
             let n0 = parseInt(neighbors[0]);
             let n1 = parseInt(neighbors[1]);
+
+            // keep loops around holes from collapsing below a triangle
+            if (g.hasEdge(n0, n1))
+                continue;
         
             let p0 = g.node(n0);
             let p1 = g.node(n1);
@@ -334,6 +362,9 @@ class MeshGen {
             let p1 = g.node(v);
             let dist = p1.minus(p0).norm();
             if (dist < boneLengthThreshold) {
+                if (g.outEdges(v).some(e => e.w !== u && g.hasEdge(u, e.w)))
+                    continue;
+
                 for (let e of g.outEdges(v))
                     if (e.w !== u) {
                         let tmp = g.edge(v, e.w);
@@ -386,10 +417,20 @@ class MeshGen {
         }
         return [joints, bones];
     }
+    /**
+     * Set the cross-section used for every chord ring; takes effect on the next generatePipes.
+     */
+    setProfile(profile: CrossSection) {
+        this.profile = profile;
+        this.perimeter = profilePerimeter(profile);
+    }
     generatePipes() {
         let nC = this.chordGraph.nodeCount();
         let visited = new Array(nC).fill(false);
 
+        this.allVertices = [];
+        this.allFaces = [];
+
         this.chordOffset = new Array(nC).fill(0);
         this.chordBufSize = new Array(nC).fill(0);
 
@@ -398,7 +439,7 @@ class MeshGen {
             let d = this.chordDirs[i];
             let r = this.chordLengths[i] / 2;
 
-            let disc = this.generateCircle(c, d, r);
+            let disc = this.generateRing(c, d, r);
             this.chordBufSize[i] = disc.length;
             this.chordOffset[i] = this.allVertices.length;
 
@@ -410,47 +451,67 @@ class MeshGen {
             if (this.chordGraph.outEdges(i).length > 1)
                 continue;
 
-            let branch: number[] = [];
-            let branchDiscs: Vector[][] = [];
-            let current = i;
+            this.stitchBranch(this.traceBranch(i, visited), false);
+        }
+        // chords left unvisited form closed loops around holes
+        for (let i = 0; i < nC; ++i) {
+            if (visited[i])
+                continue;
 
-            while (current && !visited[current]) {
-                visited[current] = true;
-                branch.push(current);
-                let edges = this.chordGraph.outEdges(current);
-                if (edges.length > 2)
+            this.stitchBranch(this.traceBranch(i, visited), true);
+        }
+    }
+    private traceBranch(start: number, visited: boolean[]) {
+        let branch: number[] = [];
+        let current = start;
+
+        while (current !== null && !visited[current]) {
+            visited[current] = true;
+            branch.push(current);
+            let edges = this.chordGraph.outEdges(current);
+            if (edges.length > 2)
+                break;
+            let next = null;
+            for (let e of edges) {
+                if (!visited[e.w]) {
+                    next = Number(e.w);
                     break;
-                let next = null;
-                for (let e of edges) {
-                    if (!visited[e.w]) {
-                        next = e.w;
-                        break;
-                    }
                 }
-                current = next;
             }
-            if (branch.length === 0)
-                continue;
+            current = next;
+        }
+        return branch;
+    }
+    private stitchBranch(branch: number[], closed: boolean) {
+        if (branch.length === 0)
+            return;
 
-            for (let chordIdx of branch) {
-                branchDiscs.push(this.allVertices.slice(
-                    this.chordOffset[chordIdx],
-                    this.chordOffset[chordIdx] + this.chordBufSize[chordIdx]
-                ));
-            }
-            for (let i = 1; i < branchDiscs.length; ++i) {
-                let slice = this.generateSlice(branchDiscs[i-1], branchDiscs[i]);
-                let n1 = branchDiscs[i-1].length;
-                let n2 = branchDiscs[i].length;
+        let branchDiscs: Vector[][] = [];
+        let pairs: [number, number][] = [];
 
-                for (let f of slice) {
-                    let face = [];
-                    for (let v of f) {
-                        if (v < n1) face.push(v + this.chordOffset[branch[i-1]]);
-                        else        face.push(v + this.chordOffset[branch[i]] - n1);
-                    }
-                    this.allFaces.push(face); 
+        for (let chordIdx of branch) {
+            branchDiscs.push(this.allVertices.slice(
+                this.chordOffset[chordIdx],
+                this.chordOffset[chordIdx] + this.chordBufSize[chordIdx]
+            ));
+        }
+        for (let i = 1; i < branch.length; ++i)
+            pairs.push([i-1, i]);
+
+        if (closed && branch.length > 2)
+            pairs.push([branch.length-1, 0]);
+
+        for (let [i0, i1] of pairs) {
+            let slice = this.generateSlice(branchDiscs[i0], branchDiscs[i1]);
+            let n1 = branchDiscs[i0].length;
+
+            for (let f of slice) {
+                let face = [];
+                for (let v of f) {
+                    if (v < n1) face.push(v + this.chordOffset[branch[i0]]);
+                    else        face.push(v + this.chordOffset[branch[i1]] - n1);
                 }
+                this.allFaces.push(face); 
             }
         }
     }
@@ -475,7 +536,7 @@ class MeshGen {
 
             while (r > 1.5 * this.isodistance) {
                 r -= this.isodistance;
-                let disc = this.generateCircle(co.plus(ci.minus(co).times((r/ri)**2)), d, r);
+                let disc = this.generateRing(co.plus(ci.minus(co).times((r/ri)**2)), d, r);
                 
                 capDisc.push(disc);
                 capOffset.push(this.allVertices.length);
@@ -745,20 +806,15 @@ class MeshGen {
         for (let j = 0; j < this.chordBufSize[i]; j++)
             chordPoints.push(this.chordOffset[i] + j);
 
-        const weakX = chordPoints.map(j => [j, this.allVertices[j].x] as [number, number]);
-        const weakY = chordPoints.map(j => [j, this.allVertices[j].y] as [number, number]);
-        const weakZ = chordPoints.map(j => [j, this.allVertices[j].z] as [number, number]);
-
-        const resX = smooth(lap, weakX, [], factor);
-        const resY = smooth(lap, weakY, [], factor);
-        const resZ = smooth(lap, weakZ, [], factor);
+        const weak = chordPoints.map(j => {
+            const v = this.allVertices[j];
+            return [j, [v.x, v.y, v.z]] as [number, number[]];
+        });
+        const result = new SolverContext().smooth(lap, weak, [], factor);
 
         for (let i = 0; i < V.length; i++) {
-            V[i] = new Vec3(
-                resX.get(i)!,
-                resY.get(i)!,
-                resZ.get(i)!
-            );
+            const [x, y, z] = result.get(i)!;
+            V[i] = new Vec3(x, y, z);
         }
     }
     getChords() {
@@ -767,6 +823,9 @@ class MeshGen {
     getMesh2D() {
         return [this.mesh2D[0].slice(), this.mesh2D[1].slice()];
     }
+    getRings() {
+        return this.rings.map(ring => ring.slice());
+    }
     getMesh3D(): MeshData {
         return [this.allVertices.slice(), this.allFaces.slice()];
     }
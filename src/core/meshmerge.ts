@@ -7,6 +7,9 @@
  * 3. Extract boundary loops from each mesh
  * 4. Connect boundary loops using generateSlice logic
  * 5. Smooth the merged region
+ *
+ * Alternatively, steps 1-4 can be replaced by a boolean union (runBooleanUnion),
+ * which cuts both surfaces along their intersection curve and leaves nothing to stitch.
  */
 
 import { Vec3, SkinnedMeshData } from '@/interface';
@@ -22,37 +25,19 @@ import * as geo3d from '@/utils/geo3d';
 import * as geo2d from '@/utils/geo2d';
 import * as skin from '@/core/skin';
 import * as topo from '@/utils/topo';
+import { meshUnion } from '@/utils/boolean';
+import { BVH } from '@/utils/bvh';
+import { HalfEdgeMesh } from '@/utils/halfedge';
 
-import { buildLaplacianTopology, smooth } from '@/utils/solver';
+import { buildLaplacianTopology, SolverContext } from '@/utils/solver';
 import { buildLaplacianGeometry, diffuse } from '@/utils/solver';
 
-var Graph = require("graphlib").Graph;
 var cdt2d = require('cdt2d');
 
-// --- Helper Functions (kept module-scope for simplicity) ---
-
-/**
- * Check if a point is inside a mesh using raycasting (odd-even rule).
- */
-function isPointInsideMesh(point: Vec3, mesh: MeshData): boolean {
-    const [vertices, faces] = mesh;
-    const direction = new Vec3(0.57735, 0.57735, 0.57735); // normalized (1,1,1)
-    let intersections = 0;
-
-    for (const face of faces) {
-        const v0 = vertices[face[0]];
-        const v1 = vertices[face[1]];
-        const v2 = vertices[face[2]];
-
-        if (geo3d.rayTriangleIntersect(point, direction, v0, v1, v2)) {
-            intersections++;
-        }
-    }
-
-    return intersections % 2 === 1;
-}
-
 export type MergeType = 'snap' | 'split' | 'connect';
+export type CleanupMode = 'remove' | 'union';
+export const CLEANUP_MODES: CleanupMode[] = ['remove', 'union'];
+
 export interface MergeParams {
     type: 'snap' | 'split' | 'connect';
     src: number;
@@ -62,6 +47,8 @@ export interface MergeParams {
 export class MeshMerge {
     private data1: SkinnedMeshData;
     private data2: SkinnedMeshData;
+    /** Factors reused while smoothing is re-run with the same parameters */
+    private solver = new SolverContext();
 
     constructor(mesh1: THREE.SkinnedMesh, mesh2: THREE.SkinnedMesh, private params: MergeParams) {
         this.data1 = skinnedMeshToData(mesh1);
@@ -100,59 +87,100 @@ export class MeshMerge {
         this.data2.skinIndices.push([...this.data2.skinIndices[index]]);
         this.params.tgt = newIdx;
     }
+    /**
+     * Joints and bones of the merged skeleton, joined at the connector, and the
+     * index of the first bone of mesh 2.
+     */
+    private mergeSkeletons(): [Vec3[], [number, number][], number] {
+        const J = [...this.data1.skel[0]];
+        const B = [...this.data1.skel[1].map(([a, b]) => [a, b] as [number, number])];
+        const n1 = this.data1.skel[0].length;
+        const src = this.params.src;
+        const tgt = this.params.tgt as number;
+
+        if (this.params.type === 'snap') {
+            J.push(...this.data2.skel[0].filter((_, i) => i !== tgt));
+            B.push(...this.data2.skel[1].map(([a, b]) => {
+                const x = a === tgt ? src : ((a < tgt ? a : a - 1) + n1);
+                const y = b === tgt ? src : ((b < tgt ? b : b - 1) + n1);
+                return [x, y] as [number, number];
+            }));
+        } else {
+            J.push(...this.data2.skel[0]);
+            B.push(...this.data2.skel[1].map(([a, b]) => [a + n1, b + n1] as [number, number]));
+            B.push([src, n1 + tgt]);
+        }
+        return [J, B, this.data1.skel[1].length];
+    }
+    /**
+     * Boolean union of the two meshes: both surfaces are split along their
+     * intersection curve and the parts inside the other mesh are dropped.
+     * Vertices of the curve get the weights of both meshes, half each.
+     * The result has no boundary loops; the curve is smoothed by runMeshSmooth.
+     */
+    public runBooleanUnion(): THREE.SkinnedMesh {
+        const [J, B, boneOffset] = this.mergeSkeletons();
+        const { mesh: [V, F], sources, seam } = meshUnion(this.data1.mesh, this.data2.mesh);
+
+        const skinWeights: number[][] = [];
+        const skinIndices: number[][] = [];
+        sources.forEach(([a, b]) => {
+            const weights = new Map<number, number>();
+            const scale = a.length > 0 && b.length > 0 ? 0.5 : 1;
+            const add = (data: SkinnedMeshData, source: [number, number][], offset: number) =>
+                source.forEach(([v, t]) => (data.skinWeights[v] || []).forEach((w, k) => {
+                    const bone = (data.skinIndices?.[v]?.[k] ?? k) + offset;
+                    weights.set(bone, (weights.get(bone) ?? 0) + w * t * scale);
+                }));
+            add(this.data1, a, 0);
+            add(this.data2, b, boneOffset);
+            skinIndices.push([...weights.keys()]);
+            skinWeights.push([...weights.values()]);
+        });
+
+        const mesh = skinnedMeshFromData({
+            mesh: [V, F],
+            skel: [J, B],
+            skinWeights,
+            skinIndices,
+        });
+        mesh.userData.loops1 = [];
+        mesh.userData.loops2 = [];
+        mesh.userData.seam = seam;
+
+        return mesh;
+    }
     public runTriangleRemoval(): THREE.SkinnedMesh {
-        const toRemove1 = this.data1.mesh[0].map(v => isPointInsideMesh(v, this.data2.mesh));
-        const toRemove2 = this.data2.mesh[0].map(v => isPointInsideMesh(v, this.data1.mesh));
+        const bvh1 = new BVH(this.data1.mesh);
+        const bvh2 = new BVH(this.data2.mesh);
+        const toRemove1 = this.data1.mesh[0].map(v => bvh2.contains(v));
+        const toRemove2 = this.data2.mesh[0].map(v => bvh1.contains(v));
 
         const idxMap1 = new Map<number, number>();
         const idxMap2 = new Map<number, number>();
         const V = [], F = [];
-        const J = [...this.data1.skel[0]];
-        const B = [...this.data1.skel[1].map(([a, b]) => [a, b] as [number, number])];
         let offset = 0;
 
         this.data1.mesh[0].forEach((v, i) => { if (!toRemove1[i]) V.push(v), idxMap1.set(i, offset++); });
         this.data2.mesh[0].forEach((v, i) => { if (!toRemove2[i]) V.push(v), idxMap2.set(i, offset++); });
 
-        const g1 = new Graph();
-        const g2 = new Graph();
+        const F1 = [], F2 = [];
 
         this.data1.mesh[1].forEach(([i0, i1, i2], _) => {
             if (toRemove1[i0]) return;
             if (toRemove1[i1]) return;
             if (toRemove1[i2]) return;
-            F.push([idxMap1.get(i0), idxMap1.get(i1), idxMap1.get(i2)]);
-            g1.setEdge(idxMap1.get(i0), idxMap1.get(i1));
-            g1.setEdge(idxMap1.get(i1), idxMap1.get(i2));
-            g1.setEdge(idxMap1.get(i2), idxMap1.get(i0));
+            F1.push([idxMap1.get(i0), idxMap1.get(i1), idxMap1.get(i2)]);
         });
         this.data2.mesh[1].forEach(([i0, i1, i2], _) => {
             if (toRemove2[i0]) return;
             if (toRemove2[i1]) return;
             if (toRemove2[i2]) return;
-            F.push([idxMap2.get(i0), idxMap2.get(i1), idxMap2.get(i2)]);
-            g2.setEdge(idxMap2.get(i0), idxMap2.get(i1));
-            g2.setEdge(idxMap2.get(i1), idxMap2.get(i2));
-            g2.setEdge(idxMap2.get(i2), idxMap2.get(i0));
+            F2.push([idxMap2.get(i0), idxMap2.get(i1), idxMap2.get(i2)]);
         });
+        F.push(...F1, ...F2);
 
-        const n1 = this.data1.skel[0].length;
-        const src = this.params.src;
-        const tgt = this.params.tgt as number;
-        const boneOffset = this.data1.skel[1].length;
-
-        if (this.params.type === 'snap') {
-            J.push(...this.data2.skel[0].filter((_, i) => i !== tgt));
-            B.push(...this.data2.skel[1].map(([a, b]) => {
-                const x = a === tgt ? src : ((a < tgt ? a : a - 1) + n1);
-                const y = b === tgt ? src : ((b < tgt ? b : b - 1) + n1);
-                return [x, y] as [number, number];
-            }));
-        } else {
-            J.push(...this.data2.skel[0]);
-            B.push(...this.data2.skel[1].map(([a, b]) => [a + n1, b + n1] as [number, number]));
-            B.push([src, n1 + tgt]);
-        }
+        const [J, B, boneOffset] = this.mergeSkeletons();
 
         // Merge skin weights / indices from both meshes into the new vertex layout.
         const mergedSkinWeights: number[][] = new Array(V.length);
@@ -179,8 +207,8 @@ export class MeshMerge {
             skinIndices: mergedSkinIndices
         });
 
-        mesh.userData.loops1 = topo.extraceBoundaryLoops(g1);
-        mesh.userData.loops2 = topo.extraceBoundaryLoops(g2);
+        mesh.userData.loops1 = topo.extraceBoundaryLoops(new HalfEdgeMesh([V, F1]));
+        mesh.userData.loops2 = topo.extraceBoundaryLoops(new HalfEdgeMesh([V, F2]));
 
         return mesh;
     }
@@ -287,18 +315,18 @@ export class MeshMerge {
     public runMeshSmooth(mesh: THREE.SkinnedMesh, smoothLayers: number, smoothFactor: number) {
         const posAttr = mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
         const idxAttr = mesh.geometry.getIndex();
-        let topoG = null;
+        let topology: HalfEdgeMesh = null;
         let source = [];
 
         if (!mesh.userData?.patched) {
             mesh.userData.patched = true;
             const patches = mesh.children.filter(child => child.userData?.isPatch);
             const faces = [];
-            const sourceSet = new Set<number>();
-            topoG = new Graph();
+            const sourceSet = new Set<number>(mesh.userData.seam ?? []);
+            const V: Vec3[] = [];
 
             for (let i = 0; i < posAttr.count; i++)
-                topoG.setNode(i, new Vec3(posAttr.getX(i), posAttr.getY(i), posAttr.getZ(i)));
+                V.push(new Vec3(posAttr.getX(i), posAttr.getY(i), posAttr.getZ(i)));
             
             for (let i = 0; i < idxAttr.count; i += 3) {
                 const i0 = idxAttr.getX(i);
@@ -318,58 +346,43 @@ export class MeshMerge {
                 mesh.remove(patch);
             }
             source = [...sourceSet];
-            faces.forEach(([i0, i1, i2]) => {
-                topoG.setEdge(i0, i1, i2);
-                topoG.setEdge(i1, i2, i0);
-                topoG.setEdge(i2, i0, i1);
-            });
-            mesh.userData.topoG = topoG;
+            topology = new HalfEdgeMesh([V, faces]);
+            mesh.userData.topology = topology;
             mesh.userData.source = source;
             mesh.geometry.setIndex(faces.flat());
         } else {
-            topoG = mesh.userData.topoG;
+            topology = mesh.userData.topology;
             source = mesh.userData.source;
         }
-        const [interior, boundary] = topo.expand(topoG, source, smoothLayers);
+        const [interior, boundary] = topo.expand(topology, source, smoothLayers);
 
         const local_region = new Set<number>([...boundary, ...interior]);
-        const local_faces = [];
-
-        local_region.forEach(x => {
-            for (const e of topoG.outEdges(x)) {
-                const y = Number(e.w);
-                const z = topoG.edge(x, y);
-
-                if (!local_region.has(y))   continue;
-                if (!local_region.has(z))   continue;
-
-                if (x < y && x < z)
-                    local_faces.push([x, y, z]);
-            }
-        });
+        const local_faces = topo.regionFaces(topology, local_region);
         const local_lap = buildLaplacianTopology([[], local_faces]);
 
-        const hardX = boundary.map((i) => [i, topoG.node(i).x] as [number, number]);
-        const hardY = boundary.map((i) => [i, topoG.node(i).y] as [number, number]);
-        const hardZ = boundary.map((i) => [i, topoG.node(i).z] as [number, number]);
-        const weakX = interior.map((i) => [i, topoG.node(i).x] as [number, number]);
-        const weakY = interior.map((i) => [i, topoG.node(i).y] as [number, number]);
-        const weakZ = interior.map((i) => [i, topoG.node(i).z] as [number, number]);
-
-        const resX = smooth(local_lap, weakX, hardX, smoothFactor);
-        const resY = smooth(local_lap, weakY, hardY, smoothFactor);
-        const resZ = smooth(local_lap, weakZ, hardZ, smoothFactor);
+        const xyz = (i: number): [number, number[]] => {
+            const v = topology.positions[i];
+            return [i, [v.x, v.y, v.z]];
+        };
+        const result = this.solver.smooth(local_lap, interior.map(xyz), boundary.map(xyz), smoothFactor);
 
         for (const i of local_region) {
-            posAttr.setXYZ(i, resX.get(i)!, resY.get(i)!, resZ.get(i)!);
+            const [x, y, z] = result.get(i)!;
+            posAttr.setXYZ(i, x, y, z);
         }
         posAttr.needsUpdate = true;
         mesh.geometry.computeVertexNormals();
     }
-    public computeSkinWeights(mesh: THREE.SkinnedMesh) {
-        const skinWeights = skin.computeSkinWeightsGlobal(
+    /**
+     * Recompute the skin weights of the merged mesh with a solver, or keep the
+     * weights carried over from both meshes when solver is null.
+     */
+    public computeSkinWeights(mesh: THREE.SkinnedMesh, solver: skin.SkinSolver | null = 'closest') {
+        if (!solver) return;
+        const skinWeights = skin.computeSkinWeights(
             extractMeshData(mesh),
-            extractSkelData(mesh)
+            extractSkelData(mesh),
+            solver
         );
         setSkinWeights(mesh, skinWeights, null);
     }
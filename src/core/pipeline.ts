@@ -0,0 +1,140 @@
+import { MeshGen } from '@/core/meshgen';
+import { computeSkinWeights, SKIN_SOLVERS } from '@/core/skin';
+import { buildProfile, CrossSection, PROFILE_TYPES } from '@/utils/profile';
+import * as geo3d from '@/utils/geo3d';
+import { Vec2, Vec3, MeshData, SkelData, SkinnedMeshData } from '@/interface';
+
+/**
+ * The MeshGen pipeline (sketch -> pipes -> remeshed surface -> skeleton -> skin
+ * weights) without any UI state, shared by the interactive flow, its worker and
+ * the command line tool.
+ */
+export interface MeshGenParams {
+    isodistance: number;
+    laplacianIters: number;
+    laplacianAlpha: number;
+    smoothFactor: number;
+    profileType: number;
+    profileDepth: number;
+    profileCurve: Vec2[] | null;
+    isometricIterations: number;
+    isometricLength: number;
+    boneDevThreshold: number;
+    boneLenThreshold: number;
+    bonePruningThreshold: number;
+    skinSolver: number;
+}
+
+export const DEFAULT_MESHGEN_PARAMS: MeshGenParams = {
+    isodistance: 10,
+    laplacianIters: 50,
+    laplacianAlpha: 0.5,
+    smoothFactor: 0.1,
+    profileType: 0,
+    profileDepth: 0.5,
+    profileCurve: null,
+    isometricIterations: 6,
+    isometricLength: 5,
+    boneDevThreshold: 0.1,
+    boneLenThreshold: 5,
+    bonePruningThreshold: 5,
+    skinSolver: 0,
+};
+
+export interface PipeMesh {
+    mesh: MeshData;
+    /** Face count before the caps were stitched. */
+    capOffset: number;
+    /** Face count before the junctions were stitched. */
+    junctionOffset: number;
+}
+
+/**
+ * Center a sketch drawn in screen coordinates (y pointing down) at the centroid
+ * of its outline and flip it so that y points up.
+ */
+export function normalizeSketch(path: Vec2[], holes: Vec2[][] = []): [Vec2[], Vec2[][]] {
+    const centroid = path.reduce((acc, p) => acc.plus(p), new Vec2(0, 0)).over(path.length);
+    const normalize = (ring: Vec2[]) => ring.map(p => new Vec2(p.x - centroid.x, centroid.y - p.y));
+
+    return [normalize(path), holes.map(normalize)];
+}
+
+export function profileFromParams(params: Pick<MeshGenParams, 'profileType' | 'profileDepth' | 'profileCurve'>): CrossSection {
+    return buildProfile(PROFILE_TYPES[params.profileType], params.profileDepth, params.profileCurve);
+}
+
+/**
+ * Step 3: generate the pipes around the chordal axis and close them with caps
+ * and junctions.
+ */
+export function buildPipes(meshGen: MeshGen, profile: CrossSection, onProgress?: (value: number) => void): PipeMesh {
+    meshGen.setProfile(profile);
+    meshGen.generatePipes();    const capOffset = meshGen.faceCount();          onProgress?.(1/3);
+    meshGen.stitchCaps();       const junctionOffset = meshGen.faceCount();     onProgress?.(2/3);
+    meshGen.stitchJunctions();
+
+    const [V, F] = meshGen.getMesh3D() as MeshData;
+    return { mesh: [V, F], capOffset, junctionOffset };
+}
+
+/**
+ * Step 3: smooth a copy of the pipe mesh, leaving the one held by meshGen intact.
+ */
+export function smoothPipes(meshGen: MeshGen, factor: number): MeshData {
+    const [V0, F0] = meshGen.getMesh3D() as MeshData;
+    const V = V0.map(v => new Vec3(v.x, v.y, v.z));
+    const F = F0.map(f => [...f]);
+    meshGen.runMeshSmoothing(V, F, factor);
+
+    return [V, F];
+}
+
+/**
+ * Step 4: isometric remeshing of (V, F) in place.
+ * @param length - target edge length; 5 or below keeps the mean edge length of the input
+ */
+export function remesh(V: Vec3[], F: number[][], iterations: number, length: number, onProgress?: (value: number) => void): MeshData {
+    const target = length <= 5 ? -1 : length;
+    for (let i = 0; i < iterations; i++) {
+        geo3d.runIsometricRemesh(V, F, 1, target);
+        onProgress?.((i + 1) / iterations);
+    }
+    return [V, F];
+}
+
+/**
+ * Run every step of the pipeline on a normalized sketch (see {@link normalizeSketch}).
+ * @param onProgress - called with the name of the step about to run
+ */
+export function runMeshGenPipeline(
+    path: Vec2[],
+    holes: Vec2[][],
+    params: MeshGenParams,
+    onProgress?: (step: string) => void
+): SkinnedMeshData {
+    onProgress?.('triangulation');
+    const meshGen = new MeshGen(path, params.isodistance, holes);
+
+    onProgress?.('chord smoothing');
+    meshGen.runChordSmoothing(params.laplacianIters, params.laplacianAlpha);
+
+    onProgress?.('pipes');
+    buildPipes(meshGen, profileFromParams(params));
+    const [V, F] = smoothPipes(meshGen, params.smoothFactor);
+
+    onProgress?.('remeshing');
+    const mesh = remesh(V, F, params.isometricIterations, params.isometricLength);
+
+    onProgress?.('skeleton');
+    const skel = meshGen.generateSkeleton(
+        params.boneDevThreshold,
+        params.boneLenThreshold,
+        params.bonePruningThreshold
+    ) as SkelData;
+
+    onProgress?.('skin weights');
+    const skinWeights = computeSkinWeights(mesh, skel, SKIN_SOLVERS[params.skinSolver]);
+
+    return { mesh, skel, skinWeights, skinIndices: null };
+}
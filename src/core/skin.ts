@@ -1,13 +1,10 @@
-import { MeshData } from '@/interface';
+import { Vec3, MeshData } from '@/interface';
 import { SkelData } from '@/interface';
 import { buildLaplacianGeometry } from '@/utils/solver';
+import { BVH } from '@/utils/bvh';
+import { DenseMatrix, SparseMatrix, Triplet } from '@/utils/sparse';
 
-import * as LinearAlgebra from '@/lib/linalg/linear-algebra.js';
-const DenseMatrix = LinearAlgebra.DenseMatrix;
-const SparseMatrix = LinearAlgebra.SparseMatrix;
-const Triplet = LinearAlgebra.Triplet;
-
-export function computeSkinWeightsGlobal(mesh: MeshData, skel: SkelData): number[][] {
+export function computeSkinWeightsGlobal(mesh: MeshData, skel: SkelData, onProgress?: (ratio: number) => void): number[][] {
     let nV = mesh[0].length;
     let lap = buildLaplacianGeometry(mesh);
 
@@ -49,6 +46,172 @@ export function computeSkinWeightsGlobal(mesh: MeshData, skel: SkelData): number
         let w = F.solvePositiveDefinite(b);
         for (let i = 0; i < nV; i++)
             skin_weights[i][idx] = w.get(i);
+
+        onProgress?.((idx + 1) / skel[1].length);
     });
     return skin_weights;
-}
\ No newline at end of file
+}
+export type SkinSolver = 'closest' | 'heat' | 'bbw';
+export const SKIN_SOLVERS: SkinSolver[] = ['closest', 'heat', 'bbw'];
+
+/**
+ * Compute per-bone skin weights with the chosen solver.
+ * - closest: harmonic weights constrained by the Euclidean-closest bone
+ * - heat: bone heat, vertices only attach to bones visible through the interior
+ * - bbw: bounded biharmonic weights with the same attachments, kept in [0, 1]
+ * @returns per-vertex weights, one entry per bone
+ */
+export function computeSkinWeights(mesh: MeshData, skel: SkelData, solver: SkinSolver = 'closest', onProgress?: (ratio: number) => void): number[][] {
+    switch (solver) {
+        case 'heat':    return computeSkinWeightsHeat(mesh, skel, onProgress);
+        case 'bbw':     return computeSkinWeightsBBW(mesh, skel, onProgress);
+        default:        return computeSkinWeightsGlobal(mesh, skel, onProgress);
+    }
+}
+
+/**
+ * Heat attachments of the vertices (Baran & Popović 2007): every vertex is
+ * attached to its closest bone among those visible from it through the mesh
+ * interior, with ties shared. Vertices that see no bone fall back to the
+ * closest bone so that every part of the mesh stays constrained.
+ * @returns the distance to the attached bones and the attached bone indices, per vertex
+ */
+function computeAttachments(mesh: MeshData, skel: SkelData): [number[], number[][]] {
+    const [V, F] = mesh;
+    const [J, B] = skel;
+    const bvh = new BVH(mesh);
+    const incident: Set<number>[] = V.map(() => new Set());
+    F.forEach((f, t) => f.forEach(i => incident[i].add(t)));
+
+    const dist: number[] = new Array(V.length);
+    const bones: number[][] = new Array(V.length);
+
+    V.forEach((v, i) => {
+        const candidates = B.map(([i0, i1], k) => {
+            const v0 = J[i0], bone = J[i1].minus(v0);
+            const len2 = bone.norm2();
+            const t = len2 < 1e-12 ? 0 : Math.max(0, Math.min(1, v.minus(v0).dot(bone) / len2));
+            const q = v0.plus(bone.times(t));
+            return { k, q, d: v.minus(q).norm() };
+        }).sort((a, b) => a.d - b.d);
+
+        const visible = (c: typeof candidates[number]) => !bvh.intersectsSegment(v, c.q, incident[i]);
+        const first = candidates.find(visible) ?? candidates[0];
+
+        dist[i] = Math.max(first.d, 1e-6);
+        bones[i] = candidates.filter(c => c === first || (c.d <= first.d * 1.0001 && visible(c))).map(c => c.k);
+    });
+    return [dist, bones];
+}
+
+/**
+ * Lumped (barycentric) vertex areas.
+ */
+function vertexAreas(mesh: MeshData): number[] {
+    const [V, F] = mesh;
+    const area = new Array(V.length).fill(0);
+    for (const [a, b, c] of F) {
+        const A = V[b].minus(V[a]).cross(V[c].minus(V[a])).norm() / 6;
+        area[a] += A;
+        area[b] += A;
+        area[c] += A;
+    }
+    const mean = area.reduce((s, x) => s + x, 0) / Math.max(1, V.length);
+    return area.map(x => Math.max(x, mean * 1e-6, 1e-12));
+}
+
+/**
+ * Bone heat skin weights: solves (L + M H) w_j = M H p_j per bone, where L is
+ * the cotangent Laplacian, M the vertex areas, H = 1 / d^2 the heat of each
+ * vertex towards its attached bone and p_j selects the vertices attached to j.
+ * Unlike {@link computeSkinWeightsGlobal}, weights never jump between limbs
+ * that touch in space but not through the interior.
+ */
+export function computeSkinWeightsHeat(mesh: MeshData, skel: SkelData, onProgress?: (ratio: number) => void): number[][] {
+    const nV = mesh[0].length;
+    const nB = skel[1].length;
+    const lap = buildLaplacianGeometry(mesh);
+    const area = vertexAreas(mesh);
+    const [dist, attached] = computeAttachments(mesh, skel);
+    const heat = dist.map((d, i) => area[i] / d ** 2);
+
+    const T = new Triplet(nV, nV);
+    for (const [w, i, j] of lap) T.addEntry(w, i, j);
+    for (let i = 0; i < nV; i++) T.addEntry(heat[i], i, i);
+    const F = SparseMatrix.fromTriplet(T).chol();
+
+    const skin_weights = new Array(nV).fill(0).map(() => new Array(nB).fill(0));
+    const b = DenseMatrix.zeros(nV, 1);
+
+    for (let idx = 0; idx < nB; idx++) {
+        for (let i = 0; i < nV; i++)
+            b.set(attached[i].includes(idx) ? heat[i] / attached[i].length : 0, i);
+        const w = F.solvePositiveDefinite(b);
+        for (let i = 0; i < nV; i++)
+            skin_weights[i][idx] = Math.min(1, Math.max(0, w.get(i)));
+
+        onProgress?.((idx + 1) / nB);
+    }
+    return skin_weights;
+}
+
+/**
+ * Bounded biharmonic skin weights (Jacobson et al. 2011) on the surface:
+ * minimizes w^T L M^-1 L w plus the heat attachment term of
+ * {@link computeSkinWeightsHeat}, subject to 0 <= w <= 1. The bounds are
+ * enforced by an active set: out-of-range vertices are pinned to the bound
+ * they crossed and the system is solved again, until no bound is violated.
+ */
+export function computeSkinWeightsBBW(mesh: MeshData, skel: SkelData, onProgress?: (ratio: number) => void): number[][] {
+    const nV = mesh[0].length;
+    const nB = skel[1].length;
+    const area = vertexAreas(mesh);
+    const [dist, attached] = computeAttachments(mesh, skel);
+    const data = dist.map((d, i) => area[i] / d ** 4);
+
+    const TL = new Triplet(nV, nV);
+    const TM = new Triplet(nV, nV);
+    const TH = new Triplet(nV, nV);
+    for (const [w, i, j] of buildLaplacianGeometry(mesh)) TL.addEntry(w, i, j);
+    for (let i = 0; i < nV; i++) {
+        TM.addEntry(1 / area[i], i, i);
+        TH.addEntry(data[i], i, i);
+    }
+    const L = SparseMatrix.fromTriplet(TL);
+    const Q = L.timesSparse(SparseMatrix.fromTriplet(TM)).timesSparse(L).plus(SparseMatrix.fromTriplet(TH));
+    const pin = 1e6 * Math.max(...data);
+
+    const skin_weights = new Array(nV).fill(0).map(() => new Array(nB).fill(0));
+    const MAX_ACTIVE_SET_ITERATIONS = 10;
+
+    for (let idx = 0; idx < nB; idx++) {
+        const target = attached.map((bones, i) => bones.includes(idx) ? data[i] / bones.length : 0);
+        const active = new Map<number, number>();
+        let w = new Array(nV).fill(0);
+
+        for (let iter = 0; iter < MAX_ACTIVE_SET_ITERATIONS; iter++) {
+            const TP = new Triplet(nV, nV);
+            const b = DenseMatrix.zeros(nV, 1);
+            for (let i = 0; i < nV; i++) b.set(target[i], i);
+            for (const [i, bound] of active) {
+                TP.addEntry(pin, i, i);
+                b.set(b.get(i) + pin * bound, i);
+            }
+            const x = Q.plus(SparseMatrix.fromTriplet(TP)).chol().solvePositiveDefinite(b);
+            w = w.map((_, i) => x.get(i));
+
+            let violated = false;
+            w.forEach((value, i) => {
+                if (active.has(i)) return;
+                if (value < -1e-6)      active.set(i, 0), violated = true;
+                else if (value > 1 + 1e-6) active.set(i, 1), violated = true;
+            });
+            if (!violated) break;
+        }
+        for (let i = 0; i < nV; i++)
+            skin_weights[i][idx] = Math.min(1, Math.max(0, w[i]));
+
+        onProgress?.((idx + 1) / nB);
+    }
+    return skin_weights;
+}
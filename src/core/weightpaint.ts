@@ -0,0 +1,160 @@
+/**
+ * Weight paint operator: edit the per-bone skin weights of a mesh with brushes.
+ *
+ * Weights are kept dense (one value per vertex and bone segment) while painting
+ * and converted back to the sparse skinWeights / skinIndices layout of
+ * setSkinWeights when done.
+ */
+
+import { Vec3, MeshData } from '@/interface';
+
+export type BrushMode = 'add' | 'subtract' | 'smooth' | 'normalize';
+export const BRUSH_MODES: BrushMode[] = ['add', 'subtract', 'smooth', 'normalize'];
+
+export interface Brush {
+    mode: BrushMode;
+    /** World-space radius of the brush. */
+    radius: number;
+    /** Change applied at the brush center by one dab, in [0, 1]. */
+    strength: number;
+    /** Soft part of the brush as a fraction of its radius: 0 is a hard disc, 1 fades out from the center. */
+    falloff: number;
+}
+
+/** Weights below this are dropped when converting back to sparse weights. */
+const EPSILON = 1e-4;
+
+/**
+ * Influence of a brush at distance d from its center, in [0, 1].
+ * Constant inside the hard core, then a smoothstep down to 0 at the radius.
+ */
+export function brushInfluence(d: number, radius: number, falloff: number): number {
+    if (d >= radius)
+        return 0;
+    const core = radius * (1 - Math.max(0, Math.min(1, falloff)));
+    if (d <= core)
+        return 1;
+    const t = (radius - d) / (radius - core);
+    return t * t * (3 - 2 * t);
+}
+
+/**
+ * Heat-map color of a weight: blue (0) through cyan, green and yellow to red (1).
+ * @returns [r, g, b] in [0, 1]
+ */
+export function weightColor(w: number): [number, number, number] {
+    const t = Math.max(0, Math.min(1, w)) * 4;
+    if (t < 1) return [0, t, 1];
+    if (t < 2) return [0, 1, 2 - t];
+    if (t < 3) return [t - 2, 1, 0];
+    return [1, 4 - t, 0];
+}
+
+export class WeightPaint {
+    private vertices: Vec3[];
+    private neighbors: number[][];
+    private weights: number[][];
+
+    /**
+     * @param mesh - mesh in the frame the brush positions are given in
+     * @param boneCount - number of bone segments
+     * @param skinWeights - per-vertex weights, as stored by setSkinWeights
+     * @param skinIndices - bone segment of every weight, or null when weights are listed per bone
+     */
+    constructor(mesh: MeshData, boneCount: number, skinWeights: number[][], skinIndices: number[][] | null) {
+        const [V, F] = mesh;
+        this.vertices = V;
+        this.weights = V.map((_, i) => {
+            const dense = new Array(boneCount).fill(0);
+            (skinWeights[i] ?? []).forEach((w, k) => {
+                const bone = skinIndices ? skinIndices[i][k] : k;
+                if (bone < boneCount) dense[bone] += w;
+            });
+            return dense;
+        });
+        const adjacency = V.map(() => new Set<number>());
+        F.forEach(f => f.forEach((a, k) => {
+            const b = f[(k + 1) % f.length];
+            adjacency[a].add(b);
+            adjacency[b].add(a);
+        }));
+        this.neighbors = adjacency.map(set => [...set]);
+    }
+
+    get boneCount(): number {
+        return this.weights[0]?.length ?? 0;
+    }
+
+    /**
+     * Weight of every vertex for one bone segment.
+     */
+    boneWeights(bone: number): number[] {
+        return this.weights.map(w => w[bone] ?? 0);
+    }
+
+    /**
+     * Apply one dab of the brush centered at `center`.
+     * add / subtract / smooth act on the weights of `bone`; normalize rescales
+     * the weights of all bones towards a sum of 1.
+     * @returns indices of the vertices under the brush
+     */
+    stroke(center: Vec3, bone: number, brush: Brush): number[] {
+        const touched: number[] = [];
+        const influence: number[] = [];
+        this.vertices.forEach((v, i) => {
+            const f = brushInfluence(v.minus(center).norm(), brush.radius, brush.falloff);
+            if (f > 0) {
+                touched.push(i);
+                influence.push(f * Math.max(0, Math.min(1, brush.strength)));
+            }
+        });
+
+        switch (brush.mode) {
+            case 'add':
+            case 'subtract': {
+                const sign = brush.mode === 'add' ? 1 : -1;
+                touched.forEach((i, k) => {
+                    this.weights[i][bone] = Math.max(0, Math.min(1, this.weights[i][bone] + sign * influence[k]));
+                });
+                break;
+            }
+            case 'smooth': {
+                // Jacobi step: read the neighbours before writing any vertex
+                const averages = touched.map(i => {
+                    const ring = this.neighbors[i];
+                    if (ring.length === 0) return this.weights[i][bone];
+                    return ring.reduce((acc, j) => acc + this.weights[j][bone], 0) / ring.length;
+                });
+                touched.forEach((i, k) => {
+                    this.weights[i][bone] += influence[k] * (averages[k] - this.weights[i][bone]);
+                });
+                break;
+            }
+            case 'normalize': {
+                touched.forEach((i, k) => {
+                    const w = this.weights[i];
+                    const sum = w.reduce((a, b) => a + b, 0);
+                    if (sum <= 0) return;
+                    for (let j = 0; j < w.length; j++)
+                        w[j] += influence[k] * (w[j] / sum - w[j]);
+                });
+                break;
+            }
+        }
+        return touched;
+    }
+
+    /**
+     * Sparse per-vertex weights in the layout of setSkinWeights, without near-zero entries.
+     */
+    getSkinWeights(): { skinWeights: number[][], skinIndices: number[][] } {
+        const skinWeights: number[][] = [];
+        const skinIndices: number[][] = [];
+        this.weights.forEach(w => {
+            const indices = w.map((_, j) => j).filter(j => w[j] > EPSILON);
+            skinIndices.push(indices);
+            skinWeights.push(indices.map(j => w[j]));
+        });
+        return { skinWeights, skinIndices };
+    }
+}
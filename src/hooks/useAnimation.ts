@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import * as THREE from 'three';
+import { SceneHooks } from '@/hooks/useScene';
+import { traceMesh } from '@/utils/threeSkel';
+import { deepCopy } from '@/utils/misc';
+import {
+    AnimationData,
+    DEFAULT_DURATION,
+    INTERPOLATIONS,
+    buildClip,
+    capturePose,
+    clipDuration,
+    createAnimation,
+    getAnimations,
+    keyframeAt,
+    removeKeyframe as withoutKeyframe,
+    setKeyframe,
+} from '@/utils/animation';
+
+export type AnimationListener = (label: string, mesh: THREE.SkinnedMesh, before: AnimationData[], after: AnimationData[]) => void;
+
+/**
+ * Return type of useAnimation.
+ *
+ * - **mesh** – Mesh being animated: the last selected skinned mesh (or mesh of the last selected bone).
+ * - **animation** – Its animation, null until the first keyframe is set.
+ * - **duration** – Length of the clip in seconds.
+ * - **time** / **setTime** – Playhead in seconds. Setting it poses the mesh (scrubbing).
+ * - **playing** / **setPlaying** – Playback from the playhead.
+ * - **loop** / **setLoop** – Restart at the end of the clip instead of stopping.
+ * - **hasKeyframe** – Whether a keyframe sits at the playhead.
+ * - **addKeyframe** / **removeKeyframe** – Key the current pose at the playhead, or delete the key there.
+ * - **setInterpolation** – Index into INTERPOLATIONS.
+ * - **setDuration** – Length of the clip in seconds.
+ */
+export interface AnimationHooks {
+    mesh: THREE.SkinnedMesh | null;
+    animation: AnimationData | null;
+    duration: number;
+    time: number;
+    setTime: (time: number) => void;
+    playing: boolean;
+    setPlaying: (playing: boolean) => void;
+    loop: boolean;
+    setLoop: (loop: boolean) => void;
+    hasKeyframe: boolean;
+    addKeyframe: () => void;
+    removeKeyframe: () => void;
+    setInterpolation: (interpolation: number) => void;
+    setDuration: (duration: number) => void;
+}
+
+/**
+ * Keyframe animation of the skinned meshes of a scene, played back with an
+ * AnimationMixer. Only the first animation of a mesh is edited. The edited
+ * mesh is remembered by uid, so it survives being rebuilt by undo.
+ *
+ * @param sceneApi - Scene holding the meshes
+ * @param onEdit - Called after each edit with the animations of the mesh before and after it
+ */
+export function useAnimation(sceneApi: SceneHooks | null, onEdit?: AnimationListener): AnimationHooks {
+    const [uid, setUid] = useState<number | null>(null);
+    const [, setRevision] = useState(0);
+    const [time, setTimeState] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [loop, setLoop] = useState(true);
+
+    const mixerRef = useRef<{ mixer: THREE.AnimationMixer, action: THREE.AnimationAction } | null>(null);
+    const timeRef = useRef(0);
+    const onEditRef = useRef(onEdit);
+    onEditRef.current = onEdit;
+
+    // follow the selection and the edits of animations (including undo)
+    useEffect(() => {
+        if (!sceneApi) return;
+        const update = () => {
+            const selected = traceMesh(sceneApi.getSelected());
+            if (selected) setUid(selected.userData.uid);
+            setRevision(r => r + 1);
+        };
+        update();
+        return sceneApi.subscribe(update);
+    }, [sceneApi]);
+
+    const mesh = sceneApi?.getObjects().find(m => m.userData.uid === uid) ?? null;
+    const animation = mesh ? getAnimations(mesh)[0] ?? null : null;
+    const duration = animation ? clipDuration(animation) : DEFAULT_DURATION;
+
+    const evaluate = useCallback((t: number) => {
+        const current = mixerRef.current;
+        if (!current) return;
+        current.action.paused = false;
+        current.action.enabled = true;
+        current.mixer.setTime(t);
+    }, []);
+
+    // Rebuild the clip whenever the animation changes. The previous mixer is
+    // dropped rather than stopped, since stopping restores the bones to the
+    // pose they had before playback.
+    useEffect(() => {
+        mixerRef.current = null;
+        if (!mesh || !animation || animation.keyframes.length === 0) {
+            setPlaying(false);
+            return;
+        }
+        const mixer = new THREE.AnimationMixer(mesh);
+        const action = mixer.clipAction(buildClip(animation, mesh.skeleton.bones));
+        action.setLoop(THREE.LoopOnce, 1);
+        action.clampWhenFinished = true;
+        action.play();
+        mixerRef.current = { mixer, action };
+        evaluate(timeRef.current);
+    }, [mesh, animation, evaluate]);
+
+    const setTime = useCallback((t: number) => {
+        timeRef.current = t;
+        setTimeState(t);
+        evaluate(t);
+    }, [evaluate]);
+
+    useEffect(() => {
+        if (!playing || !mixerRef.current) return;
+
+        let frame = 0;
+        let last = performance.now();
+        if (timeRef.current >= duration) setTime(0);
+        const tick = (now: number) => {
+            let t = timeRef.current + (now - last) / 1000;
+            last = now;
+            if (t >= duration) {
+                if (!loop) {
+                    setTime(duration);
+                    setPlaying(false);
+                    return;
+                }
+                t %= duration;
+            }
+            setTime(t);
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [playing, loop, duration, setTime]);
+
+    const edit = useCallback((label: string, update: (animation: AnimationData) => AnimationData) => {
+        if (!mesh) return;
+        const before: AnimationData[] = deepCopy(getAnimations(mesh));
+        const after = [update(before[0] ?? createAnimation()), ...before.slice(1)];
+        mesh.userData.animations = deepCopy(after);
+        onEditRef.current?.(label, mesh, before, after);
+        sceneApi?.notify();
+    }, [mesh, sceneApi]);
+
+    const addKeyframe = useCallback(() => {
+        if (!mesh) return;
+        mesh.updateMatrixWorld(true);
+        edit('Set keyframe', a => setKeyframe(a, timeRef.current, capturePose(mesh)));
+    }, [mesh, edit]);
+
+    const removeKeyframe = useCallback(() => {
+        edit('Delete keyframe', a => withoutKeyframe(a, timeRef.current));
+    }, [edit]);
+
+    const setInterpolation = useCallback((interpolation: number) => {
+        edit('Interpolation', a => ({ ...a, interpolation: INTERPOLATIONS[interpolation] }));
+    }, [edit]);
+
+    const setDuration = useCallback((value: number) => {
+        if (!(value > 0)) return;
+        edit('Clip length', a => ({ ...a, duration: value }));
+        if (timeRef.current > value) setTime(value);
+    }, [edit, setTime]);
+
+    return {
+        mesh,
+        animation,
+        duration,
+        time,
+        setTime,
+        playing,
+        setPlaying,
+        loop,
+        setLoop,
+        hasKeyframe: animation ? keyframeAt(animation, time) !== null : false,
+        addKeyframe,
+        removeKeyframe,
+        setInterpolation,
+        setDuration,
+    };
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, RefObject } from 'react';
+import * as THREE from 'three';
+import { SceneHooks } from '@/hooks/useScene';
+import { CommandHistory, DEFAULT_HISTORY_DEPTH } from '@/utils/history';
+import { MeshSnapshot, snapshotSkinnedMesh, restoreSkinnedMesh } from '@/utils/threeMesh';
+import { traceMesh } from '@/utils/threeSkel';
+import { AnimationData } from '@/utils/animation';
+import { deepCopy } from '@/utils/misc';
+
+export interface HistoryOptions {
+    depth?: number;
+    enabled?: boolean;
+}
+
+/**
+ * Return type of useHistory.
+ *
+ * - **execute** – Remove and insert scene meshes as one undoable operation.
+ * - **recordPose** – Record a change of several bones of a mesh (local matrices of all its bones) made outside of a transform drag.
+ * - **recordAnimations** – Record an edit of the keyframe animations of a mesh.
+ * - **undo** / **redo** – Walk the history (also bound to Ctrl+Z / Ctrl+Shift+Z and Ctrl+Y).
+ * - **undoLabel** / **redoLabel** – Label of the operation that undo / redo would apply, or null.
+ */
+export interface HistoryHooks {
+    execute: (label: string, removed: THREE.SkinnedMesh[], inserted: THREE.SkinnedMesh[]) => void;
+    recordPose: (label: string, mesh: THREE.SkinnedMesh, before: THREE.Matrix4[], after: THREE.Matrix4[]) => void;
+    recordAnimations: (label: string, mesh: THREE.SkinnedMesh, before: AnimationData[], after: AnimationData[]) => void;
+    undo: () => void;
+    redo: () => void;
+    clear: () => void;
+    undoLabel: string | null;
+    redoLabel: string | null;
+}
+
+/**
+ * Undo / redo for the operations of the main scene.
+ * Scene edits go through execute(), which records snapshots of the removed and
+ * inserted meshes; transform drags (of meshes or bones) are recorded as local
+ * matrices. Meshes are found again through their `userData.uid`, so commands
+ * stay valid when a mesh is rebuilt by an undo.
+ *
+ * @param sceneApiRef - Ref to the main scene API
+ * @param isSceneReady - Whether sceneApiRef is set
+ * @param options - history depth, and whether shortcuts are active (disable while a modal flow runs)
+ */
+export function useHistory(
+    sceneApiRef: RefObject<SceneHooks | null>,
+    isSceneReady: boolean,
+    { depth = DEFAULT_HISTORY_DEPTH, enabled = true }: HistoryOptions = {}
+): HistoryHooks {
+    const historyRef = useRef<CommandHistory | null>(null);
+    if (!historyRef.current)
+        historyRef.current = new CommandHistory(depth);
+
+    const [labels, setLabels] = useState<[string | null, string | null]>([null, null]);
+
+    useEffect(() => {
+        const history = historyRef.current;
+        return history.subscribe(() => setLabels([history.undoLabel, history.redoLabel]));
+    }, []);
+
+    useEffect(() => {
+        historyRef.current.setDepth(depth);
+    }, [depth]);
+
+    const findMesh = useCallback((uid: number): THREE.SkinnedMesh | null => {
+        const scene = sceneApiRef.current?.getScene();
+        const mesh = scene?.children.find(child => child instanceof THREE.SkinnedMesh && child.userData.uid === uid);
+        return (mesh as THREE.SkinnedMesh) ?? null;
+    }, [sceneApiRef]);
+
+    const removeSnapshots = useCallback((snapshots: MeshSnapshot[]) => {
+        snapshots.forEach(({ uid }) => {
+            const mesh = findMesh(uid);
+            if (mesh) sceneApiRef.current?.removeObject(mesh);
+        });
+    }, [sceneApiRef, findMesh]);
+
+    const insertSnapshots = useCallback((snapshots: MeshSnapshot[]) => {
+        snapshots.forEach(snapshot => sceneApiRef.current?.insertObject(restoreSkinnedMesh(snapshot)));
+    }, [sceneApiRef]);
+
+    const execute = useCallback((label: string, removed: THREE.SkinnedMesh[], inserted: THREE.SkinnedMesh[]) => {
+        const api = sceneApiRef.current;
+        if (!api) return;
+
+        const before = removed.map(snapshotSkinnedMesh);
+        removed.forEach(mesh => api.removeObject(mesh));
+        inserted.forEach(mesh => api.insertObject(mesh));
+        const after = inserted.map(snapshotSkinnedMesh);
+
+        historyRef.current.push({
+            label,
+            undo: () => {
+                removeSnapshots(after);
+                insertSnapshots(before);
+            },
+            redo: () => {
+                removeSnapshots(before);
+                insertSnapshots(after);
+            },
+        });
+    }, [sceneApiRef, removeSnapshots, insertSnapshots]);
+
+    const recordPose = useCallback((label: string, mesh: THREE.SkinnedMesh, before: THREE.Matrix4[], after: THREE.Matrix4[]) => {
+        const uid = mesh.userData.uid;
+        const apply = (pose: THREE.Matrix4[]) => {
+            const target = findMesh(uid);
+            if (!target) return;
+            target.skeleton.bones.forEach((bone: THREE.Bone, i: number) => {
+                if (pose[i]) pose[i].decompose(bone.position, bone.quaternion, bone.scale);
+            });
+            target.updateMatrixWorld(true);
+        };
+        historyRef.current.push({
+            label,
+            undo: () => apply(before),
+            redo: () => apply(after),
+        });
+    }, [findMesh]);
+
+    const recordAnimations = useCallback((label: string, mesh: THREE.SkinnedMesh, before: AnimationData[], after: AnimationData[]) => {
+        const uid = mesh.userData.uid;
+        const apply = (animations: AnimationData[]) => {
+            const target = findMesh(uid);
+            if (!target) return;
+            target.userData.animations = deepCopy(animations);
+            sceneApiRef.current?.notify();
+        };
+        historyRef.current.push({
+            label,
+            undo: () => apply(before),
+            redo: () => apply(after),
+        });
+    }, [sceneApiRef, findMesh]);
+
+    const undo = useCallback(() => {
+        historyRef.current.undo();
+    }, []);
+    const redo = useCallback(() => {
+        historyRef.current.redo();
+    }, []);
+    const clear = useCallback(() => {
+        historyRef.current.clear();
+    }, []);
+
+    // Record transform drags of meshes and bones
+    useEffect(() => {
+        const api = sceneApiRef.current;
+        if (!isSceneReady || !api) return;
+
+        return api.addTransformListener((obj, before, after) => {
+            const mesh = traceMesh(obj instanceof THREE.SkinnedMesh || obj instanceof THREE.Bone ? obj : null);
+            if (!mesh) return;
+
+            const uid = mesh.userData.uid;
+            const bone = obj instanceof THREE.Bone ? mesh.skeleton.bones.indexOf(obj) : -1;
+            const apply = (matrix: THREE.Matrix4) => {
+                const target = findMesh(uid);
+                const object = target && bone >= 0 ? target.skeleton.bones[bone] : target;
+                if (!object) return;
+                matrix.decompose(object.position, object.quaternion, object.scale);
+                object.updateMatrixWorld(true);
+            };
+            historyRef.current.push({
+                label: bone >= 0 ? 'Pose' : 'Transform',
+                undo: () => apply(before),
+                redo: () => apply(after),
+            });
+        });
+    }, [sceneApiRef, isSceneReady, findMesh]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+            const target = event.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)))
+                return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                historyRef.current.undo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                historyRef.current.redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [enabled]);
+
+    return {
+        execute,
+        recordPose,
+        recordAnimations,
+        undo,
+        redo,
+        clear,
+        undoLabel: labels[0],
+        redoLabel: labels[1],
+    };
+}
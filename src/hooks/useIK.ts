@@ -0,0 +1,234 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import * as THREE from 'three';
+import { SceneHooks } from '@/hooks/useScene';
+import { IK_SOLVERS, ikChain, solveIK } from '@/core/ik';
+import { traceMesh } from '@/utils/threeSkel';
+
+const COLORS = {
+    JOINT: 0x00ff00,
+    PINNED: 0xff3333,
+    TARGET: 0xffaa00,
+};
+
+interface JointConstraint {
+    pinned: boolean;
+    /** Largest rotation away from the bind pose in radians, null for a free joint. */
+    limit: number | null;
+}
+
+export type PoseListener = (mesh: THREE.SkinnedMesh, before: THREE.Matrix4[], after: THREE.Matrix4[]) => void;
+
+/**
+ * Return type of useIK.
+ *
+ * - **enabled** / **setEnabled** – IK posing mode. While on, dragging a joint poses its chain instead of moving the bone alone.
+ * - **solver** / **setSolver** – Index into IK_SOLVERS.
+ * - **chainLength** / **setChainLength** – Bones above the dragged joint that may rotate, 0 for all of them.
+ * - **active** – Last joint clicked in IK mode, whose constraints the setters below edit.
+ * - **pinned** / **togglePinned** – Whether the active joint keeps its place (also Shift+click on a joint).
+ * - **limit** / **setLimit** – Angle limit of the active joint in radians, null when free.
+ */
+export interface IKHooks {
+    enabled: boolean;
+    setEnabled: (enabled: boolean) => void;
+    solver: number;
+    setSolver: (solver: number) => void;
+    chainLength: number;
+    setChainLength: (length: number) => void;
+    active: THREE.Bone | null;
+    pinned: boolean;
+    togglePinned: () => void;
+    limit: number | null;
+    setLimit: (limit: number | null) => void;
+}
+
+const poseOf = (mesh: THREE.SkinnedMesh): THREE.Matrix4[] =>
+    mesh.skeleton.bones.map((bone: THREE.Bone) => bone.matrix.clone());
+
+/**
+ * IK posing of the skinned meshes of a scene.
+ * Joint constraints are keyed by mesh uid and bone index, so they survive
+ * meshes being rebuilt by undo. The skeleton helpers read the bones every
+ * frame, so they follow the pose while dragging.
+ *
+ * @param sceneApi - Scene to pose meshes in
+ * @param onPose - Called after each IK drag with the local matrices of all bones of the posed mesh
+ */
+export function useIK(sceneApi: SceneHooks | null, onPose?: PoseListener): IKHooks {
+    const [enabled, setEnabled] = useState(false);
+    const [solver, setSolver] = useState(0);
+    const [chainLength, setChainLength] = useState(0);
+    const [active, setActive] = useState<THREE.Bone | null>(null);
+    const [constraints, setConstraints] = useState<Map<string, JointConstraint>>(new Map());
+
+    const settingsRef = useRef({ solver, chainLength, constraints, onPose });
+    settingsRef.current = { solver, chainLength, constraints, onPose };
+
+    const keyOf = useCallback((bone: THREE.Bone): string | null => {
+        const mesh = traceMesh(bone);
+        if (!mesh) return null;
+        return `${mesh.userData.uid}:${mesh.skeleton.bones.indexOf(bone)}`;
+    }, []);
+
+    const updateConstraint = useCallback((bone: THREE.Bone | null, update: (c: JointConstraint) => JointConstraint) => {
+        const key = bone && keyOf(bone);
+        if (!key) return;
+        setConstraints((prev) => {
+            const next = new Map(prev);
+            next.set(key, update(prev.get(key) ?? { pinned: false, limit: null }));
+            return next;
+        });
+    }, [keyOf]);
+
+    const togglePinned = useCallback(() => {
+        updateConstraint(active, (c) => ({ ...c, pinned: !c.pinned }));
+    }, [active, updateConstraint]);
+
+    const setLimit = useCallback((limit: number | null) => {
+        updateConstraint(active, (c) => ({ ...c, limit }));
+    }, [active, updateConstraint]);
+
+    // Color pinned joints while the mode is on, and again whenever meshes are rebuilt
+    useEffect(() => {
+        if (!sceneApi) return;
+
+        const paint = () => sceneApi.getObjects().forEach((mesh) => {
+            sceneApi.getHelper(mesh)?.children.forEach((child) => {
+                if (!child?.isHelperJoint) return;
+                const key = `${mesh.userData.uid}:${mesh.skeleton.bones.indexOf(child.joint)}`;
+                child.material.color.set(enabled && constraints.get(key)?.pinned ? COLORS.PINNED : COLORS.JOINT);
+            });
+        });
+        paint();
+        return sceneApi.subscribe(paint);
+    }, [sceneApi, enabled, constraints]);
+
+    useEffect(() => {
+        const canvas = sceneApi?.getCanvas();
+        const container = canvas?.parentElement;
+        if (!enabled || !sceneApi || !canvas || !container) return;
+
+        const target = new THREE.Mesh(
+            new THREE.SphereGeometry(3, 12, 8),
+            new THREE.MeshBasicMaterial({ color: COLORS.TARGET, transparent: true, depthTest: false, depthWrite: false })
+        );
+        target.renderOrder = 1002;
+        target.visible = false;
+        sceneApi.insertObject(target);
+
+        let drag: {
+            mesh: THREE.SkinnedMesh;
+            chain: THREE.Bone[];
+            plane: THREE.Plane;
+            before: THREE.Matrix4[];
+            pinned: Set<THREE.Bone>;
+            limits: Map<THREE.Bone, number>;
+        } | null = null;
+
+        const pointOnPlane = (event: PointerEvent, plane: THREE.Plane): THREE.Vector3 | null => {
+            const camera = sceneApi.getCamera();
+            if (!camera) return null;
+            const rect = canvas.getBoundingClientRect();
+            const ndc = new THREE.Vector2(
+                ((event.clientX - rect.left) / rect.width) * 2 - 1,
+                -((event.clientY - rect.top) / rect.height) * 2 + 1
+            );
+            const raycaster = new THREE.Raycaster();
+            raycaster.setFromCamera(ndc, camera);
+            return raycaster.ray.intersectPlane(plane, new THREE.Vector3());
+        };
+
+        // Capture phase and preventDefault: keep the camera, the transform
+        // controls and the click selection away from joint drags
+        const handlePointerDown = (event: PointerEvent) => {
+            if (event.button !== 0) return;
+            const bone = sceneApi.raycast(event.clientX, event.clientY);
+            if (!(bone instanceof THREE.Bone)) return;
+            const mesh = traceMesh(bone);
+            if (!mesh) return;
+
+            event.preventDefault();
+            event.stopPropagation();
+            sceneApi.detach();
+            setActive(bone);
+            if (event.shiftKey) {
+                updateConstraint(bone, (c) => ({ ...c, pinned: !c.pinned }));
+                return;
+            }
+            const { chainLength, constraints } = settingsRef.current;
+            const pinned = new Set<THREE.Bone>();
+            const limits = new Map<THREE.Bone, number>();
+            mesh.skeleton.bones.forEach((b: THREE.Bone, i: number) => {
+                const c = constraints.get(`${mesh.userData.uid}:${i}`);
+                if (c?.pinned) pinned.add(b);
+                if (c?.limit !== null && c?.limit !== undefined) limits.set(b, c.limit);
+            });
+
+            const camera = sceneApi.getCamera();
+            const start = bone.getWorldPosition(new THREE.Vector3());
+            const normal = camera ? camera.getWorldDirection(new THREE.Vector3()) : new THREE.Vector3(0, 0, 1);
+            drag = {
+                mesh,
+                chain: ikChain(bone, chainLength > 0 ? chainLength : Infinity),
+                plane: new THREE.Plane().setFromNormalAndCoplanarPoint(normal, start),
+                before: poseOf(mesh),
+                pinned,
+                limits,
+            };
+            target.position.copy(start);
+            target.visible = true;
+        };
+        const handlePointerMove = (event: PointerEvent) => {
+            if (!drag) return;
+            const point = pointOnPlane(event, drag.plane);
+            if (!point) return;
+
+            target.position.copy(point);
+            solveIK(drag.chain, point, {
+                solver: IK_SOLVERS[settingsRef.current.solver],
+                pinned: drag.pinned,
+                limits: drag.limits,
+            });
+        };
+        const handlePointerUp = () => {
+            if (!drag) return;
+            const { mesh, before } = drag;
+            drag = null;
+            target.visible = false;
+
+            const after = poseOf(mesh);
+            if (after.some((m, i) => !m.equals(before[i])))
+                settingsRef.current.onPose?.(mesh, before, after);
+        };
+
+        container.addEventListener('pointerdown', handlePointerDown, true);
+        window.addEventListener('pointermove', handlePointerMove);
+        window.addEventListener('pointerup', handlePointerUp);
+        return () => {
+            container.removeEventListener('pointerdown', handlePointerDown, true);
+            window.removeEventListener('pointermove', handlePointerMove);
+            window.removeEventListener('pointerup', handlePointerUp);
+            sceneApi.removeObject(target);
+            target.geometry.dispose();
+            (target.material as THREE.Material).dispose();
+        };
+    }, [sceneApi, enabled, updateConstraint]);
+
+    const constraint = active ? constraints.get(keyOf(active) ?? '') : undefined;
+
+    return {
+        enabled,
+        setEnabled,
+        solver,
+        setSolver,
+        chainLength,
+        setChainLength,
+        active,
+        pinned: constraint?.pinned ?? false,
+        togglePinned,
+        limit: constraint?.limit ?? null,
+        setLimit,
+    };
+}
@@ -2,8 +2,9 @@
 
 import { useState, useCallback, useRef, useEffect, RefObject } from 'react';
 import * as THREE from 'three';
-import { MeshCut } from '@/core/meshcut';
-import { Vec3, Plane } from '@/interface';
+import { MeshCut, Cut } from '@/core/meshcut';
+import { SKIN_SOLVERS } from '@/core/skin';
+import { repairSkinnedMesh } from '@/utils/threeMesh';
 
 export interface MeshCutState {
     currentStep: number;
@@ -12,6 +13,8 @@ export interface MeshCutState {
 export interface MeshCutParams {
     smoothLayers: number;
     smoothFactor: number;
+    /** 0 keeps the inherited weights, otherwise 1 + index into SKIN_SOLVERS. */
+    skinSolver: number;
 }
 
 export function useMeshCut(onCutComplete?: (meshes: THREE.SkinnedMesh[]) => void) {
@@ -22,6 +25,7 @@ export function useMeshCut(onCutComplete?: (meshes: THREE.SkinnedMesh[]) => void
 
     const [smoothLayers, setSmoothLayers] = useState<number>(0);
     const [smoothFactor, setSmoothFactor] = useState<number>(0.1);
+    const [skinSolver, setSkinSolver] = useState<number>(0);
     
     const processStep1 = useCallback(() => {
         if (!inputMesh) return;
@@ -44,18 +48,19 @@ export function useMeshCut(onCutComplete?: (meshes: THREE.SkinnedMesh[]) => void
     const processStep4 = useCallback(() => {
         if (!cutterRef.current) return;
         if (!resultRef.current) return;
-        resultRef.current.forEach(mesh => cutterRef.current.computeSkinWeights(mesh));
-    }, []);
+        const solver = skinSolver > 0 ? SKIN_SOLVERS[skinSolver - 1] : null;
+        resultRef.current.forEach(mesh => cutterRef.current.computeSkinWeights(mesh, solver));
+    }, [skinSolver]);
 
     const onMeshReady = useCallback((mesh: THREE.SkinnedMesh) => {
         setInputMesh(mesh);
         setCurrentStep(1);
     }, []);
 
-    const onCutReady = useCallback((plane: Plane) => {
+    const onCutReady = useCallback((cuts: Cut | Cut[]) => {
         if (!cutterRef.current) return;
         const cutter = cutterRef.current;
-        const meshes = cutter.runMeshSplit(plane);
+        const meshes = cutter.runMeshSplit(cuts);
         resultRef.current = meshes;
     }, []);
 
@@ -81,12 +86,12 @@ export function useMeshCut(onCutComplete?: (meshes: THREE.SkinnedMesh[]) => void
         processStep1,
         processStep2,
         processStep3, smoothLayers, smoothFactor,
-        processStep4,
+        processStep4, skinSolver,
     ]);
     useEffect(() => {
         if (currentStep > 4) {
             if (onCutComplete && resultRef.current)
-                onCutComplete(resultRef.current);
+                onCutComplete(resultRef.current.map(mesh => repairSkinnedMesh(mesh)));
             onReset();
         }
     }, [currentStep, onCutComplete, onReset]);
@@ -99,6 +104,7 @@ export function useMeshCut(onCutComplete?: (meshes: THREE.SkinnedMesh[]) => void
     const params: MeshCutParams = {
         smoothLayers,
         smoothFactor,
+        skinSolver,
     };
 
     return {
@@ -112,6 +118,7 @@ export function useMeshCut(onCutComplete?: (meshes: THREE.SkinnedMesh[]) => void
         onParamChange: {
             setSmoothLayers,
             setSmoothFactor,
+            setSkinSolver,
         },
     };
 }
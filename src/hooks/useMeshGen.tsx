@@ -1,166 +1,151 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { MeshGen } from '@/core/meshgen';
 import { Vec2, Vec3 } from '@/interface';
-import { computeSkinWeightsGlobal } from '@/core/skin';
 import { skinnedMeshFromData } from '@/utils/threeMesh';
-import * as geo3d from '@/utils/geo3d';
+import { PROFILE_TYPES } from '@/utils/profile';
+import { SKIN_SOLVERS } from '@/core/skin';
+import { MeshGenParams, DEFAULT_MESHGEN_PARAMS as DEFAULTS, normalizeSketch } from '@/core/pipeline';
+import {
+    serializeVec2s, deserializeVec2s,
+    deserializeVec3s,
+    serializeMesh, deserializeMesh,
+    serializeSkel, deserializeSkel,
+} from '@/utils/serialize';
+import { MeshGenRequestType, MeshGenRequestOf, MeshGenResults } from '@/workers/protocol';
+import { MeshGenService, MeshGenJob, CancelledError } from '@/workers/meshgenService';
+import { createMeshGenService } from '@/workers/createMeshGenService';
 import * as THREE from 'three';
-import * as metrics from '@/utils/metrics';
 
 export interface MeshGenState {
     currentStep: number;
     mesh2D: [Vec2[], number[][]] | null;
+    rings: number[][] | null;
     mesh3D: [Vec3[], number[][]] | null;
     chordData: [Vec3[], Vec3[], number[]] | null;
     capOffset: number;
     junctionOffset: number;
     skeleton: [Vec3[], [number, number][]] | null;
+    /** Progress of the job running in the worker, null when idle. */
+    progress: number | null;
 }
 
-export interface MeshGenParams {
-    isodistance: number;
-    laplacianIters: number;
-    laplacianAlpha: number;
-    smoothFactor: number;
-    isometricIterations: number;
-    isometricLength: number;
-    boneDevThreshold: number;
-    boneLenThreshold: number;
-    bonePruningThreshold: number;
-}
+export type { MeshGenParams };
 
 export function useMeshGen(onComplete?: (mesh: THREE.SkinnedMesh) => void) {
     const [latestPath, setLatestPath] = useState<Vec2[] | null>(null);
+    const [latestHoles, setLatestHoles] = useState<Vec2[][]>([]);
     const [currentStep, setCurrentStep] = useState<number>(0);
     
-    const [isodistance, setIsodistance] = useState<number>(10);
+    const [isodistance, setIsodistance] = useState<number>(DEFAULTS.isodistance);
     const [mesh2D, setMesh2D] = useState<[Vec2[], number[][]] | null>(null);
+    const [rings, setRings] = useState<number[][] | null>(null);
     const [mesh3D, setMesh3D] = useState<[Vec3[], number[][]] | null>(null);
     
-    const [laplacianIters, setLaplacianIters] = useState<number>(50);
-    const [laplacianAlpha, setLaplacianAlpha] = useState<number>(0.5);
+    const [laplacianIters, setLaplacianIters] = useState<number>(DEFAULTS.laplacianIters);
+    const [laplacianAlpha, setLaplacianAlpha] = useState<number>(DEFAULTS.laplacianAlpha);
     const [chordData, setChordData] = useState<[Vec3[], Vec3[], number[]] | null>(null);
     
     const [init3, setInit3] = useState<boolean>(false);
-    const [smoothFactor, setSmoothFactor] = useState<number>(0.1);
+    const [smoothFactor, setSmoothFactor] = useState<number>(DEFAULTS.smoothFactor);
+    const [profileType, setProfileType] = useState<number>(DEFAULTS.profileType);
+    const [profileDepth, setProfileDepth] = useState<number>(DEFAULTS.profileDepth);
+    const [profileCurve, setProfileCurve] = useState<Vec2[] | null>(DEFAULTS.profileCurve);
     const [capOffset, setCapOffset] = useState<number>(0);
     const [junctionOffset, setJunctionOffset] = useState<number>(0);
     
     const [init4, setInit4] = useState<boolean>(false);
-    const [isometricIterations, setIsometricIterations] = useState<number>(6);
-    const [isometricLength, setIsometricLength] = useState<number>(5);
-    const [V_mock3, setV_mock3] = useState<Vec3[]>([]);
-    const [F_mock3, setF_mock3] = useState<number[][]>([]);
+    const [isometricIterations, setIsometricIterations] = useState<number>(DEFAULTS.isometricIterations);
+    const [isometricLength, setIsometricLength] = useState<number>(DEFAULTS.isometricLength);
     const [V_mock4, setV_mock4] = useState<Vec3[]>([]);
     const [F_mock4, setF_mock4] = useState<number[][]>([]);
 
     const [skeleton, setSkeleton] = useState<[Vec3[], [number, number][]] | null>(null);
-    const [boneDevThreshold, setBoneDevThreshold] = useState<number>(0.1);
-    const [boneLenThreshold, setBoneLenThreshold] = useState<number>(5);
-    const [bonePruningThreshold, setBonePruningThreshold] = useState<number>(5);
+    const [boneDevThreshold, setBoneDevThreshold] = useState<number>(DEFAULTS.boneDevThreshold);
+    const [boneLenThreshold, setBoneLenThreshold] = useState<number>(DEFAULTS.boneLenThreshold);
+    const [bonePruningThreshold, setBonePruningThreshold] = useState<number>(DEFAULTS.bonePruningThreshold);
+    const [skinSolver, setSkinSolver] = useState<number>(DEFAULTS.skinSolver);
   
-    const meshGenRef = useRef<MeshGen | null>(null);
-
-    const findBoundary = (V: Vec2[], F: number[][]) => {
-        const n = V.length;
-        const adjList = new Array(n).fill(0).map(() => new Set<number>());
-
-        for (let [i0, i1, i2] of F) {
-            adjList[i0].add(i1);   adjList[i1].add(i0);
-            adjList[i0].add(i2);   adjList[i2].add(i0);
-            adjList[i1].add(i2);   adjList[i2].add(i1);
-        }
-        const boundary = [0];
-        
-        for (let i = 1; i < n; i++)
-            if (V[boundary[0]].x > V[i].x)
-                boundary[0] = i;
-        
-        let prev = new Vec2(
-            V[boundary[0]].x,
-            V[boundary[0]].y + 1
-        );
-        while (true) {
-            const currIdx = boundary[boundary.length - 1];
-            const curr = V[currIdx];
-
-            let minAngle = Infinity;
-            let minIdx = -1;
-
-            for (const i of adjList[currIdx]) {
-                const next = V[i];
-
-                const e0 = curr.minus(prev).unit();
-                const e1 = next.minus(curr).unit();
-                const sinTheta = e0.cross(e1);
-                const cosTheta = e0.dot(e1);
-                const angle = Math.atan2(sinTheta, cosTheta);
-
-                if (minAngle > angle) {
-                    minAngle = angle;
-                    minIdx = i;
-                }
+    const [progress, setProgress] = useState<number | null>(null);
+    const serviceRef = useRef<MeshGenService | null>(null);
+    const jobsRef = useRef(new Map<MeshGenRequestType, MeshGenJob<unknown>>());
+
+    const runJob = useCallback(<K extends MeshGenRequestType>(request: MeshGenRequestOf<K>): Promise<MeshGenResults[K] | null> => {
+        serviceRef.current ??= createMeshGenService();
+        jobsRef.current.get(request.type)?.cancel();
+
+        const job = serviceRef.current.request(request, setProgress);
+        jobsRef.current.set(request.type, job);
+        setProgress(0);
+
+        return job.promise.then(
+            (result) => result,
+            (error) => {
+                if (!(error instanceof CancelledError))
+                    console.error(`[useMeshGen] ${request.type} failed:`, error);
+                return null;
             }
-            if (minIdx === boundary[0])
-                break;
-            prev = curr;
-            boundary.push(minIdx);
-        }
-        return boundary.map(i => V[i]);
-    };
-
-    const processStep1 = useCallback((path: Vec2[]) => {
-        const meshGen = new MeshGen(path, isodistance);
-        meshGenRef.current = meshGen;
-        const mesh2DData = meshGen.getMesh2D() as [Vec2[], number[][]];
+        ).finally(() => {
+            if (jobsRef.current.get(request.type) !== job)
+                return;
+            jobsRef.current.delete(request.type);
+            if (jobsRef.current.size === 0)
+                setProgress(null);
+        });
+    }, []);
 
-        // console.log("[useMeshGen] Step 1: isodistance =", isodistance);
-        // console.log("[useMeshGen] IoU =", metrics.iou2DSilhouettes(mesh2DData[0], path));
-        setMesh2D(mesh2DData);
+    const processStep1 = useCallback(async (path: Vec2[], holes: Vec2[][]) => {
+        const result = await runJob({
+            type: 'init',
+            path: serializeVec2s(path),
+            holes: holes.map(serializeVec2s),
+            isodistance,
+        });
+        if (!result) return;
+
+        const [V, F] = result.mesh2D;
+        setMesh2D([deserializeVec2s(V), F]);
+        setRings(result.rings);
         setIsometricLength(Math.max(5, isodistance));
-    }, [isodistance]);
+    }, [isodistance, runJob]);
 
-    const processStep2 = useCallback(() => {
-        if (!meshGenRef.current) return;
+    const processStep2 = useCallback(async () => {
+        const result = await runJob({ type: 'chords', iterations: laplacianIters, alpha: laplacianAlpha });
+        if (!result) return;
 
-        const meshGen = meshGenRef.current;
-        meshGen.runChordSmoothing(laplacianIters, laplacianAlpha);
-        const chords = meshGen.getChords() as [Vec3[], Vec3[], number[]];
-        setChordData(chords);
+        setChordData([deserializeVec3s(result.axis), deserializeVec3s(result.dirs), result.lengths]);
         setInit3(false);
-    }, [laplacianIters, laplacianAlpha]);
-
-    const preprocessStep3 = useCallback(() => {
-        if (!meshGenRef.current) return;
-
-        const meshGen = meshGenRef.current;
-        meshGen.generatePipes();    setCapOffset(meshGen.faceCount());
-        meshGen.stitchCaps();       setJunctionOffset(meshGen.faceCount());
-        meshGen.stitchJunctions();
-
-        const mesh3DData = meshGen.getMesh3D() as [Vec3[], number[][]];
+    }, [laplacianIters, laplacianAlpha, runJob]);
+
+    const preprocessStep3 = useCallback(async () => {
+        const result = await runJob({
+            type: 'pipes',
+            profile: {
+                type: PROFILE_TYPES[profileType],
+                depth: profileDepth,
+                curve: profileCurve && serializeVec2s(profileCurve),
+            },
+        });
+        if (!result) return;
+
+        setCapOffset(result.capOffset);
+        setJunctionOffset(result.junctionOffset);
+        setMesh3D(deserializeMesh(result.mesh));
         setInit3(true);
-        setMesh3D(mesh3DData);
-        setV_mock3(mesh3DData[0].map(v => new Vec3(v.x, v.y, v.z)));
-        setF_mock3(mesh3DData[1].map(f => [...f]));
-    }, []);
+    }, [profileType, profileDepth, profileCurve, runJob]);
+
+    // Pipes have to be rebuilt whenever the cross-section changes
+    useEffect(() => {
+        setInit3(false);
+    }, [profileType, profileDepth, profileCurve]);
     
-    const processStep3 = useCallback(() => {
-        const V = V_mock3.map(v => new Vec3(v.x, v.y, v.z));
-        const F = F_mock3.map(f => [...f]);
-        if (!meshGenRef.current) return;
-        meshGenRef.current.runMeshSmoothing(V, F, smoothFactor);
+    const processStep3 = useCallback(async () => {
+        const result = await runJob({ type: 'smooth', factor: smoothFactor });
+        if (!result) return;
 
-        // const boundary = findBoundary(V.map(v => new Vec2(v.x, v.y)), F);
-        // console.log("[useMeshGen] Step 3: smoothFactor =", smoothFactor);
-        // console.log("[useMeshGen] Lap =", metrics.laplacian(V, F));
-        // console.log("[useMeshGen] IoU =", metrics.iou2DSilhouettes(boundary, latestPath));
-        setInit3(true);
-        setMesh3D([V, F]);
+        setMesh3D(deserializeMesh(result.mesh));
         setInit4(false);
-    }, [smoothFactor, V_mock3, F_mock3]);
+    }, [smoothFactor, runJob]);
 
     const preprocessStep4 = useCallback(() => {
         if (!mesh3D) return;
@@ -169,37 +154,34 @@ export function useMeshGen(onComplete?: (mesh: THREE.SkinnedMesh) => void) {
         setInit4(true);
     }, [mesh3D]);
     
-    const processStep4 = useCallback(() => {
-        const V = V_mock4.map(v => new Vec3(v.x, v.y, v.z));
-        const F = F_mock4.map(f => [...f]);
-
-        const length = isometricLength <= 5 ? -1 : isometricLength;
-        geo3d.runIsometricRemesh(V, F, isometricIterations, length);
-
-        // const boundary = findBoundary(V.map(v => new Vec2(v.x, v.y)), F);
-        // console.log("[useMeshGen] Step 4: isometricIterations =", isometricIterations, "isometricLength =", isometricLength);
-        // console.log("[useMeshGen] Lap =", metrics.laplacian(V, F));
-        // console.log("[useMeshGen] IoU =", metrics.iou2DSilhouettes(boundary, latestPath));
-        setMesh3D([V, F]);
-    }, [isometricIterations, isometricLength, V_mock4, F_mock4]);
+    const processStep4 = useCallback(async () => {
+        const result = await runJob({
+            type: 'remesh',
+            mesh: serializeMesh([V_mock4, F_mock4]),
+            iterations: isometricIterations,
+            length: isometricLength,
+        });
+        if (!result) return;
+
+        setMesh3D(deserializeMesh(result.mesh));
+    }, [isometricIterations, isometricLength, V_mock4, F_mock4, runJob]);
     
-    const processStep5 = useCallback(() => {
-        if (!meshGenRef.current) return;
-
-        setSkeleton(meshGenRef.current.generateSkeleton(
-            boneDevThreshold,
-            boneLenThreshold,
-            bonePruningThreshold
-        ) as [Vec3[], [number, number][]]
-        );
-    }, [boneDevThreshold, boneLenThreshold, bonePruningThreshold]);
+    const processStep5 = useCallback(async () => {
+        const result = await runJob({
+            type: 'skeleton',
+            devThreshold: boneDevThreshold,
+            lenThreshold: boneLenThreshold,
+            pruningThreshold: bonePruningThreshold,
+        });
+        if (!result) return;
+
+        setSkeleton(deserializeSkel(result.skel));
+    }, [boneDevThreshold, boneLenThreshold, bonePruningThreshold, runJob]);
     
-    const handlePathComplete = useCallback((path: Vec2[]) => {
-        const centroid = path.reduce((acc, p) => acc.plus(p), new Vec2(0, 0)).over(path.length);
-        path = path.map(p => p.minus(centroid));
-        path = path.map(p => new Vec2(p.x, -p.y));
-
-        setLatestPath(path);
+    const handlePathComplete = useCallback((path: Vec2[], holes: Vec2[][] = []) => {
+        const [outline, inner] = normalizeSketch(path, holes);
+        setLatestPath(outline);
+        setLatestHoles(inner);
         setCurrentStep(1);
     }, []);
 
@@ -212,9 +194,14 @@ export function useMeshGen(onComplete?: (mesh: THREE.SkinnedMesh) => void) {
     }, []);
 
     const handleReset = useCallback(() => {
+        serviceRef.current?.abort();
+        jobsRef.current.clear();
+        setProgress(null);
         setCurrentStep(0);
         setLatestPath(null);
+        setLatestHoles([]);
         setMesh2D(null);
+        setRings(null);
         setMesh3D(null);
         setChordData(null);
         setSkeleton(null);
@@ -231,12 +218,12 @@ export function useMeshGen(onComplete?: (mesh: THREE.SkinnedMesh) => void) {
     useEffect(() => {
         if (!latestPath) return;
 
-        if (currentStep === 1) processStep1(latestPath);
+        if (currentStep === 1) processStep1(latestPath, latestHoles);
         if (currentStep === 2) processStep2();
         if (currentStep === 3 && init3) processStep3();
         if (currentStep === 4 && init4) processStep4();
         if (currentStep === 5) processStep5();
-    }, [currentStep, latestPath,
+    }, [currentStep, latestPath, latestHoles,
         processStep1,
         processStep2,
         processStep3, init3,
@@ -245,29 +232,43 @@ export function useMeshGen(onComplete?: (mesh: THREE.SkinnedMesh) => void) {
     ]);
     
     useEffect(() => {
-        if (currentStep > 5) {
-            if (onComplete && mesh3D && skeleton) {
-                const skinWeights = computeSkinWeightsGlobal(mesh3D, skeleton);
-                const mesh = skinnedMeshFromData({
-                    mesh: mesh3D,
-                    skel: skeleton,
-                    skinWeights,
-                    skinIndices: null,
-                });
-                onComplete(mesh);
-            }
+        if (currentStep <= 5) return;
+        if (!onComplete || !mesh3D || !skeleton) {
             handleReset();
+            return;
         }
-    }, [currentStep, mesh3D, skeleton, onComplete]);
+        runJob({
+            type: 'skin',
+            mesh: serializeMesh(mesh3D),
+            skel: serializeSkel(skeleton),
+            solver: SKIN_SOLVERS[skinSolver],
+        }).then((result) => {
+            if (!result) return;
+            onComplete(skinnedMeshFromData({
+                mesh: mesh3D,
+                skel: skeleton,
+                skinWeights: result.weights,
+                skinIndices: null,
+            }));
+            handleReset();
+        });
+    }, [currentStep, mesh3D, skeleton, skinSolver, onComplete, runJob, handleReset]);
+
+    useEffect(() => () => {
+        serviceRef.current?.dispose();
+        serviceRef.current = null;
+    }, []);
 
     const state: MeshGenState = {
         currentStep,
         mesh2D,
+        rings,
         mesh3D,
         chordData,
         capOffset,
         junctionOffset,
         skeleton,
+        progress,
     };
 
     const params: MeshGenParams = {
@@ -275,11 +276,15 @@ export function useMeshGen(onComplete?: (mesh: THREE.SkinnedMesh) => void) {
         laplacianIters,
         laplacianAlpha,
         smoothFactor,
+        profileType,
+        profileDepth,
+        profileCurve,
         isometricIterations,
         isometricLength,
         boneDevThreshold,
         boneLenThreshold,
         bonePruningThreshold,
+        skinSolver,
     };
 
     return {
@@ -294,11 +299,15 @@ export function useMeshGen(onComplete?: (mesh: THREE.SkinnedMesh) => void) {
             setLaplacianIters,
             setLaplacianAlpha,
             setSmoothFactor,
+            setProfileType,
+            setProfileDepth,
+            setProfileCurve,
             setIsometricIterations,
             setIsometricLength,
             setBoneDevThreshold,
             setBoneLenThreshold,
             setBonePruningThreshold,
+            setSkinSolver,
         },
     };
 }
\ No newline at end of file
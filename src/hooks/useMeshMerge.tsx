@@ -3,23 +3,31 @@
 import { useState, useCallback, useRef, useEffect, RefObject } from 'react';
 import * as THREE from 'three';
 import { MeshMerge } from '@/core/meshmerge';
-import { MergeParams } from '@/core/meshmerge';
+import { MergeParams, CLEANUP_MODES } from '@/core/meshmerge';
+import { SKIN_SOLVERS } from '@/core/skin';
+import { repairSkinnedMesh } from '@/utils/threeMesh';
 
 export interface MeshMergeState {
     currentStep: number;
     resultRef: RefObject<THREE.SkinnedMesh | null>;
 }
 export interface MeshMergeParams {
+    /** Index into CLEANUP_MODES. */
+    cleanupMode: number;
     smoothLayers: number;
     smoothFactor: number;
+    /** 0 keeps the weights of both meshes, otherwise 1 + index into SKIN_SOLVERS. */
+    skinSolver: number;
 }
 
 export function useMeshMerge(onMergeComplete?: (mesh: THREE.SkinnedMesh) => void) {
     const [currentStep, setCurrentStep] = useState<number>(0);
     const [mesh1, setMesh1] = useState<THREE.SkinnedMesh | null>(null);
     const [mesh2, setMesh2] = useState<THREE.SkinnedMesh | null>(null);
+    const [cleanupMode, setCleanupMode] = useState<number>(0);
     const [smoothLayers, setSmoothLayers] = useState<number>(0);
     const [smoothFactor, setSmoothFactor] = useState<number>(0.1);
+    const [skinSolver, setSkinSolver] = useState<number>(1);
     const [swap, setSwap] = useState<boolean>(false);
     const [param, setParam] = useState<MergeParams | null>(null);
 
@@ -36,10 +44,10 @@ export function useMeshMerge(onMergeComplete?: (mesh: THREE.SkinnedMesh) => void
     const processStep2 = useCallback(() => {
         if (!mesh1 || !mesh2 || !param) return;
         const merger = swap ? new MeshMerge(mesh2, mesh1, param) : new MeshMerge(mesh1, mesh2, param);
-        const result = merger.runTriangleRemoval();
+        const result = CLEANUP_MODES[cleanupMode] === 'union' ? merger.runBooleanUnion() : merger.runTriangleRemoval();
         mergerRef.current = merger;
         resultRef.current = result;
-    }, [mesh1, mesh2, param, swap]);
+    }, [mesh1, mesh2, param, swap, cleanupMode]);
 
     const processStep3 = useCallback(() => {
         if (!mergerRef.current) return;
@@ -56,8 +64,8 @@ export function useMeshMerge(onMergeComplete?: (mesh: THREE.SkinnedMesh) => void
     const processStep5 = useCallback(() => {
         if (!mergerRef.current) return;
         if (!resultRef.current) return;
-        mergerRef.current.computeSkinWeights(resultRef.current);
-    }, []);
+        mergerRef.current.computeSkinWeights(resultRef.current, skinSolver > 0 ? SKIN_SOLVERS[skinSolver - 1] : null);
+    }, [skinSolver]);
 
     const onNext = useCallback(() => {
         setCurrentStep(prev => prev + 1);
@@ -82,16 +90,16 @@ export function useMeshMerge(onMergeComplete?: (mesh: THREE.SkinnedMesh) => void
         if (currentStep === 5)  processStep5();
     }, [
         currentStep,
-        processStep2, mesh1, mesh2, param, swap,
+        processStep2, mesh1, mesh2, param, swap, cleanupMode,
         processStep3,
         processStep4, smoothLayers, smoothFactor,
-        processStep5,
+        processStep5, skinSolver,
     ]);
 
     useEffect(() => {
         if (currentStep > 5) {
             if (onMergeComplete && resultRef.current)
-                onMergeComplete(resultRef.current);
+                onMergeComplete(repairSkinnedMesh(resultRef.current));
 
             onReset();
         }
@@ -102,8 +110,10 @@ export function useMeshMerge(onMergeComplete?: (mesh: THREE.SkinnedMesh) => void
         resultRef
     };
     const params: MeshMergeParams = {
+        cleanupMode,
         smoothLayers,
         smoothFactor,
+        skinSolver,
     };
 
     return {
@@ -116,8 +126,10 @@ export function useMeshMerge(onMergeComplete?: (mesh: THREE.SkinnedMesh) => void
         setParam,
         setSwap,
         onParamChange: {
+            setCleanupMode,
             setSmoothLayers,
             setSmoothFactor,
+            setSkinSolver,
         },
     };
 }
@@ -10,15 +10,22 @@ import { createSkeleton } from '../utils/threeSkel';
 export type TransformMode = 'translate' | 'rotate' | 'scale';
 export type TransformSpace = 'world' | 'local';
 export type RaycastResult = THREE.SkinnedMesh | THREE.Bone | [THREE.Bone, THREE.Bone] | null;
+export type TransformListener = (obj: THREE.Object3D, before: THREE.Matrix4, after: THREE.Matrix4) => void;
 
 /**
  * Return type of useScene.
  *
- * - **insertObject** – Add an object to the scene.
+ * - **insertObject** – Add an object to the scene. Skinned meshes get a `userData.uid` unique in the scene.
  * - **removeObject** – Remove an object from the scene. Disposes geometry/material.
  * - **getCamera** – Get the current perspective camera (for cut plane, etc.).
  * - **getCanvas** – Get the renderer canvas element (for overlays, hit testing).
  * - **raycast** / **attach** / **detach** / **setSpace** / **setMode** – Transform controls.
+ * - **addTransformListener** – Get notified with the local matrices before and after each transform drag.
+ * - **subscribe** – Get notified when meshes are inserted, removed, renamed, hidden, locked or selected.
+ * - **notify** – Notify subscribers of a change made to a mesh outside of these hooks (e.g. to its animations).
+ * - **getObjects** / **getHelper** – Registered skinned meshes and the skeleton helper of each.
+ * - **getSelected** – Object attached to the transform controls, i.e. the current selection.
+ * - **setVisible** / **setLocked** / **rename** – Outliner edits. Hidden or locked objects are skipped by raycast.
  */
 export interface SceneHooks {
     insertObject: (obj: THREE.Object3D) => void;
@@ -31,6 +38,15 @@ export interface SceneHooks {
     detach: () => void;
     setSpace: (space: TransformSpace) => void;
     setMode: (mode: TransformMode) => void;
+    addTransformListener: (listener: TransformListener) => () => void;
+    subscribe: (listener: () => void) => () => void;
+    notify: () => void;
+    getObjects: () => THREE.SkinnedMesh[];
+    getHelper: (mesh: THREE.SkinnedMesh) => THREE.Group | null;
+    getSelected: () => THREE.Object3D | null;
+    setVisible: (obj: THREE.Object3D, visible: boolean) => void;
+    setLocked: (obj: THREE.Object3D, locked: boolean) => void;
+    rename: (obj: THREE.Object3D, name: string) => void;
 }
 
 // Default configuration constants
@@ -64,10 +80,26 @@ export function useScene(containerRef: RefObject<HTMLDivElement>): SceneHooks {
     const frameIdRef = useRef<number | null>(null);
     const mesh2HelperRef = useRef<Map<number, THREE.Group>>(new Map());
     const meshCounterRef = useRef(0);
+    const uidCounterRef = useRef(0);
+    const transformListenersRef = useRef<Set<TransformListener>>(new Set());
+    const changeListenersRef = useRef<Set<() => void>>(new Set());
+
+    const notify = useCallback(() => {
+        changeListenersRef.current.forEach(listener => listener());
+    }, []);
 
     const insertObject = useCallback((obj: THREE.Object3D) => {
         if (!sceneRef.current) return;
 
+        if (obj instanceof THREE.SkinnedMesh) {
+            // keep uids of restored meshes, renew those of copies
+            const uid = obj.userData.uid;
+            const taken = sceneRef.current.children.some(child => child !== obj && child.userData.uid === uid);
+            if (typeof uid !== 'number' || taken)
+                obj.userData.uid = uidCounterRef.current++;
+            else
+                uidCounterRef.current = Math.max(uidCounterRef.current, uid + 1);
+        }
         sceneRef.current.add(obj);
         if (obj instanceof THREE.SkinnedMesh) {
             const helper = createSkeleton(obj);
@@ -77,8 +109,9 @@ export function useScene(containerRef: RefObject<HTMLDivElement>): SceneHooks {
             meshCounterRef.current++;
             sceneRef.current.add(helper);
             sceneRef.current.updateMatrixWorld(true);
+            notify();
         }
-    }, []);
+    }, [notify]);
 
     const removeObject = useCallback((obj: THREE.Object3D) => {
         if (!sceneRef.current || !obj) return;
@@ -95,11 +128,18 @@ export function useScene(containerRef: RefObject<HTMLDivElement>): SceneHooks {
         }
         objectControlsRef.current.detach();
         sceneRef.current.remove(obj);
-    }, []);
+        notify();
+    }, [notify]);
 
     const getScene = useCallback(() => sceneRef.current, []);
     const getCamera = useCallback(() => cameraRef.current, []);
     const getCanvas = useCallback(() => rendererRef.current?.domElement ?? null, []);
+    const getObjects = useCallback(() => {
+        const children = sceneRef.current?.children ?? [];
+        return children.filter((child): child is THREE.SkinnedMesh => child instanceof THREE.SkinnedMesh);
+    }, []);
+    const getHelper = useCallback((mesh: THREE.SkinnedMesh) => mesh2HelperRef.current.get(mesh.userData.id) ?? null, []);
+    const getSelected = useCallback(() => objectControlsRef.current?.object ?? null, []);
 
     const raycast = useCallback((clientX: number, clientY: number): RaycastResult => {
         const renderer = rendererRef.current;
@@ -119,6 +159,8 @@ export function useScene(containerRef: RefObject<HTMLDivElement>): SceneHooks {
         const meshes: THREE.SkinnedMesh[] = [];
 
         scene.children.forEach(child => {
+            if (!child.visible || child.userData?.locked)
+                return;
             if (child instanceof THREE.SkinnedMesh) {
                 meshes.push(child);
             } else if (child.userData?.isHelper) {
@@ -139,17 +181,59 @@ export function useScene(containerRef: RefObject<HTMLDivElement>): SceneHooks {
     }, []);
 
     const attach = useCallback((obj: THREE.Object3D) => {
+        if (objectControlsRef.current?.object === obj) return;
         objectControlsRef.current?.attach(obj);
-    }, []);
+        notify();
+    }, [notify]);
     const detach = useCallback(() => {
-        objectControlsRef.current?.detach();
-    }, []);
+        if (!objectControlsRef.current?.object) return;
+        objectControlsRef.current.detach();
+        notify();
+    }, [notify]);
     const setSpace = useCallback((space: TransformSpace) => {
         objectControlsRef.current?.setSpace(space);
     }, []);
     const setMode = useCallback((mode: TransformMode) => {
         objectControlsRef.current?.setMode(mode);
     }, []);
+    const addTransformListener = useCallback((listener: TransformListener) => {
+        transformListenersRef.current.add(listener);
+        return () => {
+            transformListenersRef.current.delete(listener);
+        };
+    }, []);
+    const subscribe = useCallback((listener: () => void) => {
+        changeListenersRef.current.add(listener);
+        return () => {
+            changeListenersRef.current.delete(listener);
+        };
+    }, []);
+
+    /** Whether obj is the selection or a bone under it. */
+    const holdsSelection = (obj: THREE.Object3D) => {
+        const selected = objectControlsRef.current?.object;
+        if (obj.userData.isHelper)
+            return obj.children.some(child => child.joint === selected);
+        for (let node = selected; node; node = node.parent)
+            if (node === obj) return true;
+        return false;
+    };
+    const setVisible = useCallback((obj: THREE.Object3D, visible: boolean) => {
+        obj.visible = visible;
+        if (!visible && holdsSelection(obj))
+            objectControlsRef.current?.detach();
+        notify();
+    }, [notify]);
+    const setLocked = useCallback((obj: THREE.Object3D, locked: boolean) => {
+        obj.userData.locked = locked;
+        if (locked && holdsSelection(obj))
+            objectControlsRef.current?.detach();
+        notify();
+    }, [notify]);
+    const rename = useCallback((obj: THREE.Object3D, name: string) => {
+        obj.name = name;
+        notify();
+    }, [notify]);
 
     useEffect(() => {
         if (!containerRef.current) {
@@ -222,10 +306,23 @@ export function useScene(containerRef: RefObject<HTMLDivElement>): SceneHooks {
         objectControls.setSpace('world');
         scene.add(objectControls.getHelper());
         objectControlsRef.current = objectControls;
+        let dragStart: THREE.Matrix4 | null = null;
         objectControls.addEventListener('dragging-changed', (event) => {
             if (cameraControlsRef.current) {
                 cameraControlsRef.current.enabled = !event.value;
             }
+            const obj = objectControls.object;
+            if (!obj) return;
+
+            obj.updateMatrix();
+            if (event.value) {
+                dragStart = obj.matrix.clone();
+            } else if (dragStart) {
+                const before = dragStart;
+                dragStart = null;
+                if (!before.equals(obj.matrix))
+                    transformListenersRef.current.forEach(listener => listener(obj, before, obj.matrix.clone()));
+            }
         });
 
         gizmoRef.current = new ViewportGizmo(camera, renderer, {
@@ -313,5 +410,14 @@ export function useScene(containerRef: RefObject<HTMLDivElement>): SceneHooks {
         detach,
         setSpace,
         setMode,
+        addTransformListener,
+        subscribe,
+        notify,
+        getObjects,
+        getHelper,
+        getSelected,
+        setVisible,
+        setLocked,
+        rename,
     };
 }
@@ -23,4 +23,4 @@ export interface Frame {
     basisV: Vec3;
 }
 
-export type MenuAction = 'copy' | 'delete' | 'rig' | 'cut' | 'merge' | 'editSkeleton';
+export type MenuAction = 'copy' | 'delete' | 'rig' | 'cut' | 'merge' | 'editSkeleton' | 'paintWeights' | 'applyPose' | 'decimate' | 'exportGLB' | 'exportOBJ';
@@ -0,0 +1,190 @@
+/**
+ * Keyframe animation of skinned meshes.
+ *
+ * An animation keeps, for each keyframe, the local matrix of every bone of a
+ * mesh (column-major, as THREE.Matrix4.toArray), like the `pose` of a
+ * {@link MeshSnapshot}. Animations are stored in `mesh.userData.animations`
+ * and turned into THREE.AnimationClips for playback and glTF export.
+ */
+
+import * as THREE from 'three';
+
+export type Interpolation = 'linear' | 'cubic';
+export const INTERPOLATIONS: Interpolation[] = ['linear', 'cubic'];
+
+/** Rate at which cubic animations are sampled into linear tracks, in frames per second. */
+export const SAMPLE_RATE = 30;
+
+export const DEFAULT_DURATION = 2;
+
+export interface Keyframe {
+    time: number;
+    /** Local matrix of every bone */
+    pose: number[][];
+}
+
+export interface AnimationData {
+    name: string;
+    /** Length of the clip in seconds; keyframes past it extend the clip. */
+    duration: number;
+    interpolation: Interpolation;
+    /** Sorted by time, at most one per time */
+    keyframes: Keyframe[];
+}
+
+/** Two keyframes closer than this (in seconds) are at the same time. */
+const TIME_EPSILON = 1e-4;
+
+export const createAnimation = (name: string = 'Take 1'): AnimationData => ({
+    name,
+    duration: DEFAULT_DURATION,
+    interpolation: 'linear',
+    keyframes: [],
+});
+
+/**
+ * Animations of a mesh, an empty list for meshes without any.
+ */
+export const getAnimations = (mesh: THREE.Object3D): AnimationData[] =>
+    Array.isArray(mesh.userData.animations) ? mesh.userData.animations : [];
+
+/**
+ * Local matrices of the bones of a mesh in its current pose.
+ */
+export const capturePose = (mesh: THREE.SkinnedMesh): number[][] =>
+    mesh.skeleton.bones.map((bone: THREE.Bone) => bone.matrix.toArray());
+
+/**
+ * Pose the bones of a mesh with the local matrices of a keyframe.
+ */
+export const applyPose = (mesh: THREE.SkinnedMesh, pose: number[][]) => {
+    const matrix = new THREE.Matrix4();
+    mesh.skeleton.bones.forEach((bone: THREE.Bone, i: number) => {
+        if (!pose[i]) return;
+        matrix.fromArray(pose[i]).decompose(bone.position, bone.quaternion, bone.scale);
+    });
+    mesh.updateMatrixWorld(true);
+}
+
+/**
+ * Insert a keyframe, replacing the one at the same time if any.
+ * @returns a new animation, the input is left untouched
+ */
+export const setKeyframe = (animation: AnimationData, time: number, pose: number[][]): AnimationData => {
+    const keyframes = animation.keyframes.filter(k => Math.abs(k.time - time) > TIME_EPSILON);
+    keyframes.push({ time, pose });
+    keyframes.sort((a, b) => a.time - b.time);
+    return { ...animation, keyframes };
+}
+
+/**
+ * Remove the keyframe at `time`, if any.
+ * @returns a new animation, the input is left untouched
+ */
+export const removeKeyframe = (animation: AnimationData, time: number): AnimationData => ({
+    ...animation,
+    keyframes: animation.keyframes.filter(k => Math.abs(k.time - time) > TIME_EPSILON),
+});
+
+/**
+ * Keyframe at `time`, or null.
+ */
+export const keyframeAt = (animation: AnimationData, time: number): Keyframe | null =>
+    animation.keyframes.find(k => Math.abs(k.time - time) <= TIME_EPSILON) ?? null;
+
+export const clipDuration = (animation: AnimationData): number =>
+    Math.max(animation.duration, animation.keyframes.at(-1)?.time ?? 0);
+
+/**
+ * Cubic Hermite interpolation between keys i and i + 1 of a channel, with
+ * Catmull-Rom tangents (one-sided at the ends) for non-uniform times.
+ */
+const hermite = (times: number[], values: number[][], i: number, t: number): number[] => {
+    const n = times.length;
+    const tangent = (k: number, c: number) => {
+        const a = Math.max(k - 1, 0), b = Math.min(k + 1, n - 1);
+        return (values[b][c] - values[a][c]) / (times[b] - times[a]);
+    };
+    const h = times[i + 1] - times[i];
+    const s = (t - times[i]) / h;
+    const s2 = s * s, s3 = s2 * s;
+    return values[i].map((p0, c) =>
+        (2 * s3 - 3 * s2 + 1) * p0 +
+        (s3 - 2 * s2 + s) * h * tangent(i, c) +
+        (-2 * s3 + 3 * s2) * values[i + 1][c] +
+        (s3 - s2) * h * tangent(i + 1, c));
+}
+
+/**
+ * Sample a channel at the given times: keys are held before the first and
+ * after the last one.
+ */
+const sampleCubic = (times: number[], values: number[][], samples: number[]): number[] => {
+    const result: number[] = [];
+    let i = 0;
+    for (const t of samples) {
+        while (i < times.length - 2 && t > times[i + 1]) i++;
+        if (times.length === 1 || t <= times[0])
+            result.push(...values[0]);
+        else if (t >= times[times.length - 1])
+            result.push(...values[values.length - 1]);
+        else
+            result.push(...hermite(times, values, i, t));
+    }
+    return result;
+}
+
+/**
+ * Build the clip of an animation for the given bones. Tracks address bones by
+ * uuid, so the clip binds through an AnimationMixer rooted at the mesh (or any
+ * ancestor of its bones) and exports from a glTF scene holding the bones.
+ *
+ * Linear animations keep one key per keyframe. Cubic ones are sampled at
+ * {@link SAMPLE_RATE} into linear tracks, since quaternion tracks have no
+ * smooth interpolant and glTF exporters write smooth tracks as linear.
+ */
+export const buildClip = (animation: AnimationData, bones: THREE.Bone[]): THREE.AnimationClip => {
+    const { keyframes } = animation;
+    const duration = clipDuration(animation);
+    const times = keyframes.map(k => k.time);
+
+    let samples = times;
+    if (animation.interpolation === 'cubic' && keyframes.length > 1) {
+        const set = new Set(times);
+        const first = times[0], last = times[times.length - 1];
+        for (let f = Math.ceil(first * SAMPLE_RATE); f / SAMPLE_RATE < last; f++)
+            set.add(f / SAMPLE_RATE);
+        samples = [...set].sort((a, b) => a - b);
+    }
+    const cubic = samples !== times;
+
+    const matrix = new THREE.Matrix4();
+    const tracks: THREE.KeyframeTrack[] = [];
+    bones.forEach((bone, i) => {
+        const positions: number[][] = [], quaternions: number[][] = [], scales: number[][] = [];
+        const p = new THREE.Vector3(), q = new THREE.Quaternion(), s = new THREE.Vector3();
+        let previous: THREE.Quaternion | null = null;
+        for (const { pose } of keyframes) {
+            matrix.fromArray(pose[i] ?? bone.matrix.toArray()).decompose(p, q, s);
+            // take the shorter way between consecutive rotations
+            if (previous && previous.dot(q) < 0)
+                q.set(-q.x, -q.y, -q.z, -q.w);
+            previous = q.clone();
+            positions.push(p.toArray());
+            quaternions.push(q.toArray());
+            scales.push(s.toArray());
+        }
+        const channel = (values: number[][]) => cubic ? sampleCubic(times, values, samples) : values.flat();
+
+        const rotation = channel(quaternions);
+        for (let k = 0; k < rotation.length; k += 4)
+            q.fromArray(rotation, k).normalize().toArray(rotation, k);
+
+        tracks.push(
+            new THREE.VectorKeyframeTrack(`${bone.uuid}.position`, samples, channel(positions)),
+            new THREE.QuaternionKeyframeTrack(`${bone.uuid}.quaternion`, samples, rotation),
+            new THREE.VectorKeyframeTrack(`${bone.uuid}.scale`, samples, channel(scales)),
+        );
+    });
+    return new THREE.AnimationClip(animation.name, duration, keyframes.length > 0 ? tracks : []);
+}
@@ -0,0 +1,263 @@
+/**
+ * Boolean union of closed triangle meshes.
+ *
+ * Both surfaces are cut along their intersection curve: every triangle crossed
+ * by the other surface is re-triangulated with the curve as a constraint, then
+ * the pieces of each surface lying inside the other one are dropped. Vertices
+ * of the curve are shared by both surfaces, so the union of two closed meshes
+ * is closed.
+ *
+ * Surfaces are assumed to be in general position: coplanar overlaps and
+ * curves passing exactly through vertices or edges are not resolved.
+ */
+
+import { Vec3, MeshData } from '@/interface';
+import { BVH, Box } from '@/utils/bvh';
+
+var cdt2d = require('cdt2d');
+
+/**
+ * Vertex of a union as a blend of input vertices: [vertex, weight] pairs of
+ * the first mesh, then of the second one. Original vertices have one entry,
+ * vertices of the intersection curve interpolate an edge of one mesh and a
+ * triangle of the other.
+ */
+export type VertexSource = [[number, number][], [number, number][]];
+
+export interface UnionResult {
+    mesh: MeshData;
+    sources: VertexSource[];
+    /** Vertices on the intersection curve */
+    seam: number[];
+}
+
+/**
+ * Crossing of an edge of one mesh with a triangle of the other. Keyed by the
+ * edge and the triangle, so every pair of triangles meeting there finds the
+ * same vertex.
+ */
+interface Crossing {
+    id: number;
+    point: Vec3;
+    /** Mesh of the edge */
+    mesh: number;
+    edge: [number, number];
+    t: number;
+    face: number;
+    barycentric: [number, number, number];
+}
+
+const faceBox = (V: Vec3[], f: number[]): Box => {
+    const [a, b, c] = f.map(i => V[i]);
+    return [
+        Math.min(a.x, b.x, c.x), Math.min(a.y, b.y, c.y), Math.min(a.z, b.z, c.z),
+        Math.max(a.x, b.x, c.x), Math.max(a.y, b.y, c.y), Math.max(a.z, b.z, c.z),
+    ];
+}
+
+/**
+ * Pairs of triangles of A and B whose bounding boxes overlap, found through a
+ * BVH over the triangles of B.
+ */
+function candidatePairs(A: MeshData, bvhB: BVH): [number, number][] {
+    const pairs: [number, number][] = [];
+    A[1].forEach((f, fi) => bvhB.queryBox(faceBox(A[0], f), g => pairs.push([fi, g])));
+    return pairs;
+}
+
+/**
+ * Barycentric coordinates of p in triangle (a, b, c), p assumed in its plane.
+ */
+function barycentric(p: Vec3, a: Vec3, b: Vec3, c: Vec3): [number, number, number] {
+    const n = b.minus(a).cross(c.minus(a));
+    const area = n.norm2();
+    const u = b.minus(p).cross(c.minus(p)).dot(n) / area;
+    const v = c.minus(p).cross(a.minus(p)).dot(n) / area;
+    return [u, v, 1 - u - v];
+}
+
+/**
+ * Union of two closed, consistently oriented meshes.
+ */
+export function meshUnion(A: MeshData, B: MeshData): UnionResult {
+    const meshes = [A, B];
+    const bvhs = [new BVH(A), new BVH(B)];
+    const offsets = [0, A[0].length, A[0].length + B[0].length];
+    const crossings = new Map<string, Crossing | null>();
+    const crossingList: Crossing[] = [];
+    // segments of the intersection curve on each triangle, keyed `${mesh}:${face}`
+    const segments = new Map<string, [number, number][]>();
+
+    /** Where edge (i, j) of mesh m crosses triangle g of the other mesh, if it does. */
+    const crossing = (m: number, i: number, j: number, g: number): Crossing | null => {
+        if (i > j) [i, j] = [j, i];
+        const key = `${m}:${i}-${j}:${g}`;
+        if (crossings.has(key)) return crossings.get(key);
+
+        const [V] = meshes[m];
+        const [W, G] = meshes[1 - m];
+        const [a, b, c] = G[g].map(k => W[k]);
+        const n = b.minus(a).cross(c.minus(a));
+        const di = V[i].minus(a).dot(n);
+        const dj = V[j].minus(a).dot(n);
+
+        let result: Crossing | null = null;
+        if ((di < 0 && dj > 0) || (di > 0 && dj < 0)) {
+            const t = di / (di - dj);
+            const point = V[i].plus(V[j].minus(V[i]).times(t));
+            const bc = barycentric(point, a, b, c);
+            if (bc.every(x => x >= 0)) {
+                result = { id: offsets[2] + crossingList.length, point, mesh: m, edge: [i, j], t, face: g, barycentric: bc };
+                crossingList.push(result);
+            }
+        }
+        crossings.set(key, result);
+        return result;
+    };
+    const addSegment = (m: number, f: number, segment: [number, number]) => {
+        const key = `${m}:${f}`;
+        if (!segments.has(key)) segments.set(key, []);
+        segments.get(key).push(segment);
+    };
+
+    for (const [f, g] of candidatePairs(A, bvhs[1])) {
+        const points: Crossing[] = [];
+        for (const [m, face, other] of [[0, f, g], [1, g, f]])
+            for (let k = 0; k < 3; k++) {
+                const F = meshes[m][1][face];
+                const hit = crossing(m, F[k], F[(k + 1) % 3], other);
+                if (hit) points.push(hit);
+            }
+        if (points.length !== 2 || points[0].id === points[1].id) continue;
+        const segment: [number, number] = [points[0].id, points[1].id];
+        addSegment(0, f, segment);
+        addSegment(1, g, segment);
+    }
+
+    const position = (id: number): Vec3 =>
+        id >= offsets[2] ? crossingList[id - offsets[2]].point : id >= offsets[1] ? B[0][id - offsets[1]] : A[0][id];
+
+    const kept: number[][] = [];
+    const seamEdges = new Set<string>();
+    const edgeKey = (a: number, b: number) => a < b ? `${a}|${b}` : `${b}|${a}`;
+    segments.forEach(list => list.forEach(([a, b]) => seamEdges.add(edgeKey(a, b))));
+
+    for (const m of [0, 1]) {
+        const [, F] = meshes[m];
+        const faces: number[][] = [];
+        F.forEach((f, fi) => {
+            const corners = f.map(i => i + offsets[m]);
+            const list = segments.get(`${m}:${fi}`);
+            if (!list) faces.push(corners);
+            else faces.push(...splitTriangle(m, f, corners, list));
+        });
+        // pieces of the surface bounded by the curve, each inside or outside the other mesh
+        const parent = faces.map((_, i) => i);
+        const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+        const edgeFaces = new Map<string, number>();
+        faces.forEach((face, fi) => face.forEach((a, k) => {
+            const key = edgeKey(a, face[(k + 1) % 3]);
+            if (seamEdges.has(key)) return;
+            if (edgeFaces.has(key)) parent[find(fi)] = find(edgeFaces.get(key));
+            else edgeFaces.set(key, fi);
+        }));
+        const representative = new Map<number, [number, number]>();
+        faces.forEach((face, fi) => {
+            const [a, b, c] = face.map(position);
+            const area = b.minus(a).cross(c.minus(a)).norm();
+            const root = find(fi);
+            if (!representative.has(root) || representative.get(root)[1] < area)
+                representative.set(root, [fi, area]);
+        });
+        const outside = new Map<number, boolean>();
+        representative.forEach(([fi], root) => {
+            const centroid = faces[fi].map(position).reduce((s, p) => s.plus(p), new Vec3(0, 0, 0)).over(3);
+            outside.set(root, !bvhs[1 - m].contains(centroid));
+        });
+        faces.forEach((face, fi) => { if (outside.get(find(fi))) kept.push(face); });
+    }
+
+    // compact the vertices used by the kept faces
+    const index = new Map<number, number>();
+    const V: Vec3[] = [];
+    const sources: VertexSource[] = [];
+    const seam: number[] = [];
+    const F = kept.map(face => face.map(id => {
+        if (!index.has(id)) {
+            index.set(id, V.length);
+            V.push(position(id));
+            if (id >= offsets[2]) {
+                const { mesh: m, edge: [i, j], t, face: g, barycentric: bc } = crossingList[id - offsets[2]];
+                const onEdge: [number, number][] = [[i, 1 - t], [j, t]];
+                const onFace = meshes[1 - m][1][g].map((k, c) => [k, bc[c]] as [number, number]);
+                seam.push(V.length - 1);
+                sources.push(m === 0 ? [onEdge, onFace] : [onFace, onEdge]);
+            } else if (id >= offsets[1]) {
+                sources.push([[], [[id - offsets[1], 1]]]);
+            } else {
+                sources.push([[[id, 1]], []]);
+            }
+        }
+        return index.get(id);
+    }));
+    return { mesh: [V, F], sources, seam };
+
+    /**
+     * Constrained triangulation of triangle f of mesh m with the curve
+     * segments on it, in the orientation of f.
+     */
+    function splitTriangle(m: number, f: number[], corners: number[], list: [number, number][]): number[][] {
+        const [p0, p1, p2] = corners.map(position);
+        const e1 = p1.minus(p0).unit();
+        const e2 = p1.minus(p0).cross(p2.minus(p0)).cross(e1).unit();
+        const project = (p: Vec3): [number, number] => [p.minus(p0).dot(e1), p.minus(p0).dot(e2)];
+
+        const ids = [...corners];
+        const local = new Map<number, number>(corners.map((id, k) => [id, k]));
+        const sides: [number, number][][] = [[], [], []];   // points on each side, with their parameter
+        const points = corners.map(id => project(position(id)));
+        const side = (id: number): number => {
+            const c = crossingList[id - offsets[2]];
+            if (c.mesh !== m) return -1;
+            for (let k = 0; k < 3; k++)
+                if ((f[k] === c.edge[0] && f[(k + 1) % 3] === c.edge[1]) || (f[k] === c.edge[1] && f[(k + 1) % 3] === c.edge[0]))
+                    return k;
+            return -1;
+        };
+        list.flat().forEach(id => {
+            if (local.has(id)) return;
+            local.set(id, ids.length);
+            ids.push(id);
+            const k = side(id);
+            if (k < 0) {
+                points.push(project(position(id)));
+                return;
+            }
+            // keep points of a side exactly on it
+            const c = crossingList[id - offsets[2]];
+            const t = f[k] === c.edge[0] ? c.t : 1 - c.t;
+            const [a, b] = [points[k], points[(k + 1) % 3]];
+            points.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]);
+            sides[k].push([local.get(id), t]);
+        });
+
+        const edges: [number, number][] = list.map(([a, b]) => [local.get(a), local.get(b)]);
+        const onSide = sides.map((s, k) => {
+            const chain = [k, ...s.sort((x, y) => x[1] - y[1]).map(([i]) => i), (k + 1) % 3];
+            for (let i = 0; i + 1 < chain.length; i++)
+                edges.push([chain[i], chain[i + 1]]);
+            return new Set(chain);
+        });
+
+        const result: number[][] = [];
+        for (const [a, b, c] of cdt2d(points, edges)) {
+            // slivers along a side, where a side point fell off it by rounding
+            if (onSide.some(s => s.has(a) && s.has(b) && s.has(c)))
+                continue;
+            const [pa, pb, pc] = [points[a], points[b], points[c]];
+            const area = (pb[0] - pa[0]) * (pc[1] - pa[1]) - (pb[1] - pa[1]) * (pc[0] - pa[0]);
+            result.push(area > 0 ? [ids[a], ids[b], ids[c]] : [ids[a], ids[c], ids[b]]);
+        }
+        return result;
+    }
+}
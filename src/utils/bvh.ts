@@ -0,0 +1,407 @@
+/**
+ * Bounding volume hierarchy over the triangles of a MeshData, for ray,
+ * segment, box and closest-point queries and for inside tests by generalized
+ * winding number (Jacobson et al. 2013), with the far-field approximation of
+ * Barill et al. 2018.
+ *
+ * Nodes are axis-aligned boxes split at the median of the longest axis of the
+ * triangle centroids, stored in flat arrays.
+ */
+
+import { Vec3, MeshData } from '@/interface';
+
+export type Box = [number, number, number, number, number, number];
+
+export interface RayHit {
+    face: number;
+    /** Distance along the ray, in units of the direction length */
+    t: number;
+    /** Barycentric coordinates of the hit in the triangle: weights of its vertices 1 and 2 */
+    u: number;
+    v: number;
+}
+
+export interface ClosestPoint {
+    face: number;
+    point: Vec3;
+    distance: number;
+}
+
+const LEAF_SIZE = 4;
+/** Far-field approximation of a node applies beyond this multiple of its radius. */
+const WINDING_ACCURACY = 2;
+const EPSILON = 1e-12;
+
+export class BVH {
+    readonly faceCount: number;
+    private P: Float64Array;
+    private F: Int32Array;
+    /** Triangles in node order; leaves cover a range of it */
+    private order: Int32Array;
+    private bounds: number[] = [];
+    /** Index of the left child, or -1 for leaves (the right child follows the left subtree) */
+    private left: number[] = [];
+    private right: number[] = [];
+    private start: number[] = [];
+    private count: number[] = [];
+    /** Area-weighted normal sums and centroids, for the winding number far field */
+    private normal: number[] = [];
+    private center: number[] = [];
+    private radius: number[] = [];
+
+    constructor(mesh: MeshData) {
+        const [V, F] = mesh;
+        this.faceCount = F.length;
+        this.P = new Float64Array(V.length * 3);
+        V.forEach((v, i) => {
+            this.P[i * 3] = v.x;
+            this.P[i * 3 + 1] = v.y;
+            this.P[i * 3 + 2] = v.z;
+        });
+        this.F = new Int32Array(F.length * 3);
+        F.forEach((f, t) => this.F.set(f, t * 3));
+
+        // per triangle: bounds, centroid and area vector (half the unnormalized normal)
+        const boxes = new Float64Array(F.length * 6);
+        const centroids = new Float64Array(F.length * 3);
+        const areas = new Float64Array(F.length * 3);
+        for (let t = 0; t < F.length; t++) {
+            for (let k = 0; k < 3; k++) {
+                const x0 = this.coord(t, 0, k), x1 = this.coord(t, 1, k), x2 = this.coord(t, 2, k);
+                boxes[t * 6 + k] = Math.min(x0, x1, x2);
+                boxes[t * 6 + k + 3] = Math.max(x0, x1, x2);
+                centroids[t * 3 + k] = (x0 + x1 + x2) / 3;
+            }
+            const n = this.faceNormal(t);
+            for (let k = 0; k < 3; k++) areas[t * 3 + k] = n[k] / 2;
+        }
+
+        const order = F.map((_, t) => t);
+        if (F.length > 0)
+            this.build(order, 0, F.length, boxes, centroids, areas);
+        this.order = Int32Array.from(order);
+    }
+
+    private coord(t: number, corner: number, k: number): number {
+        return this.P[this.F[t * 3 + corner] * 3 + k];
+    }
+
+    private build(order: number[], start: number, end: number, boxes: Float64Array, centroids: Float64Array, areas: Float64Array): number {
+        const node = this.left.length;
+        const box = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+        const cbox = [Infinity, Infinity, Infinity, -Infinity, -Infinity, -Infinity];
+        const n = [0, 0, 0], c = [0, 0, 0];
+        let area = 0;
+        for (let i = start; i < end; i++) {
+            const t = order[i];
+            const a = Math.hypot(areas[t * 3], areas[t * 3 + 1], areas[t * 3 + 2]);
+            for (let k = 0; k < 3; k++) {
+                box[k] = Math.min(box[k], boxes[t * 6 + k]);
+                box[k + 3] = Math.max(box[k + 3], boxes[t * 6 + k + 3]);
+                cbox[k] = Math.min(cbox[k], centroids[t * 3 + k]);
+                cbox[k + 3] = Math.max(cbox[k + 3], centroids[t * 3 + k]);
+                n[k] += areas[t * 3 + k];
+                c[k] += centroids[t * 3 + k] * a;
+            }
+            area += a;
+        }
+        for (let k = 0; k < 3; k++)
+            c[k] = area > 0 ? c[k] / area : (box[k] + box[k + 3]) / 2;
+
+        // the box corner farthest from the center bounds the radius of the node
+        let r2 = 0;
+        for (let k = 0; k < 3; k++) {
+            const x = Math.max(c[k] - box[k], box[k + 3] - c[k]);
+            r2 += x * x;
+        }
+
+        this.bounds.push(...box);
+        this.normal.push(...n);
+        this.center.push(...c);
+        this.radius.push(Math.sqrt(r2));
+        this.left.push(-1);
+        this.right.push(-1);
+        this.start.push(start);
+        this.count.push(end - start);
+
+        if (end - start <= LEAF_SIZE)
+            return node;
+
+        const extent = [0, 1, 2].map(k => cbox[k + 3] - cbox[k]);
+        const axis = extent.indexOf(Math.max(...extent));
+        const sorted = order.slice(start, end).sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+        for (let i = 0; i < sorted.length; i++)
+            order[start + i] = sorted[i];
+        const mid = (start + end) >> 1;
+
+        this.left[node] = this.build(order, start, mid, boxes, centroids, areas);
+        this.right[node] = this.build(order, mid, end, boxes, centroids, areas);
+        return node;
+    }
+
+    /** Unnormalized normal of triangle t (twice its area in length). */
+    private faceNormal(t: number): number[] {
+        const P = this.P, i0 = this.F[t * 3] * 3, i1 = this.F[t * 3 + 1] * 3, i2 = this.F[t * 3 + 2] * 3;
+        const ax = P[i1] - P[i0], ay = P[i1 + 1] - P[i0 + 1], az = P[i1 + 2] - P[i0 + 2];
+        const bx = P[i2] - P[i0], by = P[i2 + 1] - P[i0 + 1], bz = P[i2 + 2] - P[i0 + 2];
+        return [ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx];
+    }
+
+    /** Entry distance of the ray into the box of a node, or Infinity if it misses within [0, tMax]. */
+    private rayBox(node: number, o: number[], inv: number[], tMax: number): number {
+        let t0 = 0, t1 = tMax;
+        for (let k = 0; k < 3; k++) {
+            let a = (this.bounds[node * 6 + k] - o[k]) * inv[k];
+            let b = (this.bounds[node * 6 + k + 3] - o[k]) * inv[k];
+            if (Number.isNaN(a) || Number.isNaN(b)) {
+                // ray parallel to and on a slab plane
+                if (o[k] < this.bounds[node * 6 + k] || o[k] > this.bounds[node * 6 + k + 3]) return Infinity;
+                continue;
+            }
+            if (a > b) [a, b] = [b, a];
+            t0 = Math.max(t0, a);
+            t1 = Math.min(t1, b);
+            if (t0 > t1) return Infinity;
+        }
+        return t0;
+    }
+
+    /** Möller–Trumbore; t within (tMin, tMax), or null. */
+    private rayTriangle(t: number, o: number[], d: number[], tMin: number, tMax: number): RayHit | null {
+        const P = this.P, i0 = this.F[t * 3] * 3, i1 = this.F[t * 3 + 1] * 3, i2 = this.F[t * 3 + 2] * 3;
+        const e1x = P[i1] - P[i0], e1y = P[i1 + 1] - P[i0 + 1], e1z = P[i1 + 2] - P[i0 + 2];
+        const e2x = P[i2] - P[i0], e2y = P[i2 + 1] - P[i0 + 1], e2z = P[i2 + 2] - P[i0 + 2];
+        const hx = d[1] * e2z - d[2] * e2y, hy = d[2] * e2x - d[0] * e2z, hz = d[0] * e2y - d[1] * e2x;
+        const a = e1x * hx + e1y * hy + e1z * hz;
+        if (Math.abs(a) < EPSILON) return null;
+
+        const sx = o[0] - P[i0], sy = o[1] - P[i0 + 1], sz = o[2] - P[i0 + 2];
+        const u = (sx * hx + sy * hy + sz * hz) / a;
+        if (u < 0 || u > 1) return null;
+        const qx = sy * e1z - sz * e1y, qy = sz * e1x - sx * e1z, qz = sx * e1y - sy * e1x;
+        const v = (d[0] * qx + d[1] * qy + d[2] * qz) / a;
+        if (v < 0 || u + v > 1) return null;
+        const x = (e2x * qx + e2y * qy + e2z * qz) / a;
+        return x > tMin && x < tMax ? { face: t, t: x, u, v } : null;
+    }
+
+    /**
+     * Visit the triangles hit by the ray o + t d, t in (tMin, tMax), in no
+     * particular order. Stops when visit returns true.
+     */
+    private traceRay(o: number[], d: number[], tMin: number, tMax: number, visit: (hit: RayHit) => boolean | void, ignore?: Set<number>) {
+        if (this.faceCount === 0) return;
+        const inv = d.map(x => 1 / x);
+        const stack = [0];
+        while (stack.length > 0) {
+            const node = stack.pop();
+            if (this.rayBox(node, o, inv, tMax) === Infinity) continue;
+            if (this.left[node] >= 0) {
+                stack.push(this.right[node], this.left[node]);
+                continue;
+            }
+            for (let i = this.start[node]; i < this.start[node] + this.count[node]; i++) {
+                const t = this.order[i];
+                if (ignore?.has(t)) continue;
+                const hit = this.rayTriangle(t, o, d, tMin, tMax);
+                if (hit && visit(hit)) return;
+            }
+        }
+    }
+
+    /**
+     * Closest hit of the ray origin + t direction, t > 0.
+     * @param ignore - triangles to skip, e.g. those incident to the origin
+     */
+    raycast(origin: Vec3, direction: Vec3, tMax: number = Infinity, ignore?: Set<number>): RayHit | null {
+        let best: RayHit | null = null;
+        const o = [origin.x, origin.y, origin.z];
+        const d = [direction.x, direction.y, direction.z];
+        this.traceRay(o, d, 0, tMax, hit => {
+            if (!best || hit.t < best.t) best = hit;
+        }, ignore);
+        return best;
+    }
+
+    /**
+     * Number of triangles crossed by the ray origin + t direction, t > tMin.
+     */
+    countHits(origin: Vec3, direction: Vec3, tMin: number = 0): number {
+        let hits = 0;
+        this.traceRay([origin.x, origin.y, origin.z], [direction.x, direction.y, direction.z], tMin, Infinity, () => { hits++; });
+        return hits;
+    }
+
+    /**
+     * Whether the open segment from p to q crosses a triangle (ends excluded by a small margin).
+     * @param ignore - triangles to skip, e.g. those incident to p
+     */
+    intersectsSegment(p: Vec3, q: Vec3, ignore?: Set<number>): boolean {
+        let found = false;
+        const d = [q.x - p.x, q.y - p.y, q.z - p.z];
+        this.traceRay([p.x, p.y, p.z], d, 1e-6, 1 - 1e-6, () => (found = true), ignore);
+        return found;
+    }
+
+    /**
+     * Visit the triangles whose bounding box overlaps `box` (min x, y, z, then max x, y, z).
+     */
+    queryBox(box: Box, visit: (face: number) => void) {
+        if (this.faceCount === 0) return;
+        const overlaps = (node: number) => {
+            for (let k = 0; k < 3; k++)
+                if (this.bounds[node * 6 + k] > box[k + 3] || this.bounds[node * 6 + k + 3] < box[k]) return false;
+            return true;
+        };
+        const stack = [0];
+        while (stack.length > 0) {
+            const node = stack.pop();
+            if (!overlaps(node)) continue;
+            if (this.left[node] >= 0) {
+                stack.push(this.left[node], this.right[node]);
+                continue;
+            }
+            for (let i = this.start[node]; i < this.start[node] + this.count[node]; i++) {
+                const t = this.order[i];
+                let inside = true;
+                for (let k = 0; k < 3 && inside; k++) {
+                    const lo = Math.min(this.coord(t, 0, k), this.coord(t, 1, k), this.coord(t, 2, k));
+                    const hi = Math.max(this.coord(t, 0, k), this.coord(t, 1, k), this.coord(t, 2, k));
+                    inside = lo <= box[k + 3] && hi >= box[k];
+                }
+                if (inside) visit(t);
+            }
+        }
+    }
+
+    /** Squared distance from p to the box of a node. */
+    private boxDistance2(node: number, p: number[]): number {
+        let d2 = 0;
+        for (let k = 0; k < 3; k++) {
+            const x = Math.max(this.bounds[node * 6 + k] - p[k], 0, p[k] - this.bounds[node * 6 + k + 3]);
+            d2 += x * x;
+        }
+        return d2;
+    }
+
+    /** Closest point to p on triangle t (Ericson, Real-Time Collision Detection 5.1.5). */
+    private closestOnTriangle(t: number, p: number[]): number[] {
+        const a = [0, 1, 2].map(k => this.coord(t, 0, k));
+        const b = [0, 1, 2].map(k => this.coord(t, 1, k));
+        const c = [0, 1, 2].map(k => this.coord(t, 2, k));
+        const sub = (x: number[], y: number[]) => [x[0] - y[0], x[1] - y[1], x[2] - y[2]];
+        const dot = (x: number[], y: number[]) => x[0] * y[0] + x[1] * y[1] + x[2] * y[2];
+        const at = (v: number, w: number) => [0, 1, 2].map(k => a[k] + ab[k] * v + ac[k] * w);
+
+        const ab = sub(b, a), ac = sub(c, a), ap = sub(p, a);
+        const d1 = dot(ab, ap), d2 = dot(ac, ap);
+        if (d1 <= 0 && d2 <= 0) return a;
+        const bp = sub(p, b);
+        const d3 = dot(ab, bp), d4 = dot(ac, bp);
+        if (d3 >= 0 && d4 <= d3) return b;
+        const vc = d1 * d4 - d3 * d2;
+        if (vc <= 0 && d1 >= 0 && d3 <= 0) return at(d1 / (d1 - d3), 0);
+        const cp = sub(p, c);
+        const d5 = dot(ab, cp), d6 = dot(ac, cp);
+        if (d6 >= 0 && d5 <= d6) return c;
+        const vb = d5 * d2 - d1 * d6;
+        if (vb <= 0 && d2 >= 0 && d6 <= 0) return at(0, d2 / (d2 - d6));
+        const va = d3 * d6 - d5 * d4;
+        if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+            const w = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+            return [0, 1, 2].map(k => b[k] + (c[k] - b[k]) * w);
+        }
+        const denom = 1 / (va + vb + vc);
+        return at(vb * denom, vc * denom);
+    }
+
+    /**
+     * Closest point of the surface to p, or null for an empty mesh or when
+     * nothing lies within maxDistance.
+     */
+    closestPoint(point: Vec3, maxDistance: number = Infinity): ClosestPoint | null {
+        if (this.faceCount === 0) return null;
+        const p = [point.x, point.y, point.z];
+        let best2 = maxDistance * maxDistance;
+        let best: [number, number[]] | null = null;
+
+        const stack = [0];
+        while (stack.length > 0) {
+            const node = stack.pop();
+            if (this.boxDistance2(node, p) > best2) continue;
+            if (this.left[node] >= 0) {
+                const [l, r] = [this.left[node], this.right[node]];
+                // visit the nearer child first
+                if (this.boxDistance2(l, p) < this.boxDistance2(r, p)) stack.push(r, l);
+                else stack.push(l, r);
+                continue;
+            }
+            for (let i = this.start[node]; i < this.start[node] + this.count[node]; i++) {
+                const t = this.order[i];
+                const q = this.closestOnTriangle(t, p);
+                const d2 = (q[0] - p[0]) ** 2 + (q[1] - p[1]) ** 2 + (q[2] - p[2]) ** 2;
+                if (d2 <= best2) {
+                    best2 = d2;
+                    best = [t, q];
+                }
+            }
+        }
+        if (!best) return null;
+        return { face: best[0], point: new Vec3(best[1][0], best[1][1], best[1][2]), distance: Math.sqrt(best2) };
+    }
+
+    /** Solid angle of triangle t seen from p (Van Oosterom & Strackee). */
+    private solidAngle(t: number, p: number[]): number {
+        const P = this.P, i0 = this.F[t * 3] * 3, i1 = this.F[t * 3 + 1] * 3, i2 = this.F[t * 3 + 2] * 3;
+        const ax = P[i0] - p[0], ay = P[i0 + 1] - p[1], az = P[i0 + 2] - p[2];
+        const bx = P[i1] - p[0], by = P[i1 + 1] - p[1], bz = P[i1 + 2] - p[2];
+        const cx = P[i2] - p[0], cy = P[i2 + 1] - p[1], cz = P[i2 + 2] - p[2];
+        const la = Math.sqrt(ax * ax + ay * ay + az * az);
+        const lb = Math.sqrt(bx * bx + by * by + bz * bz);
+        const lc = Math.sqrt(cx * cx + cy * cy + cz * cz);
+        const det = ax * (by * cz - bz * cy) - ay * (bx * cz - bz * cx) + az * (bx * cy - by * cx);
+        const ab = ax * bx + ay * by + az * bz;
+        const bc = bx * cx + by * cy + bz * cz;
+        const ca = cx * ax + cy * ay + cz * az;
+        return 2 * Math.atan2(det, la * lb * lc + ab * lc + bc * la + ca * lb);
+    }
+
+    /**
+     * Generalized winding number of the surface around p: 1 inside and 0
+     * outside a closed, outward oriented mesh, and a smooth measure of
+     * insideness for meshes with holes. Nodes far from p are approximated by
+     * a dipole.
+     */
+    windingNumber(point: Vec3): number {
+        if (this.faceCount === 0) return 0;
+        const p = [point.x, point.y, point.z];
+        let w = 0;
+        const stack = [0];
+        while (stack.length > 0) {
+            const node = stack.pop();
+            const rx = this.center[node * 3] - p[0];
+            const ry = this.center[node * 3 + 1] - p[1];
+            const rz = this.center[node * 3 + 2] - p[2];
+            const dist = Math.sqrt(rx * rx + ry * ry + rz * rz);
+            if (dist > WINDING_ACCURACY * this.radius[node]) {
+                const n = this.normal;
+                w += (n[node * 3] * rx + n[node * 3 + 1] * ry + n[node * 3 + 2] * rz) / (dist * dist * dist);
+                continue;
+            }
+            if (this.left[node] >= 0) {
+                stack.push(this.left[node], this.right[node]);
+                continue;
+            }
+            for (let i = this.start[node]; i < this.start[node] + this.count[node]; i++)
+                w += this.solidAngle(this.order[i], p);
+        }
+        return w / (4 * Math.PI);
+    }
+
+    /**
+     * Whether p is inside the mesh (winding number above 1/2).
+     */
+    contains(point: Vec3): boolean {
+        return this.windingNumber(point) > 0.5;
+    }
+}
@@ -139,4 +139,42 @@ export function isClockwise(points) {
         sum += (points[j].x - points[i].x) * (points[j].y + points[i].y);
     }
     return sum > 0;
-}
\ No newline at end of file
+}
+/**
+ * Simplify an open polyline with the Ramer–Douglas–Peucker algorithm
+ * @param {Array<{x: number, y: number}>} points - Polyline vertices
+ * @param {number} tolerance - Largest distance of a dropped vertex to the simplified polyline
+ * @returns {Array<{x: number, y: number}>} Kept vertices, ends included
+ */
+export function simplifyPolyline(points, tolerance) {
+    if (points.length < 3)
+        return [...points];
+
+    const keep = new Array(points.length).fill(false);
+    keep[0] = keep[points.length - 1] = true;
+    const stack = [[0, points.length - 1]];
+
+    while (stack.length > 0) {
+        const [i, j] = stack.pop();
+        const a = points[i], b = points[j];
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const len = Math.hypot(dx, dy);
+        let farthest = -1, maxDist = tolerance;
+
+        for (let k = i + 1; k < j; k++) {
+            const p = points[k];
+            const dist = len > 0
+                ? Math.abs(dx * (p.y - a.y) - dy * (p.x - a.x)) / len
+                : Math.hypot(p.x - a.x, p.y - a.y);
+            if (dist > maxDist) {
+                maxDist = dist;
+                farthest = k;
+            }
+        }
+        if (farthest >= 0) {
+            keep[farthest] = true;
+            stack.push([i, farthest], [farthest, j]);
+        }
+    }
+    return points.filter((_, i) => keep[i]);
+}
@@ -1,8 +1,8 @@
-import * as LinearAlgebra from '@/lib/linalg/linear-algebra.js';
 import Queue from './misc';
-import { buildLaplacianTopology, smooth } from './solver';
+import { buildLaplacianTopology, SolverContext } from './solver';
 import { Vec2, Vec3 } from '@/interface';
-let Vector = LinearAlgebra.Vector;
+import { BVH } from './bvh';
+import { HalfEdgeMesh } from './halfedge';
 
 /**
  * Project a 3D vertex onto a plane and get its 2D coordinates in the frame.
@@ -66,17 +66,15 @@ export function planeToFrame(plane) {
     return { origin, basisU, basisV };
 }
 
-var Graph = require("graphlib").Graph;
-
 const EPS = 1e-8;
 
 /**
  * Möller–Trumbore ray-triangle intersection.
- * @param {Vector} rayOrigin - Ray origin point
- * @param {Vector} rayDir - Ray direction (need not be unit)
- * @param {Vector} v0 - Triangle vertex 0
- * @param {Vector} v1 - Triangle vertex 1
- * @param {Vector} v2 - Triangle vertex 2
+ * @param {Vec3} rayOrigin - Ray origin point
+ * @param {Vec3} rayDir - Ray direction (need not be unit)
+ * @param {Vec3} v0 - Triangle vertex 0
+ * @param {Vec3} v1 - Triangle vertex 1
+ * @param {Vec3} v2 - Triangle vertex 2
  * @returns {{ t: number, u: number, v: number } | null} Hit with barycentric u,v and distance t, or null if no hit
  */
 export function rayTriangleIntersect(rayOrigin, rayDir, v0, v1, v2) {
@@ -135,7 +133,7 @@ export function runNormalEstimation(points, iterations = 20) {
 
 export function runLaplacianSmooth(quantity, fixedIndices, connectivity, alpha) {
     let n = quantity.length;
-    let lap = new Array(n).fill(new Vector(0, 0, 0));
+    let lap = new Array(n).fill(new Vec3(0, 0, 0));
     let fix = new Array(n).fill(false);
 
     for (let i of fixedIndices)
@@ -161,15 +159,8 @@ export function runFaceOrientation(vertices, faces) {
     let c = vertices[faces[0][2]];
     let raydir = b.minus(a).cross(c.minus(a)).unit();
     let origin = a.plus(raydir.times(1e-6));
-    let inward = false;
-    for (let i = 1; i < faces.length; i++) {
-        let v0 = vertices[faces[i][0]];
-        let v1 = vertices[faces[i][1]];
-        let v2 = vertices[faces[i][2]];
-        let hit = rayTriangleIntersect(origin, raydir, v0, v1, v2);
-        if (hit && hit.t > 1e-6)
-            inward = !inward;
-    }
+    // a ray along the normal of face 0 crosses the surface an odd number of times if it points inward
+    let inward = new BVH([vertices, faces]).countHits(origin, raydir, 1e-6) % 2 === 1;
     if (inward) {
         faces[0] = faces[0].reverse();
         raydir = raydir.times(-1);
@@ -229,202 +220,167 @@ export function runLeastSquaresMesh(V, F, constraints, factor = 1) {
     let lap = buildLaplacianTopology([V, F]);
     let smoothness = Math.log(factor);
 
-    let results = ['x', 'y', 'z'].map(axis => {
-        let weak = constraints.map(j => [j, V[j][axis]]);
-        return smooth(lap, weak, [], smoothness);
-    });
+    let weak = constraints.map(j => [j, [V[j].x, V[j].y, V[j].z]]);
+    let result = new SolverContext().smooth(lap, weak, [], smoothness);
 
-    for (let i = 0; i < V.length; i++) {
-        V[i].x = results[0].get(i);
-        V[i].y = results[1].get(i);
-        V[i].z = results[2].get(i);
-    }
+    for (let i = 0; i < V.length; i++)
+        [V[i].x, V[i].y, V[i].z] = result.get(i);
 }
 export function runIsometricRemesh(V, F, iterations = 6, length = -1) {
     for (let t = 0; t < iterations; t++) {
-        let g = new Graph();
-
-        for (let i = 0; i < V.length; i++)
-            g.setNode(i, V[i]);
-        
-        function setFace(a, b, c) {
-            g.setEdge(a, b, String(c));
-            g.setEdge(b, c, String(a));
-            g.setEdge(c, a, String(b));
-        }
-        for (let f of F)
-            setFace(f[0], f[1], f[2]);
-    
+        let mesh = new HalfEdgeMesh([V, F]);
+        let edges = mesh.edges();
         let L = 0;
-        let Q = new Queue();
 
-        for (let e of g.edges()) {
-            L += length < 0 ? g.node(e.v).minus(g.node(e.w)).norm() : length;
-            Q.push([e.v, e.w]);
-        }
-        
-        L /= g.edgeCount();
+        for (let h of edges)
+            L += length < 0 ? mesh.positions[mesh.source(h)].minus(mesh.positions[mesh.target(h)]).norm() : length;
+
+        L /= edges.length;
 
         let lowerBound = L*4/5;
         let upperBound = L*4/3;
-        let vertIdx = g.nodes().length;
+        let edgeLength = h => mesh.positions[mesh.source(h)].minus(mesh.positions[mesh.target(h)]).norm();
+        let Q = new Queue();
+
+        // split long edges
+        for (let h of edges)
+            Q.push(h);
 
         while (Q.size() > 0) {
-            let [u, v] = Q.pop();
-            if (!g.hasEdge(u, v))
-                continue;
-            
-            let p0 = g.node(u);
-            let p1 = g.node(v);
-            let d = p0.minus(p1).norm();
-            if (d > upperBound) {
-                let x = String(vertIdx++);
-                let y = g.edge(u, v);
-                let z = g.edge(v, u);
-
-                setFace(u, x, y);
-                setFace(x, v, y);
-                setFace(u, z, x);
-                setFace(x, z, v);
-
-                g.setNode(x, p0.plus(p1).times(0.5));
-                g.removeEdge(u, v);
-                g.removeEdge(v, u);
-
-                Q.push([x, u]);
-                Q.push([x, v]);
-                Q.push([x, y]);
-                Q.push([x, z]);
+            let h = Q.pop();
+            if (edgeLength(h) > upperBound) {
+                let x = mesh.split(h);
+                for (let e of mesh.outgoingEdges(x))
+                    Q.push(e);
             }
         }
-        for (let e of g.edges()) if (e.v < e.w)
-            Q.push([e.v, e.w]);
+        // collapse short edges
+        for (let h of mesh.edges())
+            Q.push(h);
 
         while (Q.size() > 0) {
-            let [u, v] = Q.pop();
-            if (!g.hasNode(u))  continue;
-            if (!g.hasNode(v))  continue;
-            if (!g.hasEdge(u, v))   continue;
-
-            let p0 = g.node(u);
-            let p1 = g.node(v);
-            let d = p0.minus(p1).norm();
-
-            if (d < lowerBound) {
-                let commonNeighborCount = 0;
-                let canCollapse = true;
-
-                for (let e of g.outEdges(u))
-                    if (g.hasEdge(v, e.w))
-                        commonNeighborCount++;
-                
-                if (commonNeighborCount > 2)
-                    continue;
-                
-                for (let e of g.outEdges(v)) {
-                    let x = e.w;
-                    let y = g.edge(x, v);
-                    if (x === u)    continue;
-                    if (y === u)    continue;
-
-                    setFace(x, u, y);
-                }
-                g.removeNode(v);
-                g.setNode(u, p0.plus(p1).times(0.5));
+            let h = Q.pop();
+            if (mesh.source(h) < 0)
+                continue;
 
-                for (let e of g.outEdges(u))
-                    Q.push([u, e.w]);
-            }
-        }
-        // // valence optimization
-        let deg = new Map();
-        Q.data = []
-        Q.head = Q.tail = 0;
-
-        for (let e of g.edges()) if (e.v < e.w) {
-            Q.push([e.v, e.w]);
-            deg.set(e.v, (deg.get(e.v) || 0) + 1);
-            deg.set(e.w, (deg.get(e.w) || 0) + 1);
+            let u = mesh.source(h);
+            let v = mesh.target(h);
+            if (edgeLength(h) >= lowerBound)
+                continue;
+
+            // the merged vertex should not create long edges again
+            let mid = mesh.positions[u].plus(mesh.positions[v]).times(0.5);
+            let neighbours = [...mesh.neighbours(u), ...mesh.neighbours(v)];
+            if (neighbours.some(w => mid.minus(mesh.positions[w]).norm() > upperBound))
+                continue;
+
+            if (mesh.collapse(h, mid))
+                for (let e of mesh.outgoingEdges(u))
+                    Q.push(e);
         }
+        // valence optimization, towards 6 inside and 4 on the boundary
+        let excess = v => mesh.degree(v) - (mesh.isBoundaryVertex(v) ? 4 : 6);
 
-        while (!Q.empty()) {
-            let [u, v] = Q.pop();
-            if (!g.hasEdge(u, v))
+        for (let h of mesh.edges())
+            Q.push(h);
+
+        while (Q.size() > 0) {
+            let h = Q.pop();
+            if (mesh.source(h) < 0 || mesh.isBoundaryEdge(h))
                 continue;
 
-            let x = g.edge(u, v);
-            let y = g.edge(v, u);
+            let u = mesh.source(h);
+            let v = mesh.target(h);
+            let x = mesh.source(mesh.prev(h));
+            let y = mesh.source(mesh.prev(mesh.twin(h)));
             let dev = (
-                (deg.get(u) > 6 ? 1 : -1) +
-                (deg.get(v) > 6 ? 1 : -1) +
-                (deg.get(x) < 6 ? 1 : -1) +
-                (deg.get(y) < 6 ? 1 : -1)
+                (excess(u) > 0 ? 1 : -1) +
+                (excess(v) > 0 ? 1 : -1) +
+                (excess(x) < 0 ? 1 : -1) +
+                (excess(y) < 0 ? 1 : -1)
             );
-            if (dev <= 0)
+            if (dev <= 0 || !mesh.flip(h))
                 continue;
 
-            g.removeEdge(u, v);
-            g.removeEdge(v, u);
-
-            deg.set(u, deg.get(u) - 1);
-            deg.set(v, deg.get(v) - 1);
-            deg.set(x, deg.get(x) + 1);
-            deg.set(y, deg.get(y) + 1);
-
-            setFace(u, y, x);
-            setFace(v, x, y);
-
-            let nodes = [u, v, x, y];
-            for (let n of nodes)
-            for (let e of g.outEdges(n))
-                if (!nodes.includes(e.w))
-                    Q.push([n, e.w]);
-            
-            Q.push([x, y]);
-            Q.push([u, y]);
-            Q.push([y, v]);
-            Q.push([v, x]);
-            Q.push([x, u]);
+            let t = mesh.twin(h);
+            for (let e of [mesh.next(h), mesh.prev(h), mesh.next(t), mesh.prev(t)])
+                Q.push(e);
         }
-        let idxMap = new Map();
-        V.length = 0;
-        F.length = 0;
-
-        for (let u of g.nodes()) {
-            idxMap.set(u, V.length);
-            let outDeg = 0;
+        // tangential relaxation, keeping the boundary in place
+        let positions = mesh.vertices().map(u => {
+            let p = mesh.positions[u];
+            if (mesh.isBoundaryVertex(u))
+                return [u, p];
 
-            let p = g.node(u);
-            let C = new Vector(0, 0, 0);
-            let N = new Vector(0, 0, 0);
+            let C = new Vec3(0, 0, 0);
+            let N = new Vec3(0, 0, 0);
+            let ring = mesh.outgoingEdges(u);
 
-            for (let e of g.outEdges(u)) {
-                let a = g.node(e.w);
-                let b = g.node(g.edge(u, e.w));
+            for (let h of ring) {
+                let a = mesh.positions[mesh.target(h)];
+                let b = mesh.positions[mesh.source(mesh.prev(h))];
 
                 N.incrementBy(a.minus(p).cross(b.minus(p)));
                 C.incrementBy(a);
-                outDeg++;
             }
-            if (outDeg > 0) {
+            if (ring.length > 0) {
                 N.normalize();
-                C.divideBy(outDeg);
+                C.divideBy(ring.length);
                 let v = C.minus(p);
                 v = v.minus(N.times(v.dot(N)));
                 p = p.plus(v);
             }
-            V.push(p);
-        }
-        for (let u of g.nodes())
-        for (let e of g.outEdges(u)) {
-            let v = e.w;
-            let w = g.edge(u, v);
-            if (u < v && u < w)
-                F.push([
-                    idxMap.get(u),
-                    idxMap.get(v),
-                    idxMap.get(w)
-                ]);
-        }
+            return [u, p];
+        });
+        for (let [u, p] of positions)
+            mesh.positions[u] = p;
+
+        let [newV, newF] = mesh.toMeshData();
+        V.length = 0;
+        F.length = 0;
+        V.push(...newV);
+        F.push(...newF);
+    }
+}
+/**
+ * Merge vertices closer than a tolerance relative to the bounding box diagonal.
+ * The first vertex of every cluster is kept.
+ * @param {Vec3[]} V - vertex positions
+ * @param {number} tolerance - merge distance as a fraction of the bounding box diagonal
+ * @returns {[Vec3[], number[]]} the kept vertices and, for every input vertex, its index among them
+ */
+export function weldVertices(V, tolerance = 1e-6) {
+    let lo = new Vec3(Infinity, Infinity, Infinity);
+    let hi = new Vec3(-Infinity, -Infinity, -Infinity);
+    for (let v of V) {
+        lo = new Vec3(Math.min(lo.x, v.x), Math.min(lo.y, v.y), Math.min(lo.z, v.z));
+        hi = new Vec3(Math.max(hi.x, v.x), Math.max(hi.y, v.y), Math.max(hi.z, v.z));
     }
+    const eps = V.length > 0 ? Math.max(hi.minus(lo).norm() * tolerance, 1e-12) : 1;
+    const cells = new Map();
+    const welded = [];
+    const remap = new Array(V.length);
+
+    // look up the neighbouring cells too, so that close points straddling a cell border still merge
+    V.forEach((v, i) => {
+        const cx = Math.floor(v.x / eps), cy = Math.floor(v.y / eps), cz = Math.floor(v.z / eps);
+        let found = -1;
+        for (let dx = -1; dx <= 1 && found < 0; dx++)
+        for (let dy = -1; dy <= 1 && found < 0; dy++)
+        for (let dz = -1; dz <= 1 && found < 0; dz++)
+            for (let j of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) || [])
+                if (welded[j].minus(v).norm() <= eps) {
+                    found = j;
+                    break;
+                }
+        if (found < 0) {
+            found = welded.length;
+            welded.push(v);
+            const key = `${cx},${cy},${cz}`;
+            if (!cells.has(key)) cells.set(key, []);
+            cells.get(key).push(found);
+        }
+        remap[i] = found;
+    });
+    return [welded, remap];
 }
@@ -0,0 +1,241 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { Vec3, SkinnedMeshData } from '@/interface';
+import { deepCopy } from '@/utils/misc';
+import * as geo3d from '@/utils/geo3d';
+import { getAnimations, buildClip } from '@/utils/animation';
+
+export interface ImportedMesh {
+    name: string;
+    data: SkinnedMeshData;
+}
+
+/**
+ * Build the nodes written for a skinned mesh: the mesh itself with an identity
+ * transform (glTF ignores the transform of skinned mesh nodes) and a sibling
+ * armature node carrying the world transform of the mesh, with the joint
+ * hierarchy below it. Both are scene roots, as validators expect.
+ * Only the bone connectivity is kept in userData (glTF `extras`), since the
+ * joint hierarchy alone cannot express bones that close a loop.
+ * The keyframe animations of the mesh become clips on the copied bones.
+ */
+const exportNodes = (obj: THREE.SkinnedMesh): { nodes: THREE.Object3D[], clips: THREE.AnimationClip[] } => {
+    obj.updateMatrixWorld(true);
+
+    const armature = new THREE.Group();
+    const mesh = SkeletonUtils.clone(obj) as THREE.SkinnedMesh;
+    armature.name = obj.name || 'RigMesh';
+    obj.matrixWorld.decompose(armature.position, armature.quaternion, armature.scale);
+
+    mesh.name = `${armature.name}_mesh`;
+    mesh.position.set(0, 0, 0);
+    mesh.quaternion.identity();
+    mesh.scale.set(1, 1, 1);
+    mesh.userData = obj.userData.bones ? { bones: deepCopy(obj.userData.bones) } : {};
+
+    for (const bone of mesh.skeleton.bones)
+        if (!(bone.parent instanceof THREE.Bone))
+            armature.add(bone);
+
+    mesh.updateMatrixWorld(true);
+    armature.updateMatrixWorld(true);
+    const clips = getAnimations(obj)
+        .filter(animation => animation.keyframes.length > 0)
+        .map(animation => buildClip(animation, mesh.skeleton.bones));
+    return { nodes: [mesh, armature], clips };
+}
+
+/**
+ * Export objects as glTF 2.0. Skinned meshes are written with positions,
+ * normals, indices, their joint hierarchy in the current pose, inverse bind
+ * matrices, the 4-influence JOINTS_0 / WEIGHTS_0 attributes and their
+ * keyframe animations. Other objects are exported as they are.
+ * @param objects - scene objects to export, usually SkinnedMeshes
+ * @param binary - produce a single GLB buffer instead of glTF JSON with embedded buffers
+ */
+export const exportGLTF = (objects: THREE.Object3D[], binary: boolean = true): Promise<ArrayBuffer | object> => {
+    const exported = objects.map(obj => obj instanceof THREE.SkinnedMesh ? exportNodes(obj) : { nodes: [obj], clips: [] });
+
+    // the exporter binds animation tracks below its first input only: hand it
+    // a single scene, filled without reparenting (as it does for object lists)
+    const scene = new THREE.Scene();
+    scene.name = 'AuxScene';
+    scene.children.push(...exported.flatMap(e => e.nodes));
+    const animations = exported.flatMap(e => e.clips);
+    return new GLTFExporter().parseAsync(scene, { binary, onlyVisible: true, animations });
+}
+
+/**
+ * Export objects and wrap the result in a Blob ready for download.
+ * @see exportGLTF
+ */
+export const exportGLTFBlob = async (objects: THREE.Object3D[], binary: boolean = true): Promise<Blob> => {
+    const result = await exportGLTF(objects, binary);
+    if (result instanceof ArrayBuffer)
+        return new Blob([result], { type: 'model/gltf-binary' });
+    else
+        return new Blob([JSON.stringify(result)], { type: 'model/gltf+json' });
+}
+
+/**
+ * Distance from p to the segment [a, b].
+ */
+const segmentDistance = (p: Vec3, a: Vec3, b: Vec3): number => {
+    const ab = b.minus(a);
+    const lenSq = ab.norm2();
+    const t = lenSq < 1e-12 ? 0 : Math.max(0, Math.min(1, p.minus(a).dot(ab) / lenSq));
+    return p.minus(a.plus(ab.times(t))).norm();
+}
+
+/**
+ * Bone pairs of a skeleton: taken from the `bones` extras written by
+ * {@link exportGLTF} when present, otherwise one bone from every joint to its
+ * parent joint.
+ */
+const skeletonBones = (mesh: THREE.Mesh, skeleton: THREE.Skeleton | null): [number, number][] => {
+    if (!skeleton)
+        return [];
+
+    const n = skeleton.bones.length;
+    const extras = mesh.userData.bones;
+    if (Array.isArray(extras) && extras.every(b => Array.isArray(b) && b.length === 2 && b.every(i => Number.isInteger(i) && i >= 0 && i < n)))
+        return extras.map(([i0, i1]) => [i0, i1] as [number, number]);
+
+    const index = new Map<THREE.Object3D, number>(skeleton.bones.map((bone, i) => [bone, i]));
+    const bones: [number, number][] = [];
+    skeleton.bones.forEach((bone, i) => {
+        const parent = index.get(bone.parent);
+        if (parent !== undefined && parent !== i)
+            bones.push([parent, i]);
+    });
+    return bones;
+}
+
+/**
+ * Convert every mesh below root into plain data, in world space and in the
+ * current pose. Skinned meshes sharing a skeleton (the primitives of one glTF
+ * mesh) are merged. Vertices split along normal or UV seams are welded since
+ * the mesh operators need connected surfaces.
+ *
+ * Joint weights are turned into bone weights by giving the weight of a joint
+ * to the closest bone incident to it; {@link setSkinWeights} splits them back
+ * onto the joints. Static meshes get no bones, so that
+ * {@link skinnedMeshFromData} binds them to a single joint.
+ */
+export const gltfToMeshData = (root: THREE.Object3D): ImportedMesh[] => {
+    root.updateMatrixWorld(true);
+
+    const groups = new Map<THREE.Object3D | THREE.Skeleton, THREE.Mesh[]>();
+    root.traverse(obj => {
+        if (!(obj instanceof THREE.Mesh) || !obj.geometry?.getAttribute('position'))
+            return;
+        const key = obj instanceof THREE.SkinnedMesh && obj.skeleton ? obj.skeleton : obj;
+        if (!groups.has(key))
+            groups.set(key, []);
+        groups.get(key).push(obj);
+    });
+
+    const result: ImportedMesh[] = [];
+    for (const [key, meshes] of groups) {
+        const skeleton = key instanceof THREE.Skeleton ? key : null;
+        const positions: Vec3[] = [];
+        const jointWeights: Map<number, number>[] = [];
+        const faces: number[][] = [];
+
+        for (const mesh of meshes) {
+            const geometry = mesh.geometry;
+            const posAttr = geometry.getAttribute('position');
+            const skinIndex = skeleton && geometry.getAttribute('skinIndex');
+            const skinWeight = skeleton && geometry.getAttribute('skinWeight');
+            const offset = positions.length;
+
+            for (let i = 0; i < posAttr.count; i++) {
+                const v = new THREE.Vector3().fromBufferAttribute(posAttr, i);
+                const weights = new Map<number, number>();
+
+                if (skeleton && skinIndex && skinWeight) {
+                    (mesh as THREE.SkinnedMesh).applyBoneTransform(i, v);
+                    for (let k = 0; k < skinIndex.itemSize; k++) {
+                        const j = skinIndex.getComponent(i, k);
+                        const w = skinWeight.getComponent(i, k);
+                        if (w > 0) weights.set(j, (weights.get(j) ?? 0) + w);
+                    }
+                }
+                v.applyMatrix4(mesh.matrixWorld);
+                positions.push(new Vec3(v.x, v.y, v.z));
+                jointWeights.push(weights);
+            }
+            const index = geometry.getIndex();
+            const count = index ? index.count : posAttr.count;
+            for (let i = 0; i + 2 < count; i += 3) {
+                const f = [0, 1, 2].map(k => offset + (index ? index.getX(i + k) : i + k));
+                faces.push(f);
+            }
+        }
+
+        // weld coincident vertices, keeping the weights of the first one
+        const [V, remap] = geo3d.weldVertices(positions) as [Vec3[], number[]];
+        const W: Map<number, number>[] = new Array(V.length);
+        remap.forEach((j, i) => W[j] ??= jointWeights[i]);
+        const F = faces
+            .map(f => f.map(i => remap[i]))
+            .filter(([a, b, c]) => a !== b && b !== c && c !== a);
+
+        const J: Vec3[] = [];
+        const B = skeletonBones(meshes[0], skeleton);
+        skeleton?.bones.forEach(bone => {
+            const p = bone.getWorldPosition(new THREE.Vector3());
+            J.push(new Vec3(p.x, p.y, p.z));
+        });
+
+        const incident: number[][] = J.map(() => []);
+        B.forEach(([i0, i1], k) => {
+            incident[i0].push(k);
+            incident[i1].push(k);
+        });
+        const skinWeights: number[][] = [];
+        const skinIndices: number[][] = [];
+
+        V.forEach((p, i) => {
+            const weights = new Map<number, number>();
+            const closest = (candidates: number[]) => {
+                let best = -1, bestDist = Infinity;
+                for (const k of candidates) {
+                    const d = segmentDistance(p, J[B[k][0]], J[B[k][1]]);
+                    if (d < bestDist) {
+                        best = k;
+                        bestDist = d;
+                    }
+                }
+                return best;
+            }
+            for (const [j, w] of W[i]) {
+                const k = closest(incident[j] ?? []);
+                if (k >= 0) weights.set(k, (weights.get(k) ?? 0) + w);
+            }
+            if (weights.size === 0 && B.length > 0)
+                weights.set(closest(B.map((_, k) => k)), 1);
+
+            const total = [...weights.values()].reduce((a, b) => a + b, 0);
+            skinIndices.push([...weights.keys()]);
+            skinWeights.push([...weights.values()].map(w => w / total));
+        });
+
+        result.push({
+            name: meshes[0].name,
+            data: { mesh: [V, F], skel: [B.length > 0 ? J : [], B], skinWeights, skinIndices },
+        });
+    }
+    return result;
+}
+
+/**
+ * Parse a glTF (JSON with embedded buffers) or GLB file.
+ * @see gltfToMeshData
+ */
+export const importGLTF = async (data: ArrayBuffer | string): Promise<ImportedMesh[]> => {
+    const gltf = await new GLTFLoader().parseAsync(data, '');
+    return gltfToMeshData(gltf.scene);
+}
@@ -0,0 +1,378 @@
+/**
+ * Half-edge structure of a triangle mesh.
+ *
+ * Every face owns three half-edges, and every edge on the boundary also has a
+ * half-edge outside the mesh (face -1), linked in loops around each hole, so
+ * that next, prev and twin are always defined. Vertices keep one outgoing
+ * half-edge, the boundary one for vertices on a hole, so the one-ring of a
+ * vertex is walked in O(degree) and adjacency queries never build a graph.
+ *
+ * Elements removed by collapses keep their index and are skipped by the
+ * iterators; toMeshData compacts the live ones. Vertices are assumed to be
+ * manifold: a vertex joining several fans only exposes one of them.
+ */
+
+import { Vec3, MeshData } from '@/interface';
+
+export class HalfEdgeMesh {
+    /** Position of every vertex, by index */
+    readonly positions: Vec3[];
+
+    private origin: number[] = [];
+    private nextEdge: number[] = [];
+    private prevEdge: number[] = [];
+    private twinEdge: number[] = [];
+    private faceOf: number[] = [];
+    private outgoing: number[] = [];
+    private faceEdge: number[] = [];
+    private removedVertex: boolean[] = [];
+
+    constructor(mesh: MeshData) {
+        const [V, F] = mesh;
+        const n = V.length;
+        this.positions = [...V];
+        this.outgoing = new Array(n).fill(-1);
+        this.removedVertex = new Array(n).fill(false);
+
+        const directed = new Map<number, number>();
+        F.forEach((f, fi) => {
+            const h = this.origin.length;
+            this.faceEdge.push(h);
+            for (let k = 0; k < 3; k++) {
+                this.origin.push(f[k]);
+                this.faceOf.push(fi);
+                this.twinEdge.push(-1);
+                this.nextEdge.push(h + (k + 1) % 3);
+                this.prevEdge.push(h + (k + 2) % 3);
+                if (this.outgoing[f[k]] < 0) this.outgoing[f[k]] = h + k;
+            }
+        });
+        // pair opposite half-edges; a half-edge repeated by a non-manifold edge stays open
+        const faceEdges = this.origin.length;
+        for (let h = 0; h < faceEdges; h++) {
+            const u = this.origin[h], v = this.target(h);
+            const t = directed.get(v * n + u);
+            if (t !== undefined && this.twinEdge[t] < 0) {
+                this.pair(h, t);
+            } else if (!directed.has(u * n + v)) {
+                directed.set(u * n + v, h);
+            }
+        }
+        // boundary half-edges, running against the faces around each hole
+        for (let h = 0; h < faceEdges; h++) if (this.twinEdge[h] < 0) {
+            this.pair(h, this.addEdge(this.target(h), -1));
+        }
+        for (let b = faceEdges; b < this.origin.length; b++) {
+            // the boundary half-edge leaving the end of b, found by turning around it through the fan
+            let h = this.twinEdge[b];
+            let t = this.twinEdge[this.prevEdge[h]];
+            while (this.faceOf[t] >= 0) {
+                h = t;
+                t = this.twinEdge[this.prevEdge[h]];
+            }
+            this.link(b, t);
+            this.outgoing[this.origin[b]] = b;
+        }
+    }
+
+    /** Number of vertex slots, including removed ones */
+    vertexCount(): number {
+        return this.positions.length;
+    }
+
+    /** Indices of the live vertices */
+    vertices(): number[] {
+        const result: number[] = [];
+        this.removedVertex.forEach((removed, v) => { if (!removed) result.push(v); });
+        return result;
+    }
+
+    /** Indices of the live faces */
+    faces(): number[] {
+        const result: number[] = [];
+        this.faceEdge.forEach((h, f) => { if (h >= 0) result.push(f); });
+        return result;
+    }
+
+    faceVertices(f: number): [number, number, number] {
+        const h = this.faceEdge[f];
+        return [this.origin[h], this.origin[this.nextEdge[h]], this.origin[this.prevEdge[h]]];
+    }
+
+    /** Indices of the live edges, one half-edge each */
+    edges(): number[] {
+        const result: number[] = [];
+        this.origin.forEach((v, h) => { if (v >= 0 && h < this.twinEdge[h]) result.push(h); });
+        return result;
+    }
+
+    source(h: number): number {
+        return this.origin[h];
+    }
+    target(h: number): number {
+        return this.origin[this.nextEdge[h]];
+    }
+    next(h: number): number {
+        return this.nextEdge[h];
+    }
+    prev(h: number): number {
+        return this.prevEdge[h];
+    }
+    twin(h: number): number {
+        return this.twinEdge[h];
+    }
+    /** Face on the left of h, -1 outside the mesh */
+    face(h: number): number {
+        return this.faceOf[h];
+    }
+
+    /** Half-edges leaving v, turning around it */
+    outgoingEdges(v: number): number[] {
+        const start = this.outgoing[v];
+        const result: number[] = [];
+        if (start < 0) return result;
+        let h = start;
+        do {
+            result.push(h);
+            h = this.nextEdge[this.twinEdge[h]];
+        } while (h !== start);
+        return result;
+    }
+
+    neighbours(v: number): number[] {
+        return this.outgoingEdges(v).map(h => this.target(h));
+    }
+
+    degree(v: number): number {
+        return this.outgoingEdges(v).length;
+    }
+
+    /** Half-edge from u to v, -1 if they are not adjacent */
+    halfEdge(u: number, v: number): number {
+        return this.outgoingEdges(u).find(h => this.target(h) === v) ?? -1;
+    }
+
+    /** Third vertex of the face on the left of u -> v, -1 if there is none */
+    opposite(u: number, v: number): number {
+        const h = this.halfEdge(u, v);
+        return h < 0 || this.faceOf[h] < 0 ? -1 : this.origin[this.prevEdge[h]];
+    }
+
+    isBoundaryEdge(h: number): boolean {
+        return this.faceOf[h] < 0 || this.faceOf[this.twinEdge[h]] < 0;
+    }
+
+    isBoundaryVertex(v: number): boolean {
+        return this.outgoing[v] >= 0 && this.faceOf[this.outgoing[v]] < 0;
+    }
+
+    /**
+     * Vertices of every hole, in the order of the boundary half-edges, i.e.
+     * against the orientation of the faces along it.
+     */
+    boundaryLoops(): number[][] {
+        const visited = new Set<number>();
+        const loops: number[][] = [];
+        this.faceOf.forEach((f, b) => {
+            if (f >= 0 || this.origin[b] < 0 || visited.has(b)) return;
+            const loop: number[] = [];
+            for (let h = b; !visited.has(h); h = this.nextEdge[h]) {
+                visited.add(h);
+                loop.push(this.origin[h]);
+            }
+            loops.push(loop);
+        });
+        return loops;
+    }
+
+    /**
+     * Replaces the edge of h by the other diagonal of its two faces. Fails on
+     * boundary edges, when the diagonal already exists or when an end vertex
+     * would be left with fewer than three edges.
+     */
+    flip(h: number): boolean {
+        const t = this.twinEdge[h];
+        if (this.isBoundaryEdge(h)) return false;
+        const [h1, h2] = [this.nextEdge[h], this.prevEdge[h]];
+        const [t1, t2] = [this.nextEdge[t], this.prevEdge[t]];
+        const [a, b] = [this.origin[h], this.origin[t]];
+        const [c, d] = [this.origin[h2], this.origin[t2]];
+        if (c === d || this.halfEdge(c, d) >= 0 || this.degree(a) <= 3 || this.degree(b) <= 3) return false;
+
+        const [f0, f1] = [this.faceOf[h], this.faceOf[t]];
+        this.origin[h] = d;
+        this.origin[t] = c;
+        this.link(h, h2), this.link(h2, t1), this.link(t1, h);
+        this.link(t, t2), this.link(t2, h1), this.link(h1, t);
+        this.faceOf[t1] = f0;
+        this.faceOf[h1] = f1;
+        this.faceEdge[f0] = h;
+        this.faceEdge[f1] = t;
+        if (this.outgoing[a] === h) this.outgoing[a] = t1;
+        if (this.outgoing[b] === t) this.outgoing[b] = h1;
+        return true;
+    }
+
+    /**
+     * Inserts a vertex on the edge of h, at p or its midpoint, splitting the
+     * faces on both sides. Returns the new vertex.
+     */
+    split(h: number, p?: Vec3): number {
+        if (this.faceOf[h] < 0) h = this.twinEdge[h];
+        const t = this.twinEdge[h];
+        const [a, b] = [this.origin[h], this.origin[t]];
+        const m = this.positions.length;
+        this.positions.push(p ?? this.positions[a].plus(this.positions[b]).times(0.5));
+        this.removedVertex.push(false);
+        this.outgoing.push(t);
+
+        // h becomes a -> m and t becomes m -> a
+        this.origin[t] = m;
+        const mb = this.addEdge(m, -1);
+        const bm = this.addEdge(b, -1);
+        this.pair(mb, bm);
+        {
+            // (a, b, c) becomes (a, m, c) and (m, b, c)
+            const [h1, h2] = [this.nextEdge[h], this.prevEdge[h]];
+            const f = this.faceOf[h];
+            const g = this.addFace(mb);
+            const mc = this.addEdge(m, f);
+            const cm = this.addEdge(this.origin[h2], g);
+            this.pair(mc, cm);
+            this.link(h, mc), this.link(mc, h2), this.link(h2, h);
+            this.link(mb, h1), this.link(h1, cm), this.link(cm, mb);
+            this.faceOf[h1] = g;
+            this.faceEdge[f] = h;
+        }
+        if (this.faceOf[t] >= 0) {
+            // (b, a, d) becomes (m, a, d) and (b, m, d)
+            const [t1, t2] = [this.nextEdge[t], this.prevEdge[t]];
+            const f = this.faceOf[t];
+            const g = this.addFace(bm);
+            const dm = this.addEdge(this.origin[t2], f);
+            const md = this.addEdge(m, g);
+            this.pair(dm, md);
+            this.link(t, t1), this.link(t1, dm), this.link(dm, t);
+            this.link(bm, md), this.link(md, t2), this.link(t2, bm);
+            this.faceOf[t2] = g;
+            this.faceEdge[f] = t;
+        } else {
+            this.link(this.prevEdge[t], bm);
+            this.link(bm, t);
+        }
+        if (this.outgoing[b] === t) this.outgoing[b] = bm;
+        return m;
+    }
+
+    /**
+     * Whether the edge of h can be collapsed while keeping a manifold mesh:
+     * its end vertices share no neighbour but the tips of its faces, it does
+     * not join two parts of the boundary through the interior, and no face
+     * or vertex around it degenerates.
+     */
+    canCollapse(h: number): boolean {
+        const t = this.twinEdge[h];
+        const [a, b] = [this.origin[h], this.origin[t]];
+        const tips = [h, t].filter(e => this.faceOf[e] >= 0).map(e => this.origin[this.prevEdge[e]]);
+        const shared = this.neighbours(a).filter(v => this.neighbours(b).includes(v));
+        if (shared.length !== tips.length || !shared.every(v => tips.includes(v))) return false;
+        if (!this.isBoundaryEdge(h) && this.isBoundaryVertex(a) && this.isBoundaryVertex(b)) return false;
+        for (const e of [h, t]) if (this.faceOf[e] >= 0) {
+            // a face with two boundary sides besides e would leave a dangling edge
+            const sides = [this.nextEdge[e], this.prevEdge[e]];
+            if (sides.every(s => this.faceOf[this.twinEdge[s]] < 0)) return false;
+            const tip = this.origin[this.prevEdge[e]];
+            if (!this.isBoundaryVertex(tip) && this.degree(tip) <= 3) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Merges the target of h into its source, moved to p or the midpoint of
+     * the edge, and removes the faces of the edge. Returns false, leaving the
+     * mesh unchanged, when canCollapse fails.
+     */
+    collapse(h: number, p?: Vec3): boolean {
+        if (!this.canCollapse(h)) return false;
+        const t = this.twinEdge[h];
+        const [a, b] = [this.origin[h], this.origin[t]];
+        const ring = this.outgoingEdges(b);
+        const kept: number[] = [];
+
+        this.positions[a] = p ?? this.positions[a].plus(this.positions[b]).times(0.5);
+        for (const e of [h, t]) {
+            if (this.faceOf[e] < 0) {
+                this.link(this.prevEdge[e], this.nextEdge[e]);
+                continue;
+            }
+            // the two other sides of the face become one edge
+            const x1 = this.twinEdge[this.nextEdge[e]];
+            const x2 = this.twinEdge[this.prevEdge[e]];
+            this.pair(x1, x2);
+            kept.push(x1, x2);
+            this.faceEdge[this.faceOf[e]] = -1;
+            this.removeEdge(this.nextEdge[e]);
+            this.removeEdge(this.prevEdge[e]);
+        }
+        this.removeEdge(h);
+        this.removeEdge(t);
+        for (const e of ring) if (this.origin[e] === b) this.origin[e] = a;
+
+        this.removedVertex[b] = true;
+        this.outgoing[b] = -1;
+        // every vertex whose outgoing half-edge may be gone leaves through a kept one
+        kept.forEach(e => this.outgoing[this.origin[e]] = e);
+        kept.forEach(e => this.preferBoundary(this.origin[e]));
+        return true;
+    }
+
+    /** Live vertices and faces, reindexed in order */
+    toMeshData(): MeshData {
+        const index = new Array(this.positions.length).fill(-1);
+        const V: Vec3[] = [];
+        this.vertices().forEach(v => {
+            index[v] = V.length;
+            V.push(this.positions[v]);
+        });
+        const F = this.faces().map(f => this.faceVertices(f).map(v => index[v]));
+        return [V, F];
+    }
+
+    private addEdge(v: number, f: number): number {
+        const h = this.origin.length;
+        this.origin.push(v);
+        this.faceOf.push(f);
+        this.twinEdge.push(-1);
+        this.nextEdge.push(-1);
+        this.prevEdge.push(-1);
+        return h;
+    }
+
+    private removeEdge(h: number) {
+        this.origin[h] = -1;
+        this.faceOf[h] = -1;
+    }
+
+    private link(a: number, b: number) {
+        this.nextEdge[a] = b;
+        this.prevEdge[b] = a;
+    }
+
+    private addFace(h: number): number {
+        const f = this.faceEdge.length;
+        this.faceEdge.push(h);
+        this.faceOf[h] = f;
+        return f;
+    }
+
+    private pair(a: number, b: number) {
+        this.twinEdge[a] = b;
+        this.twinEdge[b] = a;
+    }
+
+    /** Makes the boundary half-edge leaving v, if any, its outgoing one. */
+    private preferBoundary(v: number) {
+        const boundary = this.outgoingEdges(v).find(h => this.faceOf[h] < 0);
+        if (boundary !== undefined) this.outgoing[v] = boundary;
+    }
+}
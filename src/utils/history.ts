@@ -0,0 +1,105 @@
+/**
+ * An operation that can be reverted and applied again.
+ * The history calls undo() and redo() in stack order only, so each one may
+ * assume the state right after (resp. right before) the operation.
+ */
+export interface Command {
+    label: string;
+    undo: () => void;
+    redo: () => void;
+}
+
+export const DEFAULT_HISTORY_DEPTH = 50;
+
+/**
+ * Undo / redo stacks of {@link Command}s with a bounded depth.
+ * Pushing a new command drops everything that could have been redone.
+ */
+export class CommandHistory {
+    private undoStack: Command[] = [];
+    private redoStack: Command[] = [];
+    private listeners = new Set<() => void>();
+    private depth: number;
+
+    constructor(depth: number = DEFAULT_HISTORY_DEPTH) {
+        this.depth = Math.max(0, Math.floor(depth));
+    }
+
+    get canUndo(): boolean { return this.undoStack.length > 0; }
+    get canRedo(): boolean { return this.redoStack.length > 0; }
+    get undoLabel(): string | null { return this.undoStack.at(-1)?.label ?? null; }
+    get redoLabel(): string | null { return this.redoStack.at(-1)?.label ?? null; }
+
+    /**
+     * Record a command that has just been applied.
+     */
+    push(command: Command) {
+        this.undoStack.push(command);
+        this.redoStack = [];
+        this.trim();
+        this.notify();
+    }
+
+    /**
+     * Revert the last command.
+     * @returns the reverted command, or null if there was nothing to undo
+     */
+    undo(): Command | null {
+        const command = this.undoStack.pop();
+        if (!command) return null;
+
+        command.undo();
+        this.redoStack.push(command);
+        this.notify();
+        return command;
+    }
+
+    /**
+     * Apply the last reverted command again, dropping the oldest undoable one
+     * if the depth was lowered since.
+     * @returns the applied command, or null if there was nothing to redo
+     */
+    redo(): Command | null {
+        const command = this.redoStack.pop();
+        if (!command) return null;
+
+        command.redo();
+        this.undoStack.push(command);
+        this.trim();
+        this.notify();
+        return command;
+    }
+
+    /**
+     * Change the maximum number of undoable commands, dropping the oldest ones.
+     */
+    setDepth(depth: number) {
+        this.depth = Math.max(0, Math.floor(depth));
+        this.trim();
+        this.notify();
+    }
+
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notify();
+    }
+
+    /**
+     * Register a callback fired whenever the stacks change.
+     * @returns a function removing the callback
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private trim() {
+        if (this.undoStack.length > this.depth)
+            this.undoStack.splice(0, this.undoStack.length - this.depth);
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}
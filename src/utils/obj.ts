@@ -0,0 +1,167 @@
+import * as THREE from 'three';
+import { Vec3, MeshData } from '@/interface';
+import { extractMeshData } from '@/utils/threeMesh';
+import * as geo3d from '@/utils/geo3d';
+
+export interface OBJGroup {
+    name: string;
+    mesh: MeshData;
+}
+
+/**
+ * Triangulate a planar polygon by ear clipping in the plane of its Newell
+ * normal. Falls back to a fan when no ear is found (self-intersecting input).
+ * @returns triangles as indices into poly
+ */
+const triangulate = (poly: Vec3[]): number[][] => {
+    if (poly.length === 3)
+        return [[0, 1, 2]];
+
+    const normal = new Vec3(0, 0, 0);
+    for (let i = 0; i < poly.length; i++) {
+        const a = poly[i], b = poly[(i + 1) % poly.length];
+        normal.incrementBy(new Vec3(
+            (a.y - b.y) * (a.z + b.z),
+            (a.z - b.z) * (a.x + b.x),
+            (a.x - b.x) * (a.y + b.y)
+        ));
+    }
+    const cross = (a: Vec3, b: Vec3, c: Vec3) => b.minus(a).cross(c.minus(a)).dot(normal);
+    const inside = (p: Vec3, a: Vec3, b: Vec3, c: Vec3) =>
+        cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+
+    const remaining = poly.map((_, i) => i);
+    const triangles: number[][] = [];
+
+    while (remaining.length > 3) {
+        let clipped = false;
+        for (let k = 0; k < remaining.length; k++) {
+            const i0 = remaining[(k + remaining.length - 1) % remaining.length];
+            const i1 = remaining[k];
+            const i2 = remaining[(k + 1) % remaining.length];
+            const [a, b, c] = [poly[i0], poly[i1], poly[i2]];
+
+            if (cross(a, b, c) <= 0)
+                continue;
+            if (remaining.some(j => j !== i0 && j !== i1 && j !== i2 && inside(poly[j], a, b, c)))
+                continue;
+
+            triangles.push([i0, i1, i2]);
+            remaining.splice(k, 1);
+            clipped = true;
+            break;
+        }
+        if (!clipped) break;
+    }
+    for (let k = 1; k + 1 < remaining.length; k++)
+        triangles.push([remaining[0], remaining[k], remaining[k + 1]]);
+
+    return triangles;
+}
+
+/**
+ * Parse a Wavefront OBJ file. Every `o` / `g` section with faces becomes its
+ * own group. Polygons are triangulated, vertices at the same position (up to
+ * rounding) are merged and only the vertices used by a group are kept in it. Texture
+ * coordinates, normals, materials, lines and points are ignored.
+ * @returns one entry per non-empty group, in file order
+ */
+export const parseOBJ = (text: string): OBJGroup[] => {
+    const positions: Vec3[] = [];
+    const groups: { name: string, faces: number[][] }[] = [];
+    let current: { name: string, faces: number[][] } | null = null;
+
+    const lines = text.split(/\r?\n/);
+    for (let n = 0; n < lines.length; n++) {
+        let line = lines[n].trim();
+        while (line.endsWith('\\') && n + 1 < lines.length)
+            line = line.slice(0, -1) + ' ' + lines[++n].trim();
+
+        const [keyword, ...args] = line.split(/\s+/);
+        switch (keyword) {
+            case 'v': {
+                const [x, y, z] = args.slice(0, 3).map(Number);
+                if (![x, y, z].every(Number.isFinite))
+                    throw new Error(`OBJ line ${n + 1}: invalid vertex "${line}"`);
+                positions.push(new Vec3(x, y, z));
+                break;
+            }
+            case 'o':
+            case 'g':
+                current = { name: args.join(' ') || `${keyword === 'o' ? 'object' : 'group'}_${groups.length}`, faces: [] };
+                groups.push(current);
+                break;
+            case 'f': {
+                if (args.length < 3)
+                    throw new Error(`OBJ line ${n + 1}: a face needs at least 3 vertices`);
+                const face = args.map(arg => {
+                    const i = parseInt(arg.split('/')[0], 10);
+                    const index = i < 0 ? positions.length + i : i - 1;
+                    if (!Number.isInteger(i) || i === 0 || index < 0 || index >= positions.length)
+                        throw new Error(`OBJ line ${n + 1}: vertex index "${arg}" out of range`);
+                    return index;
+                });
+                if (!current) {
+                    current = { name: 'default', faces: [] };
+                    groups.push(current);
+                }
+                current.faces.push(face);
+                break;
+            }
+        }
+    }
+
+    // merge duplicate positions once for the whole file
+    const [merged, canonical] = geo3d.weldVertices(positions) as [Vec3[], number[]];
+
+    return groups.filter(group => group.faces.length > 0).map(group => {
+        const remap = new Map<number, number>();
+        const V: Vec3[] = [];
+        const F: number[][] = [];
+        const local = (c: number) => {
+            if (!remap.has(c)) {
+                remap.set(c, V.length);
+                V.push(new Vec3(merged[c].x, merged[c].y, merged[c].z));
+            }
+            return remap.get(c);
+        };
+        for (const face of group.faces) {
+            const poly = face.map(i => canonical[i]).filter((c, k, arr) => c !== arr[(k + 1) % arr.length]);
+            if (poly.length < 3) continue;
+
+            for (const tri of triangulate(poly.map(c => merged[c]))) {
+                const [a, b, c] = tri.map(k => poly[k]);
+                if (a !== b && b !== c && c !== a)
+                    F.push([local(a), local(b), local(c)]);
+            }
+        }
+        return { name: group.name, mesh: [V, F] as MeshData };
+    }).filter(group => group.mesh[1].length > 0);
+}
+
+/**
+ * Serialize groups of mesh data as a Wavefront OBJ file, one `o` section per group.
+ */
+export const formatOBJ = (groups: OBJGroup[]): string => {
+    const lines = ['# RigMesh OBJ export'];
+    let offset = 1;
+
+    for (const { name, mesh: [V, F] } of groups) {
+        lines.push(`o ${name}`);
+        V.forEach(v => lines.push(`v ${v.x} ${v.y} ${v.z}`));
+        F.forEach(f => lines.push(`f ${f.map(i => i + offset).join(' ')}`));
+        offset += V.length;
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize scene meshes as a Wavefront OBJ file, in world space.
+ * Skinned meshes are written in their bind pose.
+ */
+export const writeOBJ = (meshes: (THREE.Mesh | THREE.SkinnedMesh)[]): string => {
+    return formatOBJ(meshes.map((mesh, i) => {
+        mesh.updateMatrixWorld(true);
+        return { name: mesh.name || `mesh_${i}`, mesh: extractMeshData(mesh) };
+    }));
+}
@@ -0,0 +1,104 @@
+import { Vec2 } from '@/interface';
+
+export type ProfileType = 'circle' | 'ellipse' | 'flat' | 'squircle' | 'custom';
+export const PROFILE_TYPES: ProfileType[] = ['circle', 'ellipse', 'flat', 'squircle', 'custom'];
+
+/**
+ * Unit cross-section of a pipe: maps an angle in [0, 2pi) to a point where x runs
+ * along the chord and y along the depth axis. Every profile passes through (1, 0)
+ * at 0 and (-1, 0) at pi so that ring endpoints land on the chord endpoints.
+ */
+export type CrossSection = (theta: number) => Vec2;
+
+const PERIMETER_SAMPLES = 256;
+const THICKNESS_SAMPLES = 64;
+
+function signedPow(x: number, p: number) {
+    return Math.sign(x) * Math.pow(Math.abs(x), p);
+}
+
+/**
+ * Half-thickness of a closed curve as a function of its normalized horizontal
+ * position x in [-1, 1], relative to its half-width. Sampled once into a table
+ * and linearly interpolated.
+ */
+export function curveThickness(curve: Vec2[]): (x: number) => number {
+    let minX = Infinity, maxX = -Infinity;
+    for (const p of curve) {
+        minX = Math.min(minX, p.x);
+        maxX = Math.max(maxX, p.x);
+    }
+    const halfWidth = (maxX - minX) / 2;
+    const table = new Array(THICKNESS_SAMPLES + 1).fill(0);
+
+    if (halfWidth < 1e-6)
+        return () => 0;
+
+    for (let k = 1; k < THICKNESS_SAMPLES; k++) {
+        const x = minX + 2 * halfWidth * k / THICKNESS_SAMPLES;
+        let lo = Infinity, hi = -Infinity;
+
+        for (let i = 0; i < curve.length; i++) {
+            const a = curve[i];
+            const b = curve[(i + 1) % curve.length];
+            if ((a.x - x) * (b.x - x) > 0 || a.x === b.x)
+                continue;
+            const t = (x - a.x) / (b.x - a.x);
+            const y = a.y + t * (b.y - a.y);
+            lo = Math.min(lo, y);
+            hi = Math.max(hi, y);
+        }
+        if (hi >= lo)
+            table[k] = (hi - lo) / 2 / halfWidth;
+    }
+    return (x: number) => {
+        const s = (Math.max(-1, Math.min(1, x)) + 1) / 2 * THICKNESS_SAMPLES;
+        const k = Math.min(THICKNESS_SAMPLES - 1, Math.floor(s));
+        return table[k] + (table[k + 1] - table[k]) * (s - k);
+    };
+}
+
+/**
+ * Build a cross-section profile.
+ * @param type - profile family
+ * @param depth - depth-to-width ratio (ignored by 'circle' and 'custom')
+ * @param curve - closed 2D curve for 'custom'; its vertical thickness along the
+ *                horizontal axis is used as a symmetric profile
+ */
+export function buildProfile(type: ProfileType, depth: number = 1, curve: Vec2[] | null = null): CrossSection {
+    switch (type) {
+        case 'ellipse':
+            return (t) => new Vec2(Math.cos(t), depth * Math.sin(t));
+        case 'flat':
+            return (t) => new Vec2(Math.cos(t), depth * signedPow(Math.sin(t), 0.25));
+        case 'squircle':
+            return (t) => new Vec2(signedPow(Math.cos(t), 0.5), depth * signedPow(Math.sin(t), 0.5));
+        case 'custom':
+            if (curve && curve.length >= 3) {
+                const thickness = curveThickness(curve);
+                return (t) => {
+                    const x = Math.cos(t);
+                    const y = Math.max(thickness(x), 0.05 * Math.sqrt(1 - x * x));
+                    return new Vec2(x, Math.sign(Math.sin(t)) * y);
+                };
+            }
+            // no curve drawn yet: a circle until there is one
+            return (t) => new Vec2(Math.cos(t), Math.sin(t));
+        default:
+            return (t) => new Vec2(Math.cos(t), Math.sin(t));
+    }
+}
+
+/**
+ * Perimeter of a unit profile, used to pick the ring resolution for a given isodistance.
+ */
+export function profilePerimeter(profile: CrossSection): number {
+    let length = 0;
+    let prev = profile(0);
+    for (let i = 1; i <= PERIMETER_SAMPLES; i++) {
+        const curr = profile(2 * Math.PI * i / PERIMETER_SAMPLES);
+        length += curr.minus(prev).norm();
+        prev = curr;
+    }
+    return length;
+}
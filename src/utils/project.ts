@@ -0,0 +1,310 @@
+import * as THREE from 'three';
+import { SerializedSkinnedMeshData } from '@/utils/serialize';
+import { snapshotSkinnedMesh, restoreSkinnedMesh } from '@/utils/threeMesh';
+import { AnimationData, INTERPOLATIONS } from '@/utils/animation';
+
+export const PROJECT_FORMAT = 'rigmesh-project';
+export const PROJECT_VERSION = 2;
+
+/**
+ * One scene mesh. Geometry and joints are in the local frame of the mesh and
+ * in the bind pose, `transform` is the local matrix of the mesh and `pose` the
+ * local matrix of every bone (column-major, as THREE.Matrix4.toArray). An
+ * empty pose stands for the bind pose. Keyframes of `animations` hold full
+ * poses, in the same frame as `pose`.
+ */
+export interface ProjectMesh {
+    name: string;
+    transform: number[];
+    pose: number[][];
+    data: SerializedSkinnedMeshData;
+    animations: AnimationData[];
+}
+
+export interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    meshes: ProjectMesh[];
+}
+
+/**
+ * Raised for files that cannot be read as a project.
+ * `path` locates the offending value, e.g. `meshes[0].data.mesh[1][12]`.
+ */
+export class ProjectFormatError extends Error {
+    path: string;
+
+    constructor(path: string, message: string) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = 'ProjectFormatError';
+        this.path = path;
+    }
+}
+
+const IDENTITY = new THREE.Matrix4().toArray();
+
+const typeName = (value: unknown): string =>
+    value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value;
+
+const expectObject = (value: unknown, path: string): Record<string, unknown> => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value))
+        throw new ProjectFormatError(path, `expected an object, got ${typeName(value)}`);
+    return value as Record<string, unknown>;
+}
+
+const expectArray = (value: unknown, path: string, length?: number): unknown[] => {
+    if (!Array.isArray(value))
+        throw new ProjectFormatError(path, `expected an array, got ${typeName(value)}`);
+    if (length !== undefined && value.length !== length)
+        throw new ProjectFormatError(path, `expected ${length} entries, got ${value.length}`);
+    return value;
+}
+
+const expectNumber = (value: unknown, path: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value))
+        throw new ProjectFormatError(path, `expected a finite number, got ${typeof value === 'number' ? value : typeName(value)}`);
+    return value;
+}
+
+const expectIndex = (value: unknown, path: string, count: number, what: string, plural: string = `${what}s`): number => {
+    if (!Number.isInteger(value))
+        throw new ProjectFormatError(path, `expected an integer ${what} index, got ${typeName(value)}`);
+    if ((value as number) < 0 || (value as number) >= count)
+        throw new ProjectFormatError(path, `${what} index ${value} out of range (${count} ${count === 1 ? what : plural})`);
+    return value as number;
+}
+
+const expectString = (value: unknown, path: string): string => {
+    if (typeof value !== 'string')
+        throw new ProjectFormatError(path, `expected a string, got ${typeName(value)}`);
+    return value;
+}
+
+const validateMatrix = (value: unknown, path: string) =>
+    expectArray(value, path, 16).forEach((x, i) => expectNumber(x, `${path}[${i}]`));
+
+const validatePoints = (value: unknown, path: string): number =>
+    expectArray(value, path).map((p, i) => expectArray(p, `${path}[${i}]`, 3).forEach((x, k) => expectNumber(x, `${path}[${i}][${k}]`))).length;
+
+/**
+ * Check the skinned mesh data of a project mesh: coordinates, face and bone
+ * indices in range, one weight list per vertex.
+ */
+const validateMeshData = (value: unknown, path: string) => {
+    const data = expectObject(value, path);
+    const at = path ? `${path}.` : '';
+
+    const [V, F] = expectArray(data.mesh, `${at}mesh`, 2);
+    const nV = validatePoints(V, `${at}mesh[0]`);
+    if (nV === 0)
+        throw new ProjectFormatError(`${at}mesh[0]`, 'a mesh needs at least one vertex');
+    expectArray(F, `${at}mesh[1]`).forEach((f, i) =>
+        expectArray(f, `${at}mesh[1][${i}]`, 3).forEach((v, k) => expectIndex(v, `${at}mesh[1][${i}][${k}]`, nV, 'vertex', 'vertices')));
+
+    const [J, B] = expectArray(data.skel, `${at}skel`, 2);
+    const nJ = validatePoints(J, `${at}skel[0]`);
+    const bones = expectArray(B, `${at}skel[1]`);
+    bones.forEach((b, i) => {
+        const [i0, i1] = expectArray(b, `${at}skel[1][${i}]`, 2).map((j, k) => expectIndex(j, `${at}skel[1][${i}][${k}]`, nJ, 'joint'));
+        if (i0 === i1)
+            throw new ProjectFormatError(`${at}skel[1][${i}]`, `bone joins joint ${i0} to itself`);
+    });
+
+    const weights = expectArray(data.skinWeights, `${at}skinWeights`, nV);
+    const indices = data.skinIndices == null ? null : expectArray(data.skinIndices, `${at}skinIndices`, nV);
+    weights.forEach((w, i) => {
+        const wi = expectArray(w, `${at}skinWeights[${i}]`);
+        wi.forEach((x, k) => {
+            if (expectNumber(x, `${at}skinWeights[${i}][${k}]`) < 0)
+                throw new ProjectFormatError(`${at}skinWeights[${i}][${k}]`, `negative weight ${x}`);
+        });
+        if (indices) {
+            expectArray(indices[i], `${at}skinIndices[${i}]`, wi.length)
+                .forEach((j, k) => expectIndex(j, `${at}skinIndices[${i}][${k}]`, bones.length, 'bone'));
+        } else if (wi.length > bones.length) {
+            throw new ProjectFormatError(`${at}skinWeights[${i}]`, `${wi.length} weights for ${bones.length} bones`);
+        }
+    });
+}
+
+/**
+ * Check the keyframe animations of a mesh with `nJ` joints: one matrix per
+ * joint in every keyframe, keyframes sorted by time.
+ */
+const validateAnimations = (value: unknown, path: string, nJ: number) =>
+    expectArray(value, path).forEach((a, i) => {
+        const at = `${path}[${i}]`;
+        const animation = expectObject(a, at);
+        expectString(animation.name, `${at}.name`);
+        if (expectNumber(animation.duration, `${at}.duration`) < 0)
+            throw new ProjectFormatError(`${at}.duration`, `negative duration ${animation.duration}`);
+        if (!INTERPOLATIONS.includes(animation.interpolation as AnimationData['interpolation']))
+            throw new ProjectFormatError(`${at}.interpolation`, `expected one of ${INTERPOLATIONS.join(', ')}, got ${JSON.stringify(animation.interpolation)}`);
+
+        let previous = -Infinity;
+        expectArray(animation.keyframes, `${at}.keyframes`).forEach((k, j) => {
+            const keyframe = expectObject(k, `${at}.keyframes[${j}]`);
+            const time = expectNumber(keyframe.time, `${at}.keyframes[${j}].time`);
+            if (time < 0)
+                throw new ProjectFormatError(`${at}.keyframes[${j}].time`, `negative time ${time}`);
+            if (time <= previous)
+                throw new ProjectFormatError(`${at}.keyframes[${j}].time`, `keyframes out of order (${time} after ${previous})`);
+            previous = time;
+            expectArray(keyframe.pose, `${at}.keyframes[${j}].pose`, nJ)
+                .forEach((matrix, m) => validateMatrix(matrix, `${at}.keyframes[${j}].pose[${m}]`));
+        });
+    });
+
+/**
+ * Check that a parsed file is a project of the current version.
+ * @throws ProjectFormatError naming the first offending value
+ */
+export const validateProject = (value: unknown): ProjectFile => {
+    const project = expectObject(value, '');
+    if (project.format !== PROJECT_FORMAT)
+        throw new ProjectFormatError('format', `expected "${PROJECT_FORMAT}", got ${JSON.stringify(project.format)}`);
+    if (project.version !== PROJECT_VERSION)
+        throw new ProjectFormatError('version', `expected ${PROJECT_VERSION}, got ${JSON.stringify(project.version)}`);
+
+    expectArray(project.meshes, 'meshes').forEach((m, i) => {
+        const path = `meshes[${i}]`;
+        const mesh = expectObject(m, path);
+        expectString(mesh.name, `${path}.name`);
+        validateMatrix(mesh.transform, `${path}.transform`);
+        validateMeshData(mesh.data, `${path}.data`);
+
+        const nJ = (mesh.data as SerializedSkinnedMeshData).skel[0].length;
+        const pose = expectArray(mesh.pose, `${path}.pose`);
+        if (pose.length !== 0 && pose.length !== nJ)
+            throw new ProjectFormatError(`${path}.pose`, `expected 0 or ${nJ} bone matrices, got ${pose.length}`);
+        pose.forEach((matrix, k) => validateMatrix(matrix, `${path}.pose[${k}]`));
+        validateAnimations(mesh.animations, `${path}.animations`, nJ);
+    });
+    return project as unknown as ProjectFile;
+}
+
+/**
+ * Version 0: single-mesh JSON files in world space. Either the files written
+ * before projects existed, `{ mesh3D, skeleton, skinWeights, skinIndices, version }`,
+ * or the serialized SkinnedMeshData written by the CLI.
+ */
+const migrateLegacy = (value: Record<string, unknown>) => {
+    if (!('mesh3D' in value)) {
+        validateMeshData(value, '');
+        return {
+            format: PROJECT_FORMAT,
+            version: 1,
+            meshes: [{ name: '', transform: IDENTITY, pose: [], data: { ...value, skinIndices: value.skinIndices ?? null } }],
+        };
+    }
+    const point = (p: unknown, path: string) => {
+        const { x, y, z } = expectObject(p, path);
+        return [x, y, z].map((c, k) => expectNumber(c, `${path}.${'xyz'[k]}`));
+    };
+    const mesh3D = expectObject(value.mesh3D, 'mesh3D');
+    const skeleton = expectObject(value.skeleton, 'skeleton');
+    const V = expectArray(mesh3D.vertices, 'mesh3D.vertices').map((v, i) => point(v, `mesh3D.vertices[${i}]`));
+    const J = expectArray(skeleton.joints, 'skeleton.joints').map((j, i) => point(j, `skeleton.joints[${i}]`));
+
+    const data = {
+        mesh: [V, mesh3D.faces],
+        skel: [J, skeleton.bones],
+        skinWeights: value.skinWeights,
+        skinIndices: value.skinIndices ?? null,
+    };
+    // report problems with the legacy field names
+    try {
+        validateMeshData(data, '');
+    } catch (error) {
+        if (!(error instanceof ProjectFormatError)) throw error;
+        const path = error.path
+            .replace(/^mesh\[0\]/, 'mesh3D.vertices')
+            .replace(/^mesh\[1\]/, 'mesh3D.faces')
+            .replace(/^skel\[0\]/, 'skeleton.joints')
+            .replace(/^skel\[1\]/, 'skeleton.bones');
+        throw new ProjectFormatError(path, error.message.slice(error.path.length + 2));
+    }
+    return {
+        format: PROJECT_FORMAT,
+        version: 1,
+        meshes: [{ name: '', transform: IDENTITY, pose: [], data }],
+    };
+}
+
+/**
+ * Migrations indexed by the version they upgrade from, each producing the next version.
+ */
+const MIGRATIONS: Record<number, (value: Record<string, unknown>) => Record<string, unknown>> = {
+    0: migrateLegacy,
+    // version 2 added keyframe animations
+    1: (value) => ({
+        ...value,
+        version: 2,
+        meshes: expectArray(value.meshes, 'meshes').map(mesh => ({ ...(mesh as object), animations: [] })),
+    }),
+};
+
+/**
+ * Version of a parsed file: the `version` field of projects, 0 for
+ * single-mesh files.
+ */
+export const projectVersion = (value: unknown): number => {
+    const project = expectObject(value, '');
+    if (project.format === undefined && ('mesh3D' in project || 'mesh' in project))
+        return 0;
+    if (project.format !== PROJECT_FORMAT)
+        throw new ProjectFormatError('format', `expected "${PROJECT_FORMAT}", got ${JSON.stringify(project.format)}`);
+    if (!Number.isInteger(project.version) || (project.version as number) < 0)
+        throw new ProjectFormatError('version', `expected a non-negative integer, got ${JSON.stringify(project.version)}`);
+    return project.version as number;
+}
+
+/**
+ * Bring a parsed file of any known version up to {@link PROJECT_VERSION} and validate it.
+ * @throws ProjectFormatError for unknown or newer versions and malformed content
+ */
+export const migrateProject = (value: unknown): ProjectFile => {
+    let version = projectVersion(value);
+    if (version > PROJECT_VERSION)
+        throw new ProjectFormatError('version', `version ${version} was written by a newer RigMesh (this one reads up to ${PROJECT_VERSION})`);
+
+    let project = value as Record<string, unknown>;
+    for (; version < PROJECT_VERSION; version++) {
+        if (!MIGRATIONS[version])
+            throw new ProjectFormatError('version', `no migration from version ${version}`);
+        project = MIGRATIONS[version](project);
+    }
+    return validateProject(project);
+}
+
+/**
+ * Parse, migrate and validate the text of a project file.
+ */
+export const parseProject = (text: string): ProjectFile => {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        throw new ProjectFormatError('', `not valid JSON (${error instanceof Error ? error.message : error})`);
+    }
+    return migrateProject(value);
+}
+
+/**
+ * Store scene meshes as a project, with their transform, pose, skeleton, per-bone weights, names and animations.
+ */
+export const meshesToProject = (meshes: THREE.SkinnedMesh[]): ProjectFile => ({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    meshes: meshes.map(mesh => {
+        const { name, data, matrix, pose, animations = [] } = snapshotSkinnedMesh(mesh);
+        return { name, transform: matrix, pose, data, animations };
+    }),
+});
+
+/**
+ * Rebuild the scene meshes of a project (inverse of {@link meshesToProject}).
+ */
+export const projectToMeshes = (project: ProjectFile): THREE.SkinnedMesh[] =>
+    project.meshes.map(({ name, transform, pose, data, animations }) =>
+        restoreSkinnedMesh({ name, data, matrix: transform, pose, animations }));
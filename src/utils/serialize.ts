@@ -0,0 +1,55 @@
+import { Vec2, Vec3, MeshData, SkelData, SkinnedMeshData } from '@/interface';
+
+/**
+ * Plain-array encodings of the geometry types, safe to pass through
+ * postMessage or JSON (class instances lose their prototype on the way).
+ */
+export type SerializedVec2 = [number, number];
+export type SerializedVec3 = [number, number, number];
+export type SerializedMesh = [SerializedVec3[], number[][]];
+export type SerializedSkel = [SerializedVec3[], [number, number][]];
+
+export const serializeVec2s = (points: { x: number, y: number }[]): SerializedVec2[] =>
+    points.map(p => [p.x, p.y]);
+
+export const deserializeVec2s = (points: SerializedVec2[]): Vec2[] =>
+    points.map(([x, y]) => new Vec2(x, y));
+
+export const serializeVec3s = (points: Vec3[]): SerializedVec3[] =>
+    points.map(p => [p.x, p.y, p.z]);
+
+export const deserializeVec3s = (points: SerializedVec3[]): Vec3[] =>
+    points.map(([x, y, z]) => new Vec3(x, y, z));
+
+export const serializeMesh = ([V, F]: MeshData): SerializedMesh =>
+    [serializeVec3s(V), F.map(f => [...f])];
+
+export const deserializeMesh = ([V, F]: SerializedMesh): MeshData =>
+    [deserializeVec3s(V), F.map(f => [...f])];
+
+export const serializeSkel = ([J, B]: SkelData): SerializedSkel =>
+    [serializeVec3s(J), B.map(([i0, i1]) => [i0, i1] as [number, number])];
+
+export const deserializeSkel = ([J, B]: SerializedSkel): SkelData =>
+    [deserializeVec3s(J), B.map(([i0, i1]) => [i0, i1] as [number, number])];
+
+export interface SerializedSkinnedMeshData {
+    mesh: SerializedMesh;
+    skel: SerializedSkel;
+    skinWeights: number[][];
+    skinIndices: number[][] | null;
+}
+
+export const serializeSkinnedMeshData = (data: SkinnedMeshData): SerializedSkinnedMeshData => ({
+    mesh: serializeMesh(data.mesh),
+    skel: serializeSkel(data.skel),
+    skinWeights: data.skinWeights.map(w => [...w]),
+    skinIndices: data.skinIndices && data.skinIndices.map(i => [...i]),
+});
+
+export const deserializeSkinnedMeshData = (data: SerializedSkinnedMeshData): SkinnedMeshData => ({
+    mesh: deserializeMesh(data.mesh),
+    skel: deserializeSkel(data.skel),
+    skinWeights: data.skinWeights.map(w => [...w]),
+    skinIndices: data.skinIndices && data.skinIndices.map(i => [...i]),
+});
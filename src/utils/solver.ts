@@ -1,10 +1,7 @@
-import * as LinearAlgebra from '@/lib/linalg/linear-algebra.js';
 import { MeshData } from '@/interface';
+import { Cholesky, DenseMatrix, SparseMatrix, Triplet } from '@/utils/sparse';
 
 var Graph = require("graphlib").Graph;
-const DenseMatrix = LinearAlgebra.DenseMatrix;
-const SparseMatrix = LinearAlgebra.SparseMatrix;
-const Triplet = LinearAlgebra.Triplet;
 
 export function buildLaplacianTopology(mesh: MeshData): [number, number, number][] {
     const [_, F] = mesh;
@@ -62,130 +59,180 @@ export function buildLaplacianGeometry(mesh: MeshData): [number, number, number]
     return T;
 }
 
-export function smooth(lap: [number, number, number][],
-    weak_constraints: [number, number][],
-    hard_constraints: [number, number][],
-    smoothness: number
-): Map<number, number> {
-    const value = new Map<number, number | null>();
-    const fixed = new Map<number, boolean>();
 
-    for (let [_, i, j] of lap)  {
-        value.set(i, null); fixed.set(i, false);
-        value.set(j, null); fixed.set(j, false);
-    }
-    for (let [i, v] of weak_constraints)    value.set(i, v);
-    for (let [i, v] of hard_constraints)    value.set(i, v), fixed.set(i, true);
-
-    let idxMap = new Map<number, number>();
+/**
+ * Least squares system of smooth or diffuse, factored once for a Laplacian,
+ * a set of constrained vertices and a smoothness, and reused for any values
+ * of the constraints.
+ */
+interface LaplacianSystem {
+    /** Unknown of every free vertex */
+    index: Map<number, number>;
+    /** Row of every weakly constrained free vertex */
+    weakRow: Map<number, number>;
+    rows: number;
+    /** Number of Laplacian entries it was built from */
+    lapLength: number;
+    At: SparseMatrix;
+    factor: Cholesky;
+}
 
-    for (let [i, fix] of fixed) if (!fix)   idxMap.set(i, idxMap.size);
-    for (let [i, fix] of fixed) if (fix)    idxMap.set(i, idxMap.size);
+type Constraint = [number, number[]];
+
+const floatBits = new Float64Array(1);
+const floatWords = new Uint32Array(floatBits.buffer);
+
+/** Two 32 bit FNV-1a hashes of a stream of numbers, as one key. */
+function hashNumbers(visit: (push: (x: number) => void) => void): string {
+    let h1 = 0x811c9dc5, h2 = 0x01000193;
+    const mix = (word: number) => {
+        h1 = Math.imul(h1 ^ word, 0x01000193);
+        h2 = Math.imul(h2 ^ word, 0x5bd1e995) ^ (h2 >>> 15);
+    };
+    visit(x => {
+        floatBits[0] = x;
+        mix(floatWords[0]);
+        mix(floatWords[1]);
+    });
+    return `${(h1 >>> 0).toString(36)}${(h2 >>> 0).toString(36)}`;
+}
 
-    let row = 0;
-    let col = 0;
+/**
+ * Cache of factored Laplacian systems, so that solving again on the same
+ * region, e.g. for every coordinate or while a smoothing slider is dragged
+ * back and forth, only costs the triangular solves. Systems are keyed by the
+ * Laplacian, the constrained vertices and the smoothness; the least recently
+ * used ones are dropped beyond the capacity.
+ */
+export class SolverContext {
+    private systems = new Map<string, LaplacianSystem>();
+
+    constructor(private readonly capacity: number = 8) {}
+
+    /**
+     * Values minimizing smoothness |L u|^2 + |u - weak|^2 with hard vertices
+     * fixed, for every column of the constraint values at once.
+     */
+    smooth(lap: [number, number, number][], weak_constraints: Constraint[], hard_constraints: Constraint[], smoothness: number): Map<number, number[]> {
+        return this.solve('smooth', lap, weak_constraints, hard_constraints, smoothness);
+    }
 
-    for (let [i, fix] of fixed) if (!fix) {
-        row++;
-        col++;
-        if (value.get(i) !== null)
-            row++;
+    /**
+     * Least squares solution of (smoothness L + W) u = W weak with hard
+     * vertices fixed, W selecting the weakly constrained vertices, for every
+     * column of the constraint values at once.
+     */
+    diffuse(lap: [number, number, number][], weak_constraints: Constraint[], hard_constraints: Constraint[], smoothness: number): Map<number, number[]> {
+        return this.solve('diffuse', lap, weak_constraints, hard_constraints, smoothness);
     }
 
-    let T = new Triplet(row, col);
-    let b = DenseMatrix.zeros(row, 1);
-
-    for (let [w, i, j] of lap) {
-        const fixI = fixed.get(i);
-        const fixJ = fixed.get(j), v = value.get(j);
-        const idxI = idxMap.get(i);
-        const idxJ = idxMap.get(j);
-        if (fixI)   continue;
-        if (fixJ)   b.set(b.get(idxI) - smoothness * w * v, idxI);
-        else        T.addEntry(w * smoothness, idxI, idxJ);
+    clear() {
+        this.systems.clear();
     }
-    let weakRow = col;
-    for (let [i, v] of value)   if (v !== null) {
-        const fix = fixed.get(i);
-        const idx = idxMap.get(i);
-        if (!fix) {;
-            T.addEntry(1, weakRow, idx);
-            b.set(v, weakRow);
-            weakRow++;
+
+    private solve(kind: 'smooth' | 'diffuse', lap: [number, number, number][], weak: Constraint[], hard: Constraint[], smoothness: number): Map<number, number[]> {
+        const hardValue = new Map<number, number[]>(hard);
+        const weakValue = new Map<number, number[]>(weak.filter(([i]) => !hardValue.has(i)));
+        const k = hard[0]?.[1].length ?? weak[0]?.[1].length ?? 1;
+
+        const key = kind + hashNumbers(push => {
+            push(smoothness);
+            push(lap.length);
+            for (const [w, i, j] of lap) push(w), push(i), push(j);
+            push(-1);
+            for (const i of weakValue.keys()) push(i);
+            push(-1);
+            for (const i of hardValue.keys()) push(i);
+        });
+        let system = this.systems.get(key);
+        this.systems.delete(key);
+        if (!system || !fitsSystem(system, kind, lap, weakValue, hardValue))
+            system = buildSystem(kind, lap, weakValue, hardValue, smoothness);
+
+        this.systems.set(key, system);
+        if (this.systems.size > this.capacity)
+            this.systems.delete(this.systems.keys().next().value);
+
+        const { index, weakRow, rows, At, factor } = system;
+        const b = DenseMatrix.zeros(rows, k);
+        for (const [w, i, j] of lap) {
+            if (!index.has(i) || !hardValue.has(j)) continue;
+            const v = hardValue.get(j);
+            for (let c = 0; c < k; c++)
+                b.set(b.get(index.get(i), c) - smoothness * w * v[c], index.get(i), c);
         }
+        for (const [i, v] of weakValue)
+            for (let c = 0; c < k; c++)
+                b.set(b.get(weakRow.get(i), c) + v[c], weakRow.get(i), c);
+
+        const u = factor.solvePositiveDefinite(At.timesDense(b));
+        const result = new Map<number, number[]>();
+        for (const [i, v] of hardValue) result.set(i, v);
+        for (const [i, idx] of index) {
+            const value = new Array(k);
+            for (let c = 0; c < k; c++) value[c] = u.get(idx, c);
+            result.set(i, value);
+        }
+        return result;
     }
+}
 
-    let A = SparseMatrix.fromTriplet(T);
-
-    b = A.transpose().timesDense(b);
-    A = A.transpose().timesSparse(A);
-
-    let llt = A.chol();
-    let u = llt.solvePositiveDefinite(b);
+/**
+ * Whether a cached system has the shape of the one the problem would build,
+ * so that a collision of the 64 bit key is rebuilt rather than solved with
+ * the wrong factor.
+ */
+function fitsSystem(system: LaplacianSystem, kind: 'smooth' | 'diffuse', lap: [number, number, number][], weak: Map<number, number[]>, hard: Map<number, number[]>): boolean {
+    if (system.lapLength !== lap.length) return false;
+    const free = new Set<number>(weak.keys());
+    for (const [, i, j] of lap) {
+        if (!hard.has(i)) free.add(i);
+        if (!hard.has(j)) free.add(j);
+    }
+    const rows = kind === 'smooth' ? free.size + weak.size : free.size;
+    return system.index.size === free.size && system.rows === rows;
+}
 
-    let result = new Map<number, number>();
+/**
+ * Normal equations of the least squares system: smooth stacks the weak
+ * constraints below the Laplacian rows, diffuse adds them to the diagonal.
+ */
+function buildSystem(kind: 'smooth' | 'diffuse', lap: [number, number, number][], weak: Map<number, number[]>, hard: Map<number, number[]>, smoothness: number): LaplacianSystem {
+    const index = new Map<number, number>();
+    const visit = (i: number) => { if (!hard.has(i) && !index.has(i)) index.set(i, index.size); };
+    for (const [, i, j] of lap) visit(i), visit(j);
+    for (const i of weak.keys()) visit(i);
+
+    const weakRow = new Map<number, number>();
+    for (const i of weak.keys())
+        weakRow.set(i, kind === 'smooth' ? index.size + weakRow.size : index.get(i));
+    const rows = kind === 'smooth' ? index.size + weak.size : index.size;
+
+    const T = new Triplet(rows, index.size);
+    for (const [w, i, j] of lap)
+        if (index.has(i) && index.has(j)) T.addEntry(smoothness * w, index.get(i), index.get(j));
+    for (const [i, row] of weakRow)
+        T.addEntry(1, row, index.get(i));
+
+    const A = SparseMatrix.fromTriplet(T);
+    const At = A.transpose();
+    return { index, weakRow, rows, lapLength: lap.length, At, factor: At.timesSparse(A).chol() };
+}
 
-    for (let [i, fix] of fixed) {
-        if (fix)    result.set(i, value.get(i));
-        else        result.set(i, u.get(idxMap.get(i)));
-    }
+const scalar = (constraints: [number, number][]): Constraint[] => constraints.map(([i, v]) => [i, [v]]);
+const unwrap = (result: Map<number, number[]>): Map<number, number> => new Map([...result].map(([i, [v]]) => [i, v]));
 
-    return result;
+export function smooth(lap: [number, number, number][],
+    weak_constraints: [number, number][],
+    hard_constraints: [number, number][],
+    smoothness: number
+): Map<number, number> {
+    return unwrap(new SolverContext(0).smooth(lap, scalar(weak_constraints), scalar(hard_constraints), smoothness));
 }
 export function diffuse(lap: [number, number, number][],
     weak_constraints: [number, number][],
     hard_constraints: [number, number][],
     smoothness: number
 ): Map<number, number> {
-    const g = new Graph();
-
-    for (let [_, i, j] of lap)  g.setEdge(i, j);
-    for (let x of g.nodes())    g.setNode(x, [null, false]);
-    for (let [i, v] of weak_constraints)    g.setNode(i, [v, false]);
-    for (let [i, v] of hard_constraints)    g.setNode(i, [v, true]);
-
-    let idxMap = new Map<number, number>();
-    let n = 0;
-    
-    for (let x of g.nodes())    if (!g.node(x)[1])  idxMap.set(Number(x), idxMap.size), n++;
-    for (let x of g.nodes())    if (g.node(x)[1])   idxMap.set(Number(x), idxMap.size);
-
-    let T = new Triplet(n, n);
-    let b = DenseMatrix.zeros(n, 1);
-
-    for (let [w, i, j] of lap) {
-        const [_, fixI] = g.node(i);
-        const [v, fixJ] = g.node(j);
-        const idxI = idxMap.get(i);
-        const idxJ = idxMap.get(j);
-
-        if (fixI)   continue;
-        if (fixJ)   b.set(b.get(idxI) - smoothness * w * v, idxI);
-        else        T.addEntry(smoothness * w, idxI, idxJ);
-    }
-    for (let x of g.nodes()) {
-        let [v, fix] = g.node(x);
-        let idx = idxMap.get(Number(x));
-        if (v === null || fix)
-            continue;
-
-        T.addEntry(1, idx, idx);
-        b.set(b.get(idx) + v, idx);
-    }
-    let A = SparseMatrix.fromTriplet(T);
-
-    b = A.transpose().timesDense(b);
-    A = A.transpose().timesSparse(A);
-
-    let llt = A.chol();
-    let u = llt.solvePositiveDefinite(b);
-
-    let result = new Map<number, number>();
-
-    for (let x of g.nodes()) {
-        let [v, fix] = g.node(x);
-        if (fix)   result.set(Number(x), v);
-        else       result.set(Number(x), u.get(idxMap.get(Number(x))));
-    }
-    return result;
-}
\ No newline at end of file
+    return unwrap(new SolverContext(0).diffuse(lap, scalar(weak_constraints), scalar(hard_constraints), smoothness));
+}
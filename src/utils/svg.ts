@@ -0,0 +1,189 @@
+import { Vec2 } from '@/interface';
+
+const TOKEN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+function cubic(p0: Vec2, p1: Vec2, p2: Vec2, p3: Vec2, t: number): Vec2 {
+    const s = 1 - t;
+    return new Vec2(
+        s*s*s*p0.x + 3*s*s*t*p1.x + 3*s*t*t*p2.x + t*t*t*p3.x,
+        s*s*s*p0.y + 3*s*s*t*p1.y + 3*s*t*t*p2.y + t*t*t*p3.y
+    );
+}
+
+function quadratic(p0: Vec2, p1: Vec2, p2: Vec2, t: number): Vec2 {
+    const s = 1 - t;
+    return new Vec2(
+        s*s*p0.x + 2*s*t*p1.x + t*t*p2.x,
+        s*s*p0.y + 2*s*t*p1.y + t*t*p2.y
+    );
+}
+
+/**
+ * Sample an elliptical arc given in SVG endpoint parameterization
+ * (https://www.w3.org/TR/SVG/implnote.html#ArcConversionEndpointToCenter).
+ */
+function arc(p0: Vec2, p1: Vec2, rx: number, ry: number, angle: number, largeArc: boolean, sweep: boolean, segments: number): Vec2[] {
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx < 1e-12 || ry < 1e-12)
+        return [p1];
+
+    const phi = angle * Math.PI / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (p0.x - p1.x) / 2, dy = (p0.y - p1.y) / 2;
+    const x1 =  cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    const scale = Math.sqrt(x1*x1 / (rx*rx) + y1*y1 / (ry*ry));
+    if (scale > 1) {
+        rx *= scale;
+        ry *= scale;
+    }
+    const num = rx*rx*ry*ry - rx*rx*y1*y1 - ry*ry*x1*x1;
+    const den = rx*rx*y1*y1 + ry*ry*x1*x1;
+    const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+    const cx1 =  coef * rx * y1 / ry;
+    const cy1 = -coef * ry * x1 / rx;
+
+    const cx = cos * cx1 - sin * cy1 + (p0.x + p1.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (p0.y + p1.y) / 2;
+    const theta0 = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+    let delta = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - theta0;
+
+    if (sweep && delta < 0)     delta += 2 * Math.PI;
+    if (!sweep && delta > 0)    delta -= 2 * Math.PI;
+
+    const points: Vec2[] = [];
+    for (let i = 1; i <= segments; i++) {
+        const t = theta0 + delta * i / segments;
+        const x = rx * Math.cos(t), y = ry * Math.sin(t);
+        points.push(new Vec2(cos * x - sin * y + cx, sin * x + cos * y + cy));
+    }
+    return points;
+}
+
+/**
+ * Flatten an SVG path `d` attribute into one polyline per subpath. Curves and
+ * arcs are sampled with a fixed number of segments each. The closing point of a
+ * subpath is dropped when it repeats the first one.
+ * @param d - path data
+ * @param segments - samples per curve segment
+ */
+export function parseSVGPath(d: string, segments: number = 16): Vec2[][] {
+    const tokens = d.match(TOKEN) ?? [];
+    const paths: Vec2[][] = [];
+
+    let current: Vec2[] = [];
+    let cursor = new Vec2(0, 0);
+    let start = new Vec2(0, 0);
+    let control: Vec2 | null = null;    // last control point, reflected by S and T
+    let family = '';                    // 'C' or 'Q' when the last segment was that kind of curve
+    let command = '';
+    let i = 0;
+
+    const flush = () => {
+        if (current.length > 1 && current[0].minus(current[current.length - 1]).norm() < 1e-9)
+            current.pop();
+        if (current.length > 0)
+            paths.push(current);
+        current = [];
+    };
+    const num = () => {
+        const value = parseFloat(tokens[i++]);
+        if (!Number.isFinite(value))
+            throw new Error(`Malformed SVG path near token ${i - 1} of "${d.slice(0, 40)}..."`);
+        return value;
+    };
+
+    while (i < tokens.length) {
+        if (/^[a-zA-Z]$/.test(tokens[i]))
+            command = tokens[i++];
+        else if (!command)
+            throw new Error(`Expected a command in SVG path near token ${i} of "${d.slice(0, 40)}..."`);
+
+        const upper = command.toUpperCase();
+        const relative = command !== upper;
+
+        const point = (x: number, y: number) => relative ? new Vec2(cursor.x + x, cursor.y + y) : new Vec2(x, y);
+        const reflected = (kind: string) => control && family === kind ? cursor.times(2).minus(control) : cursor;
+        let next: Vec2 | null = null;
+
+        // drawing right after Z starts a new subpath at the current point
+        if (upper !== 'M' && upper !== 'Z' && current.length === 0)
+            current.push(cursor);
+
+        switch (upper) {
+            case 'M': {
+                flush();
+                next = point(num(), num());
+                start = next;
+                current.push(next);
+                command = relative ? 'l' : 'L';   // further pairs are implicit line-tos
+                break;
+            }
+            case 'L':
+                next = point(num(), num());
+                current.push(next);
+                break;
+            case 'H':
+                next = new Vec2(relative ? cursor.x + num() : num(), cursor.y);
+                current.push(next);
+                break;
+            case 'V':
+                next = new Vec2(cursor.x, relative ? cursor.y + num() : num());
+                current.push(next);
+                break;
+            case 'C':
+            case 'S': {
+                const c1 = upper === 'C' ? point(num(), num()) : reflected('C');
+                const c2 = point(num(), num());
+                next = point(num(), num());
+                for (let k = 1; k <= segments; k++)
+                    current.push(cubic(cursor, c1, c2, next, k / segments));
+                control = c2;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const c = upper === 'Q' ? point(num(), num()) : reflected('Q');
+                next = point(num(), num());
+                for (let k = 1; k <= segments; k++)
+                    current.push(quadratic(cursor, c, next, k / segments));
+                control = c;
+                break;
+            }
+            case 'A': {
+                const rx = num(), ry = num(), angle = num();
+                const largeArc = num() !== 0, sweep = num() !== 0;
+                next = point(num(), num());
+                current.push(...arc(cursor, next, rx, ry, angle, largeArc, sweep, segments));
+                break;
+            }
+            case 'Z': {
+                next = start;
+                flush();
+                command = '';                       // Z takes no arguments to repeat
+                break;
+            }
+        }
+        family = upper === 'C' || upper === 'S' ? 'C' : upper === 'Q' || upper === 'T' ? 'Q' : '';
+        cursor = next!;
+    }
+    flush();
+
+    return paths;
+}
+
+/**
+ * Collect the `d` attribute of every <path> element in an SVG document.
+ * Transforms and other shape elements are ignored.
+ */
+export function extractSVGPaths(svg: string): string[] {
+    const paths: string[] = [];
+    for (const [element] of svg.matchAll(/<path\b[^>]*>/g)) {
+        const match = element.match(/\sd\s*=\s*("([^"]*)"|'([^']*)')/);
+        if (match)
+            paths.push(match[2] ?? match[3]);
+    }
+    return paths;
+}
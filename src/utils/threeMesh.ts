@@ -3,6 +3,9 @@ import { Vec3, SkinnedMeshData } from '@/interface';
 import { MeshData } from '@/interface';
 import { SkelData } from '@/interface';
 import { deepCopy } from '@/utils/misc';
+import { SerializedSkinnedMeshData, serializeSkinnedMeshData, deserializeSkinnedMeshData } from '@/utils/serialize';
+import { AnimationData, getAnimations } from '@/utils/animation';
+import { RepairOptions, validateMesh, isValidMesh, summarizeReport, repairSkinnedMeshData } from '@/utils/validate';
 
 /**
  * Build a Three.js mesh from vertex/face data.
@@ -31,6 +34,9 @@ export const buildMesh = (mesh: MeshData, skin: boolean = true): THREE.SkinnedMe
 /**
  * Build a Three.js Skeleton from joint positions and bone connectivity.
  * Constructs a bone hierarchy via DFS starting from the root bone.
+ * Bones closing a loop in the connectivity are left out of the hierarchy, and
+ * the roots of other connected components are attached to the root bone.
+ * Bone i is named `joint_i` so that exported skeletons stay readable.
  * @param skel - [joints, bones] tuple
  * @param root - index of the root bone (default 0)
  */
@@ -40,24 +46,37 @@ export const buildSkel = (skel: SkelData, root: number = 0): THREE.Skeleton => {
     const bonesArray: THREE.Bone[] = [];
     skel[0].forEach((joint, i) => {
         bonesArray.push(new THREE.Bone());
+        bonesArray[i].name = `joint_${i}`;
         bonesArray[i].position.set(joint.x, joint.y, joint.z);
     });
     skel[1].forEach(([x, y]) => {
         adjList[x].push(y);
         adjList[y].push(x);
     });
-    let stack: [number, number][] = [];
-    if (root >= 0 && root < bonesArray.length)
-        stack.push([root, -1]);
-
-    while (stack.length > 0) {
-        let [u, p] = stack.pop();
-        for (let v of adjList[u])
-            if (v !== p) {
-                stack.push([v, u]);
-                bonesArray[u].attach(bonesArray[v]);
-            }
+    let stack: number[] = [];
+    let visited = new Array(joints.length).fill(false);
+    const traverse = (start: number) => {
+        stack.push(start);
+        visited[start] = true;
+
+        while (stack.length > 0) {
+            let u = stack.pop();
+            for (let v of adjList[u])
+                if (!visited[v]) {
+                    visited[v] = true;
+                    stack.push(v);
+                    bonesArray[u].attach(bonesArray[v]);
+                }
+        }
     }
+    if (root >= 0 && root < bonesArray.length)
+        traverse(root);
+
+    for (let i = 0; i < bonesArray.length; i++)
+        if (!visited[i] && root >= 0 && root < bonesArray.length) {
+            traverse(i);
+            bonesArray[root].attach(bonesArray[i]);
+        }
     return new THREE.Skeleton(bonesArray);
 }
 /**
@@ -226,15 +245,151 @@ export const skinnedMeshFromData = (data: SkinnedMeshData): THREE.SkinnedMesh =>
     return mesh;
 }
 /**
- * Serialize a SkinnedMesh back into plain data (inverse of {@link skinnedMeshFromData}).
- * Extracts world-space mesh geometry, skeleton, and per-bone skin weights.
+ * Bake the current pose of a SkinnedMesh into rest-pose data: vertices are
+ * deformed by linear blend skinning and joints placed at their posed bones,
+ * both in world space. Skinning the result with its own skeleton in the bind
+ * pose gives back the posed surface.
  */
-export const skinnedMeshToData = (skinnedMesh: THREE.SkinnedMesh): SkinnedMeshData => {
+export const bakeSkinnedMesh = (skinnedMesh: THREE.SkinnedMesh): SkinnedMeshData => {
     skinnedMesh.updateMatrixWorld(true);
 
-    let mesh = extractMeshData(skinnedMesh);
-    let skel = extractSkelData(skinnedMesh);
-    let { skinWeights, skinIndices } = getSkinWeights(skinnedMesh);
+    const [V, F] = extractMeshData(skinnedMesh);
+    const v = new THREE.Vector3();
+    for (let i = 0; i < V.length; i++) {
+        skinnedMesh.getVertexPosition(i, v).applyMatrix4(skinnedMesh.matrixWorld);
+        V[i] = new Vec3(v.x, v.y, v.z);
+    }
+    const skel = extractSkelData(skinnedMesh);
+    const { skinWeights, skinIndices } = getSkinWeights(skinnedMesh);
+
+    return { mesh: [V, F], skel, skinWeights, skinIndices };
+}
+/**
+ * Serialize a SkinnedMesh back into plain data (inverse of {@link skinnedMeshFromData}).
+ * Extracts world-space mesh geometry, skeleton, and per-bone skin weights,
+ * with the current pose baked in (see {@link bakeSkinnedMesh}).
+ */
+export const skinnedMeshToData = (skinnedMesh: THREE.SkinnedMesh): SkinnedMeshData =>
+    bakeSkinnedMesh(skinnedMesh);
+/**
+ * Validate a SkinnedMesh built by {@link skinnedMeshFromData} and, when it has
+ * defects {@link repairSkinnedMeshData} can fix, rebuild it from repaired data.
+ * Otherwise the mesh itself is returned. Defects left over, such as
+ * self-intersections or large holes, are reported as a warning.
+ */
+export const repairSkinnedMesh = (mesh: THREE.SkinnedMesh, options: RepairOptions = {}): THREE.SkinnedMesh => {
+    const { maxHoleSize = 8 } = options;
+    const data = skinnedMeshToData(mesh);
+    let report = validateMesh(data.mesh, options.tolerance);
+    let result = mesh;
+
+    if (report.duplicateVertices.length > 0 ||
+        report.degenerateFaces.length > 0 ||
+        report.inconsistentEdges.length > 0 ||
+        report.boundaryLoops.some(loop => loop.length <= maxHoleSize)) {
+        const fixed = repairSkinnedMeshData({
+            ...data,
+            skinWeights: data.skinWeights ?? data.mesh[0].map(() => []),
+        }, options);
+        result = skinnedMeshFromData(fixed);
+        result.name = mesh.name;
+        report = validateMesh(fixed.mesh, options.tolerance);
+    }
+    if (!isValidMesh(report))
+        console.warn(`[repairSkinnedMesh] ${mesh.name || 'mesh'} has ${summarizeReport(report)}`);
+    return result;
+}
+/**
+ * Plain-data copy of a scene mesh, enough to rebuild it exactly.
+ * Geometry and joints are stored in the local frame of the mesh and in the
+ * bind pose; the transform of the mesh and the pose of every bone are kept
+ * as local matrices.
+ */
+export interface MeshSnapshot {
+    /** `userData.uid` of the mesh, when it was taken from a scene */
+    uid?: number;
+    name: string;
+    data: SerializedSkinnedMeshData;
+    matrix: number[];
+    pose: number[][];
+    /** Keyframe animations, whose poses are in the same frame as `pose` */
+    animations?: AnimationData[];
+}
+/**
+ * Take a {@link MeshSnapshot} of a SkinnedMesh built by {@link skinnedMeshFromData}.
+ */
+export const snapshotSkinnedMesh = (mesh: THREE.SkinnedMesh): MeshSnapshot => {
+    mesh.updateMatrixWorld(true);
+
+    const posAttr = mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const idxAttr = mesh.geometry.getIndex()!;
+    const V: Vec3[] = [];
+    const F: number[][] = [];
+    for (let i = 0; i < posAttr.count; i++)
+        V.push(new Vec3(posAttr.getX(i), posAttr.getY(i), posAttr.getZ(i)));
+    for (let i = 0; i < idxAttr.count; i += 3)
+        F.push([idxAttr.getX(i), idxAttr.getX(i + 1), idxAttr.getX(i + 2)]);
+
+    // bind pose of joint i: inverse of its bone inverse, taken back to the mesh frame
+    // (bindMatrixInverse follows the current transform in attached mode, so invert bindMatrix)
+    const toMesh = mesh.bindMatrix.clone().invert();
+    const bind = new THREE.Matrix4();
+    const J: Vec3[] = mesh.skeleton.boneInverses.map((inverse: THREE.Matrix4) => {
+        bind.copy(inverse).invert().premultiply(toMesh);
+        const p = new THREE.Vector3().setFromMatrixPosition(bind);
+        return new Vec3(p.x, p.y, p.z);
+    });
+    const { skinWeights, skinIndices } = getSkinWeights(mesh);
+
+    return {
+        uid: mesh.userData.uid,
+        name: mesh.name,
+        data: serializeSkinnedMeshData({
+            mesh: [V, F],
+            skel: [J, deepCopy(mesh.userData.bones || [])],
+            skinWeights: skinWeights ?? V.map(() => []),
+            skinIndices: skinIndices ?? null,
+        }),
+        matrix: mesh.matrix.toArray(),
+        pose: mesh.skeleton.bones.map((bone: THREE.Bone) => bone.matrix.toArray()),
+        animations: deepCopy(getAnimations(mesh)),
+    };
+}
+/**
+ * Rebuild a SkinnedMesh from a {@link MeshSnapshot}, with the same transform,
+ * pose, name and uid as the mesh it was taken from.
+ */
+export const restoreSkinnedMesh = (snapshot: MeshSnapshot): THREE.SkinnedMesh => {
+    const mesh = skinnedMeshFromData(deserializeSkinnedMeshData(snapshot.data));
+
+    // skinnedMeshFromData moved the origin to the centroid c: compose it back in
+    const centroid = mesh.position.clone();
+    const matrix = new THREE.Matrix4().fromArray(snapshot.matrix);
+    matrix.multiply(new THREE.Matrix4().makeTranslation(centroid.x, centroid.y, centroid.z));
+    matrix.decompose(mesh.position, mesh.quaternion, mesh.scale);
 
-    return { mesh, skel, skinWeights, skinIndices };
-}
\ No newline at end of file
+    const shift = new THREE.Matrix4().makeTranslation(-centroid.x, -centroid.y, -centroid.z);
+    const isRoot = mesh.skeleton.bones.map((bone: THREE.Bone) => !(bone.parent instanceof THREE.Bone));
+    const pose = new THREE.Matrix4();
+    mesh.skeleton.bones.forEach((bone: THREE.Bone, i: number) => {
+        if (!snapshot.pose[i]) return;
+        pose.fromArray(snapshot.pose[i]);
+        if (isRoot[i])
+            pose.premultiply(shift);
+        pose.decompose(bone.position, bone.quaternion, bone.scale);
+    });
+    // keyframe poses move with the bones they belong to
+    mesh.userData.animations = (snapshot.animations ?? []).map(animation => ({
+        ...animation,
+        keyframes: animation.keyframes.map(({ time, pose: matrices }) => ({
+            time,
+            pose: matrices.map((m, i) => isRoot[i] ? pose.fromArray(m).premultiply(shift).toArray() : [...m]),
+        })),
+    }));
+    mesh.name = snapshot.name;
+    if (snapshot.uid !== undefined)
+        mesh.userData.uid = snapshot.uid;
+    mesh.updateMatrixWorld(true);
+
+    return mesh;
+}
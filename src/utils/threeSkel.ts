@@ -196,7 +196,16 @@ export function createSkeleton(data: THREE.SkinnedMesh | THREE.Skeleton | SkelDa
     const group = new THREE.Group();
     group.userData.isHelper = true;
 
-    if (data instanceof THREE.SkinnedMesh) return createSkeleton(data.skeleton);
+    if (data instanceof THREE.SkinnedMesh) {
+        const bones = data.userData.bones as [number, number][] | undefined;
+        if (!bones) return createSkeleton(data.skeleton);
+
+        // draw from the bone pairs so that loop-closing bones are shown as well
+        const joints = data.skeleton.bones;
+        joints.forEach(bone => group.add(new SkeletonJoint(bone)));
+        bones.forEach(([i0, i1]) => group.add(new SkeletonBone(joints[i0], joints[i1])));
+        return group;
+    }
     if (data instanceof THREE.Skeleton) {
         data.bones.forEach(bone => {
             group.add(new SkeletonJoint(bone));
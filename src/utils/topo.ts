@@ -1,12 +1,9 @@
 import Queue from './misc';
+import { HalfEdgeMesh } from './halfedge';
 
-var graphlib = require("graphlib");
 var cdt2d = require('cdt2d');
 
-const Graph = graphlib.Graph;
-type Graph = InstanceType<typeof Graph>;
-
-export function expand(g: Graph, src: number[], dst: number): [number[], number[]] {
+export function expand(mesh: HalfEdgeMesh, src: number[], dst: number): [number[], number[]] {
     const visited = new Set<number>();
     const queue = new Queue();
     const layer = [];
@@ -22,8 +19,7 @@ export function expand(g: Graph, src: number[], dst: number): [number[], number[
             let u = queue.pop();
             expand.push(u);
 
-            for (let e of g.outEdges(u)) {
-                let v = Number(e.w);
+            for (let v of mesh.neighbours(u)) {
                 if (!visited.has(v)) {
                     visited.add(v);
                     queue.push(v);
@@ -37,31 +33,26 @@ export function expand(g: Graph, src: number[], dst: number): [number[], number[
     }
     return [expand, layer];
 }
-export function extraceBoundaryLoops(g: Graph): number[][] {
-    const edgeMap = new Map<String, [number, number]>();
-    const tmpGraph = new Graph();
-
-    for (let e of g.edges()) {
-        const u = Number(e.v);
-        const v = Number(e.w);
-        const key = u < v ? u + '-' + v : v + '-' + u;
-
-        if (!edgeMap.has(key)) {
-            edgeMap.set(key, [v, u]);
-        } else {
-            edgeMap.delete(key);
+export function extraceBoundaryLoops(mesh: HalfEdgeMesh): number[][] {
+    return mesh.boundaryLoops();
+}
+/**
+ * Faces of the mesh with all their vertices in the region.
+ */
+export function regionFaces(mesh: HalfEdgeMesh, region: Set<number>): number[][] {
+    const faces: number[][] = [];
+    region.forEach(x => {
+        for (const h of mesh.outgoingEdges(x)) {
+            if (mesh.face(h) < 0)   continue;
+            const y = mesh.target(h);
+            const z = mesh.source(mesh.prev(h));
+
+            if (!region.has(y))   continue;
+            if (!region.has(z))   continue;
+
+            if (x < y && x < z)
+                faces.push([x, y, z]);
         }
-    }
-    for (let [_, [u, v]] of edgeMap)
-        tmpGraph.setEdge(u, v);
-    
-    const componenets = graphlib.alg.components(tmpGraph);
-    const boundaryLoops = [];
-    componenets.forEach(component => {
-        const node = component[0];
-        const loop = graphlib.alg.preorder(tmpGraph, node).map(x => Number(x));
-        boundaryLoops.push(loop);
     });
-
-    return boundaryLoops;
-}
\ No newline at end of file
+    return faces;
+}
@@ -0,0 +1,338 @@
+/**
+ * Validation and repair of triangle meshes.
+ *
+ * validateMesh lists the defects merges and cuts can leave behind, with the
+ * indices of the elements involved. The repair operations each fix one kind
+ * of defect and repairMesh chains them; they never move vertices, so the
+ * vertices of a repaired mesh map back to input vertices and data attached
+ * to them, such as skin weights, carries over.
+ *
+ * Tolerances are relative to the diagonal of the bounding box, as in
+ * weldVertices.
+ */
+
+import { Vec3, MeshData, SkinnedMeshData } from '@/interface';
+import { BVH, Box } from '@/utils/bvh';
+import * as geo3d from '@/utils/geo3d';
+
+export interface ValidationReport {
+    /** Edges [u, v] shared by more than two faces */
+    nonManifoldEdges: [number, number][];
+    /** Vertices whose faces form several fans */
+    nonManifoldVertices: number[];
+    /** Edges [u, v] run in the same direction by both of their faces */
+    inconsistentEdges: [number, number][];
+    /** Faces with a repeated vertex or a height below the tolerance */
+    degenerateFaces: number[];
+    /** Pairs [duplicate, first] of vertices at the same position */
+    duplicateVertices: [number, number][];
+    /** Boundary loops, in the order a face filling the hole would run them */
+    boundaryLoops: number[][];
+    /** Pairs of faces without a shared vertex crossing each other */
+    selfIntersections: [number, number][];
+}
+
+export interface RepairOptions {
+    /** Relative distance under which vertices are welded and faces are flat */
+    tolerance?: number;
+    /** Holes with at most this many edges are filled */
+    maxHoleSize?: number;
+}
+
+const edgeKey = (u: number, v: number) => u < v ? `${u}-${v}` : `${v}-${u}`;
+
+function diagonal(V: Vec3[]): number {
+    let lo = [Infinity, Infinity, Infinity], hi = [-Infinity, -Infinity, -Infinity];
+    V.forEach(v => [v.x, v.y, v.z].forEach((x, k) => {
+        lo[k] = Math.min(lo[k], x);
+        hi[k] = Math.max(hi[k], x);
+    }));
+    return V.length > 0 ? Math.hypot(hi[0] - lo[0], hi[1] - lo[1], hi[2] - lo[2]) : 0;
+}
+
+/** Faces of every undirected edge, with the direction each one runs it in. */
+function edgeFaces(F: number[][]): Map<string, [number, number, number][]> {
+    const edges = new Map<string, [number, number, number][]>();
+    F.forEach((f, fi) => f.forEach((u, k) => {
+        const v = f[(k + 1) % f.length];
+        const key = edgeKey(u, v);
+        if (!edges.has(key)) edges.set(key, []);
+        edges.get(key).push([fi, u, v]);
+    }));
+    return edges;
+}
+
+function isDegenerate(V: Vec3[], f: number[], eps: number): boolean {
+    if (new Set(f).size < 3) return true;
+    const [a, b, c] = f.map(i => V[i]);
+    const longest = Math.max(b.minus(a).norm(), c.minus(b).norm(), a.minus(c).norm());
+    // height on the longest side
+    return b.minus(a).cross(c.minus(a)).norm() <= eps * longest;
+}
+
+/**
+ * Chains the edges used by a single face into loops, each edge taken against
+ * the direction of its face.
+ */
+function boundaryLoops(F: number[][]): number[][] {
+    const next = new Map<number, number[]>();
+    edgeFaces(F).forEach(list => {
+        if (list.length !== 1) return;
+        const [, u, v] = list[0];
+        if (!next.has(v)) next.set(v, []);
+        next.get(v).push(u);
+    });
+    const loops: number[][] = [];
+    for (const [start] of next) {
+        while (next.get(start).length > 0) {
+            const loop: number[] = [];
+            let v = start;
+            do {
+                loop.push(v);
+                v = next.get(v).pop();
+            } while (v !== start && next.get(v)?.length > 0);
+            loops.push(loop);
+        }
+    }
+    return loops;
+}
+
+/**
+ * Whether segment pq crosses triangle abc: its ends lie on both sides of the
+ * plane and the crossing point inside the triangle. The side tests use the
+ * crossing point rather than the orientation of pq against each side, which
+ * rounding makes unreliable for nearly coplanar faces. Touching and coplanar
+ * cases are left out.
+ */
+function segmentCrossesTriangle(p: Vec3, q: Vec3, a: Vec3, b: Vec3, c: Vec3): boolean {
+    const n = b.minus(a).cross(c.minus(a));
+    const dp = n.dot(p.minus(a)), dq = n.dot(q.minus(a));
+    if (dp * dq >= 0) return false;
+    const x = p.plus(q.minus(p).times(dp / (dp - dq)));
+    return [[a, b], [b, c], [c, a]].every(([u, v]) => v.minus(u).cross(x.minus(u)).dot(n) > 0);
+}
+
+function selfIntersections(V: Vec3[], F: number[][]): [number, number][] {
+    if (F.length === 0) return [];
+    const bvh = new BVH([V, F]);
+    const pairs: [number, number][] = [];
+    F.forEach((f, fi) => {
+        const [a, b, c] = f.map(i => V[i]);
+        const box: Box = [
+            Math.min(a.x, b.x, c.x), Math.min(a.y, b.y, c.y), Math.min(a.z, b.z, c.z),
+            Math.max(a.x, b.x, c.x), Math.max(a.y, b.y, c.y), Math.max(a.z, b.z, c.z),
+        ];
+        bvh.queryBox(box, gi => {
+            if (gi <= fi || F[gi].some(i => f.includes(i))) return;
+            const [d, e, g] = F[gi].map(i => V[i]);
+            const crosses =
+                segmentCrossesTriangle(a, b, d, e, g) || segmentCrossesTriangle(b, c, d, e, g) || segmentCrossesTriangle(c, a, d, e, g) ||
+                segmentCrossesTriangle(d, e, a, b, c) || segmentCrossesTriangle(e, g, a, b, c) || segmentCrossesTriangle(g, d, a, b, c);
+            if (crosses) pairs.push([fi, gi]);
+        });
+    });
+    return pairs;
+}
+
+/**
+ * Checks a triangle mesh for the defects listed in {@link ValidationReport}.
+ */
+export function validateMesh(mesh: MeshData, tolerance: number = 1e-6): ValidationReport {
+    const [V, F] = mesh;
+    const eps = Math.max(diagonal(V) * tolerance, 1e-12);
+
+    const nonManifoldEdges: [number, number][] = [];
+    const inconsistentEdges: [number, number][] = [];
+    edgeFaces(F).forEach(list => {
+        const [, u, v] = list[0];
+        if (list.length > 2) nonManifoldEdges.push([Math.min(u, v), Math.max(u, v)]);
+        if (list.length === 2 && list[1][1] === u) inconsistentEdges.push([u, v]);
+    });
+
+    // the link of a vertex, its opposite edges, is one path or cycle when its faces form one fan
+    const links = new Map<number, [number, number][]>();
+    F.forEach(f => f.forEach((v, k) => {
+        if (!links.has(v)) links.set(v, []);
+        links.get(v).push([f[(k + 1) % 3], f[(k + 2) % 3]]);
+    }));
+    const nonManifoldVertices: number[] = [];
+    links.forEach((link, v) => {
+        const parent = new Map<number, number>();
+        const find = (i: number): number => parent.get(i) === i ? i : (parent.set(i, find(parent.get(i))), parent.get(i));
+        link.flat().forEach(i => parent.set(i, i));
+        link.forEach(([a, b]) => parent.set(find(a), find(b)));
+        if (new Set([...parent.keys()].map(find)).size > 1) nonManifoldVertices.push(v);
+    });
+
+    const [, remap] = geo3d.weldVertices(V, tolerance) as [Vec3[], number[]];
+    const first = new Map<number, number>();
+    const duplicateVertices: [number, number][] = [];
+    remap.forEach((w, i) => {
+        if (first.has(w)) duplicateVertices.push([i, first.get(w)]);
+        else first.set(w, i);
+    });
+
+    return {
+        nonManifoldEdges,
+        nonManifoldVertices,
+        inconsistentEdges,
+        degenerateFaces: F.map((f, fi) => isDegenerate(V, f, eps) ? fi : -1).filter(fi => fi >= 0),
+        duplicateVertices,
+        boundaryLoops: boundaryLoops(F),
+        selfIntersections: selfIntersections(V, F),
+    };
+}
+
+/** Whether the report is free of any defect. */
+export function isValidMesh(report: ValidationReport): boolean {
+    return Object.values(report).every(list => list.length === 0);
+}
+
+/** One line listing the defects of a report, e.g. for a console warning. */
+export function summarizeReport(report: ValidationReport): string {
+    const labels: [keyof ValidationReport, string][] = [
+        ['nonManifoldEdges', 'non-manifold edges'],
+        ['nonManifoldVertices', 'non-manifold vertices'],
+        ['inconsistentEdges', 'inconsistently oriented edges'],
+        ['degenerateFaces', 'degenerate faces'],
+        ['duplicateVertices', 'duplicate vertices'],
+        ['boundaryLoops', 'open boundaries'],
+        ['selfIntersections', 'self-intersecting face pairs'],
+    ];
+    const parts = labels.filter(([key]) => report[key].length > 0).map(([key, label]) => `${report[key].length} ${label}`);
+    return parts.length > 0 ? parts.join(', ') : 'valid';
+}
+
+/**
+ * Merges vertices closer than the tolerance, keeping the first of each
+ * cluster. Returns the mesh and, for every new vertex, the input vertex it is.
+ */
+export function weldDuplicateVertices(mesh: MeshData, tolerance: number = 1e-6): [MeshData, number[]] {
+    const [V, F] = mesh;
+    const [W, remap] = geo3d.weldVertices(V, tolerance) as [Vec3[], number[]];
+    const source = new Array(W.length).fill(-1);
+    remap.forEach((w, i) => { if (source[w] < 0) source[w] = i; });
+    return [[W, F.map(f => f.map(i => remap[i]))], source];
+}
+
+/** Drops faces with a repeated vertex or a height below the tolerance. */
+export function removeDegenerateFaces(mesh: MeshData, tolerance: number = 1e-6): MeshData {
+    const [V, F] = mesh;
+    const eps = Math.max(diagonal(V) * tolerance, 1e-12);
+    return [V, F.filter(f => !isDegenerate(V, f, eps))];
+}
+
+/**
+ * Orients the faces of every connected piece consistently, spreading the
+ * orientation of one face across manifold edges, and turns closed pieces
+ * outward: a ray leaving a face along its normal must cross the surface an
+ * even number of times.
+ */
+export function reorientFaces(mesh: MeshData): MeshData {
+    const [V] = mesh;
+    const F = mesh[1].map(f => [...f]);
+    const edges = edgeFaces(F);
+    const visited = new Array(F.length).fill(false);
+    const components: number[][] = [];
+
+    F.forEach((_, seed) => {
+        if (visited[seed]) return;
+        const component = [seed];
+        visited[seed] = true;
+        for (let k = 0; k < component.length; k++) {
+            const f = F[component[k]];
+            f.forEach((u, j) => {
+                const v = f[(j + 1) % f.length];
+                const list = edges.get(edgeKey(u, v));
+                if (list.length !== 2) return;
+                const g = list[0][0] === component[k] ? list[1][0] : list[0][0];
+                if (visited[g]) return;
+                // g must run the edge from v to u
+                if (F[g].some((x, i) => x === u && F[g][(i + 1) % F[g].length] === v)) F[g].reverse();
+                visited[g] = true;
+                component.push(g);
+            });
+        }
+        components.push(component);
+    });
+
+    const bvh = F.length > 0 ? new BVH([V, F]) : null;
+    const area = (f: number[]) => V[f[1]].minus(V[f[0]]).cross(V[f[2]].minus(V[f[0]]));
+    for (const component of components) {
+        const closed = component.every(fi => F[fi].every((u, j) => edges.get(edgeKey(u, F[fi][(j + 1) % 3])).length === 2));
+        if (!closed) continue;
+        const largest = component.reduce((best, fi) => area(F[fi]).norm() > area(F[best]).norm() ? fi : best);
+        const f = F[largest];
+        const normal = area(f).unit();
+        const centroid = V[f[0]].plus(V[f[1]]).plus(V[f[2]]).over(3);
+        if (bvh.countHits(centroid, normal, 1e-9) % 2 === 1)
+            component.forEach(fi => F[fi].reverse());
+    }
+    return [V, F];
+}
+
+/**
+ * Closes the holes of at most maxHoleSize edges by ear clipping, always
+ * cutting the ear with the shortest new edge. Ears too flat to make a valid
+ * face are skipped, and holes without a valid ear are left open.
+ */
+export function fillSmallHoles(mesh: MeshData, maxHoleSize: number = 8, tolerance: number = 1e-6): MeshData {
+    const [V, F] = mesh;
+    const eps = Math.max(diagonal(V) * tolerance, 1e-12);
+    const added: number[][] = [];
+
+    for (const hole of boundaryLoops(F)) {
+        if (hole.length > maxHoleSize) continue;
+        const loop = [...hole];
+        const faces: number[][] = [];
+        while (loop.length > 3) {
+            let best = -1, shortest = Infinity;
+            loop.forEach((v, i) => {
+                const prev = loop[(i + loop.length - 1) % loop.length];
+                const next = loop[(i + 1) % loop.length];
+                const length = V[prev].minus(V[next]).norm();
+                if (length < shortest && !isDegenerate(V, [prev, v, next], eps)) best = i, shortest = length;
+            });
+            if (best < 0) break;
+            faces.push([loop[(best + loop.length - 1) % loop.length], loop[best], loop[(best + 1) % loop.length]]);
+            loop.splice(best, 1);
+        }
+        if (loop.length === 3 && !isDegenerate(V, loop, eps))
+            added.push(...faces, loop);
+    }
+    return [V, [...F, ...added]];
+}
+
+/**
+ * Welds duplicate vertices, removes degenerate faces, reorients the faces
+ * and fills small holes, then drops the vertices no face uses. Returns the
+ * mesh and, for every vertex, the input vertex it comes from.
+ */
+export function repairMesh(mesh: MeshData, options: RepairOptions = {}): [MeshData, number[]] {
+    const { tolerance = 1e-6, maxHoleSize = 8 } = options;
+    let [result, source] = weldDuplicateVertices(mesh, tolerance);
+    result = removeDegenerateFaces(result, tolerance);
+    result = reorientFaces(result);
+    result = fillSmallHoles(result, maxHoleSize, tolerance);
+    // pieces closed by the filling are turned outward now
+    result = reorientFaces(result);
+
+    const [V, F] = result;
+    const index = new Array(V.length).fill(-1);
+    const used: number[] = [];
+    F.forEach(f => f.forEach(i => {
+        if (index[i] < 0) index[i] = used.push(i) - 1;
+    }));
+    return [[used.map(i => V[i]), F.map(f => f.map(i => index[i]))], used.map(i => source[i])];
+}
+
+/** {@link repairMesh} for a rigged mesh, carrying the skin weights along. */
+export function repairSkinnedMeshData(data: SkinnedMeshData, options: RepairOptions = {}): SkinnedMeshData {
+    const [mesh, source] = repairMesh(data.mesh, options);
+    return {
+        mesh,
+        skel: data.skel,
+        skinWeights: source.map(i => [...data.skinWeights[i]]),
+        skinIndices: data.skinIndices && source.map(i => [...data.skinIndices[i]]),
+    };
+}
@@ -0,0 +1,10 @@
+import { MeshGenService } from './meshgenService';
+
+/**
+ * MeshGenService on the bundled MeshGen worker. The worker URL needs
+ * import.meta, which only the bundler resolves, so it lives here and
+ * meshgenService.ts loads without one, e.g. in tests.
+ */
+export function createMeshGenService(): MeshGenService {
+    return new MeshGenService(() => new Worker(new URL('./meshgen.worker.ts', import.meta.url)));
+}
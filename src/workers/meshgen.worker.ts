@@ -0,0 +1,86 @@
+import { MeshGen } from '@/core/meshgen';
+import { computeSkinWeights } from '@/core/skin';
+import { buildPipes, smoothPipes, remesh } from '@/core/pipeline';
+import { buildProfile } from '@/utils/profile';
+import {
+    serializeVec2s, deserializeVec2s,
+    serializeVec3s,
+    serializeMesh, deserializeMesh,
+    serializeSkel, deserializeSkel,
+} from '@/utils/serialize';
+import { Vec2, Vec3 } from '@/interface';
+import { MeshGenRequest, MeshGenResults, WorkerInbound, WorkerOutbound } from './protocol';
+
+const ctx = self as unknown as {
+    postMessage: (message: WorkerOutbound) => void;
+    onmessage: ((event: MessageEvent<WorkerInbound>) => void) | null;
+};
+
+let meshGen: MeshGen | null = null;
+
+function requireMeshGen(): MeshGen {
+    if (!meshGen)
+        throw new Error('MeshGen has not been initialized');
+    return meshGen;
+}
+
+function handle(request: MeshGenRequest, progress: (value: number) => void): MeshGenResults[keyof MeshGenResults] {
+    switch (request.type) {
+        case 'init': {
+            meshGen = new MeshGen(
+                deserializeVec2s(request.path),
+                request.isodistance,
+                request.holes.map(deserializeVec2s)
+            );
+            const [V, F] = meshGen.getMesh2D() as [Vec2[], number[][]];
+            return { mesh2D: [serializeVec2s(V), F], rings: meshGen.getRings() };
+        }
+        case 'chords': {
+            const gen = requireMeshGen();
+            gen.runChordSmoothing(request.iterations, request.alpha);
+            const [axis, dirs, lengths] = gen.getChords() as [Vec3[], Vec3[], number[]];
+            return { axis: serializeVec3s(axis), dirs: serializeVec3s(dirs), lengths };
+        }
+        case 'pipes': {
+            const gen = requireMeshGen();
+            const { type, depth, curve } = request.profile;
+            const profile = buildProfile(type, depth, curve && deserializeVec2s(curve));
+            const { mesh, capOffset, junctionOffset } = buildPipes(gen, profile, progress);
+            return { mesh: serializeMesh(mesh), capOffset, junctionOffset };
+        }
+        case 'smooth': {
+            return { mesh: serializeMesh(smoothPipes(requireMeshGen(), request.factor)) };
+        }
+        case 'remesh': {
+            const [V, F] = deserializeMesh(request.mesh);
+            return { mesh: serializeMesh(remesh(V, F, request.iterations, request.length, progress)) };
+        }
+        case 'skeleton': {
+            const skel = requireMeshGen().generateSkeleton(
+                request.devThreshold,
+                request.lenThreshold,
+                request.pruningThreshold
+            ) as [Vec3[], [number, number][]];
+            return { skel: serializeSkel(skel) };
+        }
+        case 'skin': {
+            const weights = computeSkinWeights(
+                deserializeMesh(request.mesh),
+                deserializeSkel(request.skel),
+                request.solver,
+                progress
+            );
+            return { weights };
+        }
+    }
+}
+
+ctx.onmessage = (event) => {
+    const { id, ...request } = event.data;
+    try {
+        const result = handle(request as MeshGenRequest, (value) => ctx.postMessage({ id, type: 'progress', value }));
+        ctx.postMessage({ id, type: 'result', result });
+    } catch (error) {
+        ctx.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
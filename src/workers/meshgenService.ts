@@ -0,0 +1,146 @@
+import {
+    MeshGenRequest,
+    MeshGenRequestType,
+    MeshGenRequestOf,
+    MeshGenResults,
+    WorkerOutbound,
+} from './protocol';
+
+export class CancelledError extends Error {
+    constructor() {
+        super('MeshGen job cancelled');
+        this.name = 'CancelledError';
+    }
+}
+
+export interface MeshGenJob<T> {
+    id: number;
+    promise: Promise<T>;
+    /** Drop the job: a queued job never runs, a running job has its result discarded. */
+    cancel: () => void;
+}
+
+interface PendingJob {
+    id: number;
+    request: MeshGenRequest;
+    resolve: (result: MeshGenResults[MeshGenRequestType]) => void;
+    reject: (error: Error) => void;
+    onProgress?: (value: number) => void;
+    cancelled: boolean;
+}
+
+const STATEFUL: MeshGenRequestType[] = ['init', 'chords', 'pipes'];
+
+/**
+ * Client side of the MeshGen worker. Jobs are queued here and posted one at a
+ * time so that cancelled jobs never reach the worker. The requests that built
+ * the worker-side state are remembered and replayed when the worker has to be
+ * restarted after {@link MeshGenService.abort}.
+ */
+export class MeshGenService {
+    private worker: Worker | null = null;
+    private queue: PendingJob[] = [];
+    private running: PendingJob | null = null;
+    private state = new Map<MeshGenRequestType, MeshGenRequest>();
+    private nextId = 1;
+
+    constructor(private createWorker: () => Worker) {}
+
+    request<K extends MeshGenRequestType>(
+        request: MeshGenRequestOf<K>,
+        onProgress?: (value: number) => void
+    ): MeshGenJob<MeshGenResults[K]> {
+        const id = this.nextId++;
+        let pending: PendingJob;
+
+        const promise = new Promise<MeshGenResults[K]>((resolve, reject) => {
+            // the worker answers a request of type K with MeshGenResults[K]
+            pending = { id, request, resolve: result => resolve(result as MeshGenResults[K]), reject, onProgress, cancelled: false };
+        });
+        this.queue.push(pending);
+        this.pump();
+
+        const cancel = () => {
+            if (pending.cancelled) return;
+            pending.cancelled = true;
+            this.queue = this.queue.filter(job => job !== pending);
+            pending.reject(new CancelledError());
+        };
+        return { id, promise, cancel };
+    }
+
+    /**
+     * Stop whatever the worker is computing right now by terminating it. Every
+     * outstanding job is rejected; the next request starts a fresh worker.
+     */
+    abort() {
+        const jobs = this.running ? [this.running, ...this.queue] : this.queue;
+        this.worker?.terminate();
+        this.worker = null;
+        this.running = null;
+        this.queue = [];
+
+        for (const job of jobs) if (!job.cancelled) {
+            job.cancelled = true;
+            job.reject(new CancelledError());
+        }
+    }
+
+    dispose() {
+        this.abort();
+        this.state.clear();
+    }
+
+    private spawn(): Worker {
+        const worker = this.createWorker();
+        worker.onmessage = (event: MessageEvent<WorkerOutbound>) => this.receive(event.data);
+        worker.onerror = (event) => {
+            event.preventDefault();
+            this.receive({ id: this.running?.id ?? -1, type: 'error', message: event.message });
+        };
+        // replay the state the previous worker had built; the replies are ignored
+        for (const request of this.state.values())
+            worker.postMessage({ id: -1, ...request });
+
+        return worker;
+    }
+
+    private pump() {
+        if (this.running) return;
+
+        const job = this.queue.shift();
+        if (!job) return;
+
+        this.worker ??= this.spawn();
+        this.running = job;
+        this.worker.postMessage({ id: job.id, ...job.request });
+    }
+
+    private receive(message: WorkerOutbound) {
+        const job = this.running;
+        if (!job || message.id !== job.id)
+            return;
+
+        if (message.type === 'progress') {
+            if (!job.cancelled) job.onProgress?.(message.value);
+            return;
+        }
+        this.running = null;
+
+        if (message.type === 'result') {
+            this.record(job.request);
+            if (!job.cancelled) job.resolve(message.result);
+        } else if (!job.cancelled) {
+            job.reject(new Error(message.message));
+        }
+        this.pump();
+    }
+
+    private record(request: MeshGenRequest) {
+        if (!STATEFUL.includes(request.type))
+            return;
+        if (request.type === 'init')    this.state.clear();
+        if (request.type === 'chords')  this.state.delete('pipes');
+        this.state.set(request.type, request);
+    }
+}
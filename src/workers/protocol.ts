@@ -0,0 +1,47 @@
+import { ProfileType } from '@/utils/profile';
+import { SkinSolver } from '@/core/skin';
+import { SerializedVec2, SerializedVec3, SerializedMesh, SerializedSkel } from '@/utils/serialize';
+
+/**
+ * Message protocol between the MeshGen worker and its clients.
+ *
+ * Requests run one at a time in the order they were posted. `init`, `chords` and
+ * `pipes` change the worker-side MeshGen state that later requests build on; the
+ * rest are pure functions of their payload.
+ */
+export interface ProfileSpec {
+    type: ProfileType;
+    depth: number;
+    curve: SerializedVec2[] | null;
+}
+
+export type MeshGenRequest =
+    | { type: 'init'; path: SerializedVec2[]; holes: SerializedVec2[][]; isodistance: number }
+    | { type: 'chords'; iterations: number; alpha: number }
+    | { type: 'pipes'; profile: ProfileSpec }
+    | { type: 'smooth'; factor: number }
+    | { type: 'remesh'; mesh: SerializedMesh; iterations: number; length: number }
+    | { type: 'skeleton'; devThreshold: number; lenThreshold: number; pruningThreshold: number }
+    | { type: 'skin'; mesh: SerializedMesh; skel: SerializedSkel; solver: SkinSolver };
+
+export type MeshGenRequestType = MeshGenRequest['type'];
+export type MeshGenRequestOf<K extends MeshGenRequestType> = Extract<MeshGenRequest, { type: K }>;
+
+export interface MeshGenResults {
+    init: { mesh2D: [SerializedVec2[], number[][]]; rings: number[][] };
+    chords: { axis: SerializedVec3[]; dirs: SerializedVec3[]; lengths: number[] };
+    pipes: { mesh: SerializedMesh; capOffset: number; junctionOffset: number };
+    smooth: { mesh: SerializedMesh };
+    remesh: { mesh: SerializedMesh };
+    skeleton: { skel: SerializedSkel };
+    skin: { weights: number[][] };
+}
+
+/** Client -> worker. */
+export type WorkerInbound = { id: number } & MeshGenRequest;
+
+/** Worker -> client. `progress` values are in [0, 1]. */
+export type WorkerOutbound =
+    | { id: number; type: 'progress'; value: number }
+    | { id: number; type: 'result'; result: MeshGenResults[MeshGenRequestType] }
+    | { id: number; type: 'error'; message: string };
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+import { Vec3, MeshData, SkinnedMeshData } from '@/interface';
+import { decimate } from '@/core/decimate';
+import { validateMesh, isValidMesh } from '@/utils/validate';
+import { weldedMeshData } from '../helpers/mesh';
+
+/** Closed tube along x from -2 to 2, rigged with two bones meeting at the origin and blended around it. */
+function tube(): SkinnedMeshData {
+    const geometry = new THREE.CylinderGeometry(0.3, 0.3, 4, 16, 40).rotateZ(Math.PI / 2);
+    const mesh = weldedMeshData(geometry);
+    const blend = (v: Vec3) => Math.max(0, Math.min(1, (v.x + 0.5)));
+    return {
+        mesh,
+        skel: [[new Vec3(-2, 0, 0), new Vec3(0, 0, 0), new Vec3(2, 0, 0)], [[0, 1], [1, 2]]],
+        skinWeights: mesh[0].map(v => [1 - blend(v), blend(v)]),
+        skinIndices: mesh[0].map(() => [0, 1]),
+    };
+}
+
+const unrigged = (mesh: MeshData): SkinnedMeshData => ({ mesh, skel: [[], []], skinWeights: mesh[0].map(() => []), skinIndices: null });
+
+describe('decimate', () => {
+    it('reaches the target count on a closed surface and keeps it closed', () => {
+        const sphere = weldedMeshData(new THREE.IcosahedronGeometry(1, 12));
+        const { mesh } = decimate(unrigged(sphere), { targetFaces: 500 });
+        const [V, F] = mesh;
+
+        expect(F.length).toBeLessThanOrEqual(500);
+        expect(F.length).toBeGreaterThan(450);
+        expect(V.length - F.length / 2).toBe(2);
+        expect(isValidMesh(validateMesh(mesh))).toBe(true);
+        V.forEach(v => expect(Math.abs(v.norm() - 1)).toBeLessThan(0.02));
+    });
+
+    it('stops at the error bound and keeps flat outlines', () => {
+        const plane = weldedMeshData(new THREE.PlaneGeometry(1, 1, 10, 10));
+        const [V, F] = decimate(unrigged(plane), { targetFaces: 0, maxError: 1e-6 }).mesh;
+        const area = F.reduce((s, [a, b, c]) => s + V[b].minus(V[a]).cross(V[c].minus(V[a])).z / 2, 0);
+
+        expect(F.length).toBeLessThan(10);
+        expect(area).toBeCloseTo(1, 9);
+        V.forEach(v => expect(v.z).toBeCloseTo(0, 9));
+
+        // a tighter bound keeps more faces
+        const sphere = weldedMeshData(new THREE.IcosahedronGeometry(1, 6));
+        const [coarse, fine] = [1e-2, 3e-3].map(maxError => decimate(unrigged(sphere), { targetFaces: 0, maxError }).mesh[1].length);
+        expect(coarse).toBeLessThan(fine);
+        expect(fine).toBeLessThan(sphere[1].length);
+    });
+
+    it('interpolates the weights and keeps the vertices around joints', () => {
+        const data = tube();
+        const result = decimate(data, { targetFaces: 400, jointRadius: 0.2 });
+        const [V] = result.mesh;
+
+        expect(isValidMesh(validateMesh(result.mesh))).toBe(true);
+        expect(result.mesh[1].length).toBeLessThanOrEqual(400);
+        result.skinWeights.forEach(w => expect(w.reduce((s, x) => s + x, 0)).toBeCloseTo(1, 9));
+
+        // vertices within 0.4 of the middle joint are all kept in place
+        const near = data.mesh[0].filter(v => v.norm() < 0.4);
+        near.forEach(v => expect(V.some(u => u.minus(v).norm() === 0)).toBe(true));
+
+        // weights follow the blend of the input away from the joint too
+        V.forEach((v, i) => {
+            const w1 = result.skinIndices[i].reduce((s, bone, k) => s + (bone === 1 ? result.skinWeights[i][k] : 0), 0);
+            expect(w1).toBeCloseTo(Math.max(0, Math.min(1, v.x + 0.5)), 1);
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import { ikChain, solveIK, IK_SOLVERS } from '@/core/ik';
+
+/** Straight chain of unit bones along x, as built by buildSkel (identity rotations). */
+function chain(n: number): THREE.Bone[] {
+    const bones = [new THREE.Bone()];
+    for (let i = 1; i <= n; i++) {
+        const bone = new THREE.Bone();
+        bone.position.set(1, 0, 0);
+        bones[i - 1].add(bone);
+        bones.push(bone);
+    }
+    bones[0].updateMatrixWorld(true);
+    return bones;
+}
+
+const world = (bone: THREE.Bone) => bone.getWorldPosition(new THREE.Vector3());
+
+describe('ikChain', () => {
+    it('walks up the given number of bones', () => {
+        const bones = chain(4);
+        expect(ikChain(bones[4], 2)).toEqual(bones.slice(2));
+        expect(ikChain(bones[4])).toEqual(bones);
+    });
+});
+
+describe.each(IK_SOLVERS)('solveIK (%s)', (solver) => {
+    it('reaches a reachable target and keeps bone lengths', () => {
+        const bones = chain(3);
+        const target = new THREE.Vector3(1.5, 1.5, 0.5);
+        const distance = solveIK(bones, target, { solver, iterations: 100 });
+
+        expect(distance).toBeLessThan(1e-2);
+        for (let i = 1; i < bones.length; i++)
+            expect(world(bones[i]).distanceTo(world(bones[i - 1]))).toBeCloseTo(1);
+        expect(world(bones[0]).length()).toBeCloseTo(0);
+    });
+
+    it('stretches towards an unreachable target', () => {
+        const bones = chain(2);
+        solveIK(bones, new THREE.Vector3(0, 10, 0), { solver });
+        expect(world(bones[2]).x).toBeCloseTo(0, 2);
+        expect(world(bones[2]).y).toBeCloseTo(2, 2);
+    });
+
+    it('keeps pinned joints and everything above them in place', () => {
+        const bones = chain(3);
+        solveIK(bones, new THREE.Vector3(1, 1.5, 0), { solver, pinned: new Set([bones[1]]) });
+
+        expect(bones[0].quaternion.angleTo(new THREE.Quaternion())).toBe(0);
+        expect(world(bones[1]).distanceTo(new THREE.Vector3(1, 0, 0))).toBeCloseTo(0);
+        expect(world(bones[3]).distanceTo(new THREE.Vector3(1, 1.5, 0))).toBeLessThan(1e-2);
+    });
+
+    it('respects joint limits', () => {
+        const bones = chain(2);
+        const limit = Math.PI / 8;
+        solveIK(bones, new THREE.Vector3(-1, 1, 0), { solver, limits: new Map([[bones[0], limit], [bones[1], limit]]) });
+        bones.slice(0, 2).forEach(bone =>
+            expect(bone.quaternion.angleTo(new THREE.Quaternion())).toBeLessThanOrEqual(limit + 1e-6));
+    });
+});
@@ -0,0 +1,109 @@
+import * as THREE from 'three';
+import { Vec3, SkinnedMeshData } from '@/interface';
+import { MeshCut, CutStroke, computeBonePlane, computeBoneSlicePlanes } from '@/core/meshcut';
+import { skinnedMeshFromData, extractMeshData, extractSkelData } from '@/utils/threeMesh';
+import { weldedMeshData } from '../helpers/mesh';
+
+// flo-mat ships ES modules only; the medial axis is not used by the cut
+jest.mock('flo-mat', () => ({ findMats: jest.fn(), CpNodeFs: {} }));
+
+/** Closed tube of radius 0.3 along x from -2 to 2, rigged with two bones meeting at the origin. */
+function tube(): THREE.SkinnedMesh {
+    const mesh = weldedMeshData(new THREE.CylinderGeometry(0.3, 0.3, 4, 16, 24).rotateZ(Math.PI / 2));
+    const [V] = mesh;
+    const data: SkinnedMeshData = {
+        mesh,
+        skel: [[new Vec3(-2, 0, 0), new Vec3(0, 0, 0), new Vec3(2, 0, 0)], [[0, 1], [1, 2]]],
+        skinWeights: V.map(() => [1]),
+        skinIndices: V.map(v => [v.x < 0 ? 0 : 1]),
+    };
+    return skinnedMeshFromData(data);
+}
+
+/** V-shaped stroke in the xy-plane with its apex at (0.5, 0), extruded along z. */
+const stroke: CutStroke = {
+    points: [new Vec3(-0.5, -1, 0), new Vec3(0.5, 0, 0), new Vec3(-0.5, 1, 0)],
+    direction: new Vec3(0, 0, 1),
+};
+
+/** Distance to the V in the xy-plane, for points on its right side. */
+const distanceToStroke = (p: Vec3) => Math.min(Math.abs(p.x - p.y - 0.5), Math.abs(p.x + p.y - 0.5)) / Math.SQRT2;
+
+describe('MeshCut with a freehand stroke', () => {
+    const cutter = new MeshCut(tube());
+    const pieces = cutter.runMeshSplit(stroke);
+
+    it('splits the mesh and the skeleton on each side of the ruled surface', () => {
+        expect(pieces).toHaveLength(2);
+        const [left, right] = pieces
+            .map(piece => extractMeshData(piece)[0])
+            .sort((a, b) => a[0].x - b[0].x);
+        // the tube surface meets the V between x = 0.2 (at |y| = 0.3) and x = 0.5 (at y = 0)
+        expect(Math.max(...left.map(v => v.x))).toBeLessThan(0.5 + 0.2);
+        expect(Math.min(...right.map(v => v.x))).toBeGreaterThan(0.2 - 0.2);
+        right.forEach(v => expect(v.x + Math.abs(v.y)).toBeGreaterThan(0.5 - 0.2));
+
+        pieces.forEach(piece => expect(extractSkelData(piece)[1].length).toBeGreaterThan(0));
+    });
+
+    it('caps the non-planar boundary loops on the cutting surface', () => {
+        pieces.forEach(piece => {
+            cutter.runMeshStitch(piece);
+            const patches = piece.children.filter(child => child.userData?.isPatch);
+            expect(patches).toHaveLength(1);
+
+            const patch = patches[0] as THREE.Mesh;
+            piece.updateMatrixWorld(true);
+            const [V] = extractMeshData(patch);
+            const inner = V.slice(patch.userData.loop.length);
+            expect(inner.length).toBeGreaterThan(0);
+            inner.forEach(v => expect(distanceToStroke(v)).toBeLessThan(1e-6));
+            // both arms of the V are used, so the cap is not planar
+            expect(inner.some(v => v.y > 0.05)).toBe(true);
+            expect(inner.some(v => v.y < -0.05)).toBe(true);
+        });
+    });
+
+    it('still cuts along a plane', () => {
+        const halves = new MeshCut(tube()).runMeshSplit({ normal: new Vec3(1, 0, 0), offset: -0.5 });
+        expect(halves).toHaveLength(2);
+        const xs = halves.map(piece => extractMeshData(piece)[0].map(v => v.x));
+        expect(xs.some(x => x.every(v => v < 0.5 + 0.2)) && xs.some(x => x.every(v => v > 0.5 - 0.2))).toBe(true);
+    });
+});
+
+describe('MeshCut with several cuts', () => {
+    it('slices a tube into pieces capped on their own planes', () => {
+        const planes = computeBoneSlicePlanes(new Vec3(-2, 0, 0), new Vec3(2, 0, 0), 4);
+        expect(planes.map(p => -p.offset)).toEqual([-1, 0, 1]);
+
+        const cutter = new MeshCut(tube());
+        const pieces = cutter.runMeshSplit(planes);
+        expect(pieces).toHaveLength(4);
+
+        const caps = pieces.map(piece => {
+            cutter.runMeshStitch(piece);
+            piece.updateMatrixWorld(true);
+            return piece.children
+                .filter(child => child.userData?.isPatch)
+                .map(patch => {
+                    const [V] = extractMeshData(patch as THREE.Mesh);
+                    const inner = V.slice(patch.userData.loop.length);
+                    const x = inner.reduce((sum, v) => sum + v.x, 0) / inner.length;
+                    inner.forEach(v => expect(v.x).toBeCloseTo(x, 5));
+                    return Math.round(x) + 0;
+                });
+        });
+        expect(caps.map(c => c.length).sort()).toEqual([1, 1, 2, 2]);
+        expect(caps.flat().sort((a, b) => a - b)).toEqual([-1, -1, 0, 0, 1, 1]);
+    });
+});
+
+describe('computeBonePlane', () => {
+    it('is normal to the bone through the point at t', () => {
+        const head = new Vec3(1, 1, 0), tail = new Vec3(1, 3, 0);
+        const { normal, offset } = computeBonePlane(head, tail, 0.25);
+        expect(normal.minus(new Vec3(0, 1, 0)).norm()).toBeCloseTo(0);
+        expect(normal.dot(new Vec3(5, 1.5, -2)) + offset).toBeCloseTo(0);
+    });
+});
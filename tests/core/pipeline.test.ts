@@ -0,0 +1,46 @@
+import { Vec2, MeshData } from '@/interface';
+import { DEFAULT_MESHGEN_PARAMS, normalizeSketch, runMeshGenPipeline } from '@/core/pipeline';
+import { validateMesh, isValidMesh } from '@/utils/validate';
+
+// flo-mat ships ES modules only; the medial axis is not used by MeshGen
+jest.mock('flo-mat', () => ({ findMats: jest.fn(), CpNodeFs: {} }));
+
+/** Ellipse around (cx, cy) sampled at n points, in screen coordinates. */
+function ellipse(cx: number, cy: number, rx: number, ry: number, n: number): Vec2[] {
+    return Array.from({ length: n }, (_, i) => {
+        const t = 2 * Math.PI * i / n;
+        return new Vec2(cx + rx * Math.cos(t), cy + ry * Math.sin(t));
+    });
+}
+
+/** V - E + F of a triangle mesh. */
+function eulerCharacteristic([V, F]: MeshData): number {
+    const edges = new Set<string>();
+    F.forEach(f => f.forEach((a, k) => {
+        const b = f[(k + 1) % 3];
+        edges.add(a < b ? `${a},${b}` : `${b},${a}`);
+    }));
+    return V.length - edges.size + F.length;
+}
+
+describe('runMeshGenPipeline', () => {
+    const outline = ellipse(300, 200, 200, 120, 96);
+
+    it('inflates a sketch without holes into a sphere', () => {
+        const [path, holes] = normalizeSketch(outline);
+        const { mesh, skel } = runMeshGenPipeline(path, holes, DEFAULT_MESHGEN_PARAMS);
+
+        expect(isValidMesh(validateMesh(mesh))).toBe(true);
+        expect(eulerCharacteristic(mesh)).toBe(2);
+        expect(skel[1]).toHaveLength(skel[0].length - 1);
+    });
+
+    it('turns a hole into a tunnel with a skeleton loop around it', () => {
+        const [path, holes] = normalizeSketch(outline, [ellipse(300, 200, 60, 30, 32)]);
+        const { mesh, skel } = runMeshGenPipeline(path, holes, DEFAULT_MESHGEN_PARAMS);
+
+        expect(isValidMesh(validateMesh(mesh))).toBe(true);
+        expect(eulerCharacteristic(mesh)).toBe(0);
+        expect(skel[1]).toHaveLength(skel[0].length);
+    });
+});
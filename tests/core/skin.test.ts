@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { Vec3, MeshData, SkelData } from '@/interface';
+import { computeSkinWeights } from '@/core/skin';
+import * as geo3d from '@/utils/geo3d';
+
+/** Closed box mesh centred at (cx, 0, 0). */
+function box(w: number, h: number, d: number, cx: number, seg: number): MeshData {
+    const geometry = new THREE.BoxGeometry(w, h, d, seg, seg * 3, seg).toNonIndexed();
+    const pos = geometry.getAttribute('position');
+    const points: Vec3[] = [];
+    for (let i = 0; i < pos.count; i++)
+        points.push(new Vec3(pos.getX(i) + cx, pos.getY(i), pos.getZ(i)));
+
+    const [V, canonical] = geo3d.weldVertices(points) as [Vec3[], number[]];
+    const F: number[][] = [];
+    for (let i = 0; i < pos.count; i += 3)
+        F.push([canonical[i], canonical[i + 1], canonical[i + 2]]);
+    return [V, F];
+}
+
+describe('computeSkinWeights', () => {
+    // a thick box with a thin box standing next to it, one vertical bone in each
+    const [VA, FA] = box(6, 12, 6, 0, 4);
+    const [VB, FB] = box(1, 12, 1, 3.7, 2);
+    const mesh: MeshData = [[...VA, ...VB], [...FA, ...FB.map(f => f.map(i => i + VA.length))]];
+    const skel: SkelData = [
+        [new Vec3(0, -5, 0), new Vec3(0, 5, 0), new Vec3(3.7, -5, 0), new Vec3(3.7, 5, 0)],
+        [[0, 1], [2, 3]],
+    ];
+    // side of the thick box that faces the thin one, closer to the thin bone than to its own
+    const facing = VA.map((_, i) => i).filter(i => Math.abs(VA[i].x - 3) < 1e-6 && Math.abs(VA[i].y) < 5);
+    const bleed = (weights: number[][]) => Math.max(...facing.map(i => weights[i][1] / (weights[i][0] + weights[i][1])));
+
+    it('lets the closest-bone solver bleed into nearby geometry', () => {
+        expect(bleed(computeSkinWeights(mesh, skel, 'closest'))).toBeGreaterThan(0.9);
+    });
+
+    it.each(['heat', 'bbw'] as const)('keeps %s weights off bones that a vertex cannot see', (solver) => {
+        const weights = computeSkinWeights(mesh, skel, solver);
+        expect(bleed(weights)).toBeLessThan(0.05);
+        for (let i = VA.length; i < mesh[0].length; i++)
+            expect(weights[i][1]).toBeGreaterThan(0.95);
+    });
+
+    it.each(['heat', 'bbw'] as const)('returns %s weights in [0, 1] for every bone', (solver) => {
+        const weights = computeSkinWeights(mesh, skel, solver);
+        expect(weights).toHaveLength(mesh[0].length);
+        for (const w of weights) {
+            expect(w).toHaveLength(2);
+            w.forEach(x => expect(x >= 0 && x <= 1).toBe(true));
+        }
+    });
+
+    it('blends smoothly across a joint', () => {
+        const elbow = box(2, 12, 2, 0, 4);
+        const bent: SkelData = [[new Vec3(0, -5.5, 0), new Vec3(0, 0, 0), new Vec3(0, 5.5, 0)], [[0, 1], [1, 2]]];
+        for (const solver of ['heat', 'bbw'] as const) {
+            const weights = computeSkinWeights(elbow, bent, solver);
+            const share = (y: number) => {
+                const ring = elbow[0].map((v, i) => i).filter(i => Math.abs(elbow[0][i].y - y) < 1e-6);
+                return ring.reduce((acc, i) => acc + weights[i][0] / (weights[i][0] + weights[i][1]), 0) / ring.length;
+            };
+            expect(share(0)).toBeCloseTo(0.5, 1);
+            expect(share(-4)).toBeGreaterThan(share(-2));
+            expect(share(-2)).toBeGreaterThan(share(0));
+            expect(share(2)).toBeGreaterThan(share(4));
+        }
+    });
+});
@@ -0,0 +1,73 @@
+import { Vec3, MeshData } from '@/interface';
+import { WeightPaint, Brush, brushInfluence, weightColor } from '@/core/weightpaint';
+
+/** Strip of n + 1 vertices along x, one unit apart. */
+function strip(n: number): MeshData {
+    const V: Vec3[] = [];
+    const F: number[][] = [];
+    for (let i = 0; i <= n; i++) {
+        V.push(new Vec3(i, 0, 0));
+        V.push(new Vec3(i, 1, 0));
+    }
+    for (let i = 0; i < n; i++)
+        F.push([2 * i, 2 * i + 2, 2 * i + 1], [2 * i + 1, 2 * i + 2, 2 * i + 3]);
+    return [V, F];
+}
+
+const brush = (mode: Brush['mode'], radius: number = 1.5): Brush => ({ mode, radius, strength: 1, falloff: 0 });
+
+describe('brushInfluence', () => {
+    it('is 1 inside the hard core and fades to 0 at the radius', () => {
+        expect(brushInfluence(0.2, 1, 0.5)).toBe(1);
+        expect(brushInfluence(0.75, 1, 0.5)).toBeCloseTo(0.5);
+        expect(brushInfluence(1, 1, 0.5)).toBe(0);
+        expect(brushInfluence(0.99, 1, 0)).toBe(1);
+    });
+});
+
+describe('WeightPaint', () => {
+    const mesh = strip(6);
+    const nV = mesh[0].length;
+
+    it('adds and subtracts weight of one bone under the brush only', () => {
+        const painter = new WeightPaint(mesh, 2, mesh[0].map(() => [0.5]), mesh[0].map(() => [1]));
+
+        const touched = painter.stroke(new Vec3(0, 0, 0), 0, brush('add'));
+        expect(touched.sort((a, b) => a - b)).toEqual([0, 1, 2, 3]);
+        expect(painter.boneWeights(0).slice(0, 5)).toEqual([1, 1, 1, 1, 0]);
+        expect(painter.boneWeights(1)[0]).toBe(0.5);
+
+        painter.stroke(new Vec3(0, 0, 0), 1, { ...brush('subtract'), strength: 0.8 });
+        expect(painter.boneWeights(1)[0]).toBe(0);
+        expect(painter.boneWeights(1)[4]).toBe(0.5);
+    });
+
+    it('smooths a step and normalizes the sum of weights', () => {
+        const weights = mesh[0].map(v => v.x < 3 ? [1, 1] : [0, 1]);
+        const painter = new WeightPaint(mesh, 2, weights, null);
+
+        painter.stroke(new Vec3(3, 0.5, 0), 0, brush('smooth'));
+        const w = painter.boneWeights(0);
+        expect(w[4]).toBeLessThan(1);
+        expect(w[6]).toBeGreaterThan(0);
+
+        painter.stroke(new Vec3(0, 0.5, 0), 0, brush('normalize', 10));
+        for (let i = 0; i < nV; i++)
+            expect(painter.boneWeights(0)[i] + painter.boneWeights(1)[i]).toBeCloseTo(1);
+    });
+
+    it('returns sparse weights without empty entries', () => {
+        const painter = new WeightPaint(mesh, 3, mesh[0].map(() => [1, 0]), mesh[0].map(() => [2, 0]));
+        const { skinWeights, skinIndices } = painter.getSkinWeights();
+        expect(skinIndices[0]).toEqual([2]);
+        expect(skinWeights[0]).toEqual([1]);
+    });
+});
+
+describe('weightColor', () => {
+    it('maps 0 to blue and 1 to red', () => {
+        expect(weightColor(0)).toEqual([0, 0, 1]);
+        expect(weightColor(0.5)).toEqual([0, 1, 0]);
+        expect(weightColor(1)).toEqual([1, 0, 0]);
+    });
+});
@@ -0,0 +1,17 @@
+import * as THREE from 'three';
+import { Vec3, MeshData } from '@/interface';
+import * as geo3d from '@/utils/geo3d';
+
+/** Mesh of a three.js geometry, welded and moved by `offset`. */
+export function weldedMeshData(geometry: THREE.BufferGeometry, offset: Vec3 = new Vec3(0, 0, 0)): MeshData {
+    const pos = (geometry.index ? geometry.toNonIndexed() : geometry).getAttribute('position');
+    const points: Vec3[] = [];
+    for (let i = 0; i < pos.count; i++)
+        points.push(new Vec3(pos.getX(i), pos.getY(i), pos.getZ(i)).plus(offset));
+
+    const [V, canonical] = geo3d.weldVertices(points) as [Vec3[], number[]];
+    const F: number[][] = [];
+    for (let i = 0; i < pos.count; i += 3)
+        F.push([canonical[i], canonical[i + 1], canonical[i + 2]]);
+    return [V, F];
+}
@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+import {
+    AnimationData,
+    buildClip,
+    createAnimation,
+    removeKeyframe,
+    setKeyframe,
+    keyframeAt,
+} from '@/utils/animation';
+
+/** Root bone at the origin and a child one unit along x. */
+function makeBones(): THREE.Bone[] {
+    const root = new THREE.Bone();
+    const child = new THREE.Bone();
+    child.position.set(1, 0, 0);
+    root.add(child);
+    root.updateMatrixWorld(true);
+    return [root, child];
+}
+
+/** Pose with the root turned about z by `angle` and moved up by `y`. */
+const pose = (angle: number, y: number = 0): number[][] => [
+    new THREE.Matrix4().makeRotationZ(angle).setPosition(0, y, 0).toArray(),
+    new THREE.Matrix4().makeTranslation(1, 0, 0).toArray(),
+];
+
+/** Pose the bones with the clip at time t, through a mixer as in playback. */
+function sample(animation: AnimationData, t: number): THREE.Bone[] {
+    const bones = makeBones();
+    const mixer = new THREE.AnimationMixer(bones[0]);
+    const action = mixer.clipAction(buildClip(animation, bones));
+    action.setLoop(THREE.LoopOnce, 1);
+    action.clampWhenFinished = true;
+    action.play();
+    mixer.setTime(t);
+    bones[0].updateMatrixWorld(true);
+    return bones;
+}
+
+describe('keyframes', () => {
+    it('stay sorted and replace the key at the same time', () => {
+        let animation = createAnimation();
+        animation = setKeyframe(animation, 1, pose(0));
+        animation = setKeyframe(animation, 0, pose(0));
+        animation = setKeyframe(animation, 1, pose(1));
+        expect(animation.keyframes.map(k => k.time)).toEqual([0, 1]);
+        expect(keyframeAt(animation, 1)?.pose).toEqual(pose(1));
+
+        const removed = removeKeyframe(animation, 0);
+        expect(removed.keyframes.map(k => k.time)).toEqual([1]);
+        expect(animation.keyframes).toHaveLength(2);
+    });
+});
+
+describe('buildClip', () => {
+    const keys = (interpolation: AnimationData['interpolation']): AnimationData => ({
+        ...createAnimation(),
+        interpolation,
+        keyframes: [
+            { time: 0, pose: pose(0, 0) },
+            { time: 1, pose: pose(Math.PI / 2, 1) },
+            { time: 2, pose: pose(Math.PI / 2, 3) },
+        ],
+    });
+
+    it('interpolates linearly between keyframes', () => {
+        const [root] = sample(keys('linear'), 0.5);
+        expect(root.position.y).toBeCloseTo(0.5);
+        expect(root.quaternion.angleTo(new THREE.Quaternion())).toBeCloseTo(Math.PI / 4);
+    });
+
+    it('passes cubic curves through the keyframes and bends them between', () => {
+        const clip = buildClip(keys('cubic'), makeBones());
+        expect(clip.tracks[0].times.length).toBeGreaterThan(3);
+
+        const [atKey] = sample(keys('cubic'), 1);
+        expect(atKey.position.y).toBeCloseTo(1);
+        // tangent at the middle key is (3 - 0) / 2, so the curve dips below the chord before it
+        const [between] = sample(keys('cubic'), 0.5);
+        expect(between.position.y).toBeLessThan(0.5);
+        expect(Math.abs(between.quaternion.length() - 1)).toBeLessThan(1e-6);
+    });
+
+    it('moves child joints with their parents', () => {
+        const [, child] = sample(keys('linear'), 1);
+        const p = child.getWorldPosition(new THREE.Vector3());
+        expect(p.x).toBeCloseTo(0);
+        expect(p.y).toBeCloseTo(2);
+    });
+});
@@ -0,0 +1,62 @@
+import * as THREE from 'three';
+import { Vec3, MeshData } from '@/interface';
+import { meshUnion } from '@/utils/boolean';
+import { BVH } from '@/utils/bvh';
+import { weldedMeshData } from '../helpers/mesh';
+
+const volume = ([V, F]: MeshData): number =>
+    F.reduce((sum, [a, b, c]) => sum + V[a].dot(V[b].cross(V[c])) / 6, 0);
+
+/** Every edge is used once in each direction. */
+function isClosed([, F]: MeshData): boolean {
+    const count = new Map<string, number>();
+    F.forEach(f => f.forEach((a, k) => {
+        const key = `${a}>${f[(k + 1) % 3]}`;
+        count.set(key, (count.get(key) ?? 0) + 1);
+    }));
+    return [...count].every(([key, n]) => n === 1 && count.get(key.split('>').reverse().join('>')) === 1);
+}
+
+describe('meshUnion', () => {
+    const A = weldedMeshData(new THREE.IcosahedronGeometry(1, 2));
+    const B = weldedMeshData(new THREE.BoxGeometry(1.3, 0.9, 1.1, 2, 2, 2), new Vec3(0.83, 0.21, 0.13));
+    const union = meshUnion(A, B);
+
+    it('is a closed surface of genus 0 around both meshes', () => {
+        const [V, F] = union.mesh;
+        expect(isClosed(union.mesh)).toBe(true);
+        expect(V.length - F.length / 2).toBe(2);
+        expect(volume(union.mesh)).toBeGreaterThan(volume(A));
+        expect(volume(union.mesh)).toBeLessThan(volume(A) + volume(B));
+    });
+
+    it('drops the parts of each surface inside the other one', () => {
+        const [V, F] = union.mesh;
+        const seam = new Set(union.seam);
+        const bvhA = new BVH(A), bvhB = new BVH(B);
+        F.forEach(f => {
+            const centroid = f.map(i => V[i]).reduce((s, p) => s.plus(p), new Vec3(0, 0, 0)).over(3);
+            const [a, b] = union.sources[f.find(i => !seam.has(i)) ?? f[0]];
+            expect((a.length > 0 ? bvhB : bvhA).contains(centroid)).toBe(false);
+        });
+    });
+
+    it('places seam vertices on both surfaces, blending vertices of each', () => {
+        expect(union.seam.length).toBeGreaterThan(0);
+        union.seam.forEach(i => {
+            const [a, b] = union.sources[i];
+            for (const [source, [V]] of [[a, A], [b, B]] as const) {
+                expect(source.reduce((s, [, w]) => s + w, 0)).toBeCloseTo(1);
+                const p = source.reduce((s, [k, w]) => s.plus(V[k].times(w)), new Vec3(0, 0, 0));
+                expect(p.minus(union.mesh[0][i]).norm()).toBeCloseTo(0, 6);
+            }
+        });
+    });
+
+    it('keeps disjoint meshes as they are', () => {
+        const far = weldedMeshData(new THREE.BoxGeometry(1, 1, 1), new Vec3(5, 0, 0));
+        const { mesh, seam } = meshUnion(A, far);
+        expect(seam).toHaveLength(0);
+        expect(mesh[1]).toHaveLength(A[1].length + far[1].length);
+    });
+});
@@ -0,0 +1,82 @@
+import * as THREE from 'three';
+import { Vec3 } from '@/interface';
+import { BVH } from '@/utils/bvh';
+import * as geo3d from '@/utils/geo3d';
+import { weldedMeshData } from '../helpers/mesh';
+
+/** Deterministic points in [-s, s]^3. */
+function points(n: number, s: number): Vec3[] {
+    let seed = 7;
+    const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    return Array.from({ length: n }, () => new Vec3(rand(), rand(), rand()).times(2 * s).minus(new Vec3(s, s, s)));
+}
+
+describe('BVH', () => {
+    const mesh = weldedMeshData(new THREE.TorusKnotGeometry(1, 0.3, 64, 8));
+    const [V, F] = mesh;
+    const bvh = new BVH(mesh);
+
+    it('finds the nearest ray hit', () => {
+        points(50, 2).forEach((o, i) => {
+            const d = points(50, 1)[i].unit();
+            let best = Infinity;
+            F.forEach(([a, b, c]) => {
+                const hit = geo3d.rayTriangleIntersect(o, d, V[a], V[b], V[c]);
+                if (hit && hit.t > 0) best = Math.min(best, hit.t);
+            });
+            const hit = bvh.raycast(o, d);
+            if (best === Infinity) expect(hit).toBeNull();
+            else expect(hit.t).toBeCloseTo(best, 9);
+        });
+    });
+
+    it('finds the closest point of the surface', () => {
+        points(30, 2).forEach(p => {
+            const closest = bvh.closestPoint(p);
+            expect(closest.point.minus(p).norm()).toBeCloseTo(closest.distance, 9);
+            const nearestVertex = Math.min(...V.map(v => v.minus(p).norm()));
+            expect(closest.distance).toBeLessThanOrEqual(nearestVertex + 1e-12);
+            const [a, b, c] = F[closest.face].map(i => V[i]);
+            const n = b.minus(a).cross(c.minus(a)).unit();
+            expect(Math.abs(closest.point.minus(a).dot(n))).toBeLessThan(1e-9);
+        });
+        expect(bvh.closestPoint(new Vec3(10, 0, 0), 1)).toBeNull();
+    });
+
+    it('agrees with ray parity on inside tests', () => {
+        const direction = new Vec3(0.3, 0.5, 0.81).unit();
+        points(200, 1.5).forEach(p => {
+            const inside = bvh.countHits(p, direction) % 2 === 1;
+            expect(bvh.contains(p)).toBe(inside);
+        });
+    });
+
+    it('reports winding numbers of 1 inside and 0 outside', () => {
+        const sphere = new BVH(weldedMeshData(new THREE.IcosahedronGeometry(1, 3)));
+        // far nodes are approximated, so the values are close but not exact
+        expect(sphere.windingNumber(new Vec3(0.1, 0.2, 0))).toBeCloseTo(1, 1);
+        expect(sphere.windingNumber(new Vec3(1.5, 0, 0))).toBeCloseTo(0, 1);
+        expect(sphere.windingNumber(new Vec3(30, 0, 0))).toBeCloseTo(0, 1);
+    });
+
+    it('finds triangles overlapping a box and crossing a segment', () => {
+        const box: [number, number, number, number, number, number] = [-0.2, -0.2, -0.2, 0.4, 0.4, 0.4];
+        const found = new Set<number>();
+        bvh.queryBox(box, t => found.add(t));
+        F.forEach((f, t) => {
+            const hit = [0, 1, 2].every(k => {
+                const xs = f.map(i => [V[i].x, V[i].y, V[i].z][k]);
+                return Math.min(...xs) <= box[k + 3] && Math.max(...xs) >= box[k];
+            });
+            expect(found.has(t)).toBe(hit);
+        });
+
+        const [a, b, c] = F[0].map(i => V[i]);
+        const centroid = a.plus(b).plus(c).over(3);
+        const origin = new Vec3(centroid.x, centroid.y, 5);
+        const hit = bvh.raycast(origin, new Vec3(0, 0, -1));
+        const p = origin.plus(new Vec3(0, 0, -hit.t));
+        expect(bvh.intersectsSegment(origin, p.plus(new Vec3(0, 0, -0.01)))).toBe(true);
+        expect(bvh.intersectsSegment(origin, p.plus(new Vec3(0, 0, 0.01)))).toBe(false);
+    });
+});
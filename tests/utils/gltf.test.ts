@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { Vec3, SkelData, MeshData } from '@/interface';
+import { gltfToMeshData, exportGLTF } from '@/utils/gltf';
+import { skinnedMeshFromData, getSkinWeights } from '@/utils/threeMesh';
+import { createAnimation, setKeyframe, capturePose } from '@/utils/animation';
+
+/** A strip of quads along X, with joints every two units. */
+function makeStrip(): [MeshData, SkelData] {
+    const V: Vec3[] = [];
+    const F: number[][] = [];
+    for (let i = 0; i <= 4; i++)
+        V.push(new Vec3(i, 0, 0), new Vec3(i, 1, 0));
+    for (let i = 0; i < 4; i++)
+        F.push([2*i, 2*i + 2, 2*i + 3], [2*i, 2*i + 3, 2*i + 1]);
+
+    const J = [new Vec3(0, 0.5, 0), new Vec3(2, 0.5, 0), new Vec3(4, 0.5, 0)];
+    return [[V, F], [J, [[0, 1], [1, 2]]]];
+}
+
+describe('gltfToMeshData', () => {
+    it('welds split vertices of static meshes and gives them no bones', () => {
+        const scene = new THREE.Scene();
+        const box = new THREE.Mesh(new THREE.BoxGeometry(2, 2, 2), new THREE.MeshStandardMaterial());
+        box.position.set(5, 0, 0);
+        scene.add(box);
+
+        const [{ data }] = gltfToMeshData(scene);
+        const [V, F] = data.mesh;
+
+        expect(V).toHaveLength(8);
+        expect(F).toHaveLength(12);
+        expect(data.skel).toEqual([[], []]);
+        expect(data.skinWeights.every(w => w.length === 0)).toBe(true);
+        expect(Math.min(...V.map(v => v.x))).toBeCloseTo(4);
+
+        // static meshes bind to a single joint
+        const mesh = skinnedMeshFromData(data);
+        expect(mesh.skeleton.bones).toHaveLength(1);
+    });
+
+    it('keeps bone pairs and the posed geometry of skinned meshes', () => {
+        const [meshData, skelData] = makeStrip();
+        const weights = meshData[0].map(v => v.x < 2 ? [1, 0] : [0, 1]);
+        const source = skinnedMeshFromData({ mesh: meshData, skel: skelData, skinWeights: weights, skinIndices: null });
+        source.skeleton.bones[2].position.y += 1;
+
+        const scene = new THREE.Scene();
+        scene.add(source);
+        const [{ data }] = gltfToMeshData(scene);
+
+        expect(data.skel[1]).toEqual([[0, 1], [1, 2]]);
+        expect(data.skel[0][2].y).toBeCloseTo(1.5);
+        expect(data.mesh[0]).toHaveLength(10);
+
+        // the last column follows joint 2
+        expect(data.mesh[0][9].y).toBeCloseTo(2);
+        for (const w of data.skinWeights)
+            expect(w.reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    });
+
+    it('derives bones from the joint hierarchy without extras', () => {
+        const [meshData, skelData] = makeStrip();
+        const weights = meshData[0].map(v => v.x < 2 ? [1, 0] : [0, 1]);
+        const source = skinnedMeshFromData({ mesh: meshData, skel: skelData, skinWeights: weights, skinIndices: null });
+        delete source.userData.bones;
+
+        const [{ data }] = gltfToMeshData(source);
+        const pairs = data.skel[1].map(([a, b]) => [Math.min(a, b), Math.max(a, b)]);
+        expect(pairs).toEqual([[0, 1], [1, 2]]);
+
+        // weights of the end joints land on the only bone touching them
+        const { skinWeights, skinIndices } = getSkinWeights(skinnedMeshFromData(data));
+        expect(skinIndices[0]).toContain(0);
+        expect(skinWeights[0][skinIndices[0].indexOf(0)]).toBeGreaterThan(0.5);
+        expect(skinIndices[9]).toContain(1);
+    });
+});
+
+/** The part of FileReader used by GLTFExporter, missing from Node. */
+class BlobReader {
+    result: ArrayBuffer | string | null = null;
+    onloadend: (() => void) | null = null;
+
+    readAsArrayBuffer(blob: Blob) {
+        blob.arrayBuffer().then(buffer => { this.result = buffer; this.onloadend?.(); });
+    }
+
+    readAsDataURL(blob: Blob) {
+        blob.arrayBuffer().then(buffer => {
+            this.result = `data:${blob.type || 'application/octet-stream'};base64,${Buffer.from(buffer).toString('base64')}`;
+            this.onloadend?.();
+        });
+    }
+}
+
+describe('exportGLTF', () => {
+    beforeAll(() => { (globalThis as { FileReader?: unknown }).FileReader = BlobReader; });
+    afterAll(() => { delete (globalThis as { FileReader?: unknown }).FileReader; });
+
+    it('writes the keyframe animations as clips on the exported joints', async () => {
+        const [meshData, skelData] = makeStrip();
+        const weights = meshData[0].map(v => v.x < 2 ? [1, 0] : [0, 1]);
+        const source = skinnedMeshFromData({ mesh: meshData, skel: skelData, skinWeights: weights, skinIndices: null });
+
+        let animation = setKeyframe(createAnimation(), 0, capturePose(source));
+        source.skeleton.bones[2].position.y += 1;
+        source.skeleton.bones[2].updateMatrix();
+        animation = setKeyframe(animation, 1, capturePose(source));
+        source.userData.animations = [animation];
+
+        const json = await exportGLTF([source], false) as {
+            animations: { channels: { target: { node: number } }[] }[];
+            skins: { joints: number[] }[];
+        };
+        expect(json.animations).toHaveLength(1);
+
+        // one translation, rotation and scale track per joint
+        const { channels } = json.animations[0];
+        const joints = json.skins[0].joints;
+        expect(channels).toHaveLength(3 * joints.length);
+        expect([...new Set(channels.map(channel => channel.target.node))].sort()).toEqual([...joints].sort());
+    });
+});
@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+import { Vec3 } from '@/interface';
+import { HalfEdgeMesh } from '@/utils/halfedge';
+import * as geo3d from '@/utils/geo3d';
+import { weldedMeshData } from '../helpers/mesh';
+
+/** Every directed edge is used once and the one-rings agree with the faces. */
+function expectValid(mesh: HalfEdgeMesh) {
+    const [, F] = mesh.toMeshData();
+    const directed = new Set<string>();
+    F.forEach(f => f.forEach((a, k) => {
+        const key = `${a}>${f[(k + 1) % 3]}`;
+        expect(directed.has(key)).toBe(false);
+        directed.add(key);
+    }));
+    mesh.vertices().forEach(v => mesh.outgoingEdges(v).forEach(h => {
+        expect(mesh.source(h)).toBe(v);
+        expect(mesh.twin(mesh.twin(h))).toBe(h);
+        expect(mesh.next(mesh.prev(h))).toBe(h);
+        expect(mesh.target(mesh.twin(h))).toBe(v);
+    }));
+}
+
+const euler = (mesh: HalfEdgeMesh) => mesh.vertices().length - mesh.edges().length + mesh.faces().length;
+
+describe('HalfEdgeMesh', () => {
+    it('walks one-rings and boundary loops', () => {
+        // 3 x 3 grid of vertices, split into 8 triangles
+        const V = Array.from({ length: 9 }, (_, i) => new Vec3(i % 3, Math.floor(i / 3), 0));
+        const F: number[][] = [];
+        for (const i of [0, 1, 3, 4]) F.push([i, i + 1, i + 4], [i, i + 4, i + 3]);
+        const mesh = new HalfEdgeMesh([V, F]);
+
+        expect(mesh.neighbours(4).sort()).toEqual([0, 1, 3, 5, 7, 8]);
+        expect(mesh.isBoundaryVertex(4)).toBe(false);
+        expect(mesh.isBoundaryVertex(1)).toBe(true);
+        expect(mesh.opposite(0, 1)).toBe(4);
+        expect(mesh.opposite(1, 0)).toBe(-1);
+
+        const [loop] = mesh.boundaryLoops();
+        expect(mesh.boundaryLoops()).toHaveLength(1);
+        expect(loop).toHaveLength(8);
+        // against the faces: 0 -> 1 is an edge of a face, so the loop goes 1 -> 0
+        expect(loop[(loop.indexOf(1) + 1) % 8]).toBe(0);
+    });
+
+    it('keeps a valid closed surface through splits, flips and collapses', () => {
+        const mesh = new HalfEdgeMesh(weldedMeshData(new THREE.IcosahedronGeometry(1, 2)));
+        let seed = 3;
+        const rand = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+        const done = [0, 0, 0];
+
+        for (let k = 0; k < 300; k++) {
+            const edges = mesh.edges();
+            const h = edges[Math.floor(rand() * edges.length)];
+            const op = k % 3;
+            if (op === 0) mesh.split(h), done[0]++;
+            if (op === 1 && mesh.flip(h)) done[1]++;
+            if (op === 2 && mesh.collapse(h)) done[2]++;
+        }
+        expect(done.every(n => n > 50)).toBe(true);
+        expect(euler(mesh)).toBe(2);
+        expect(mesh.boundaryLoops()).toHaveLength(0);
+        expectValid(mesh);
+    });
+
+    it('splits and collapses boundary edges', () => {
+        const mesh = new HalfEdgeMesh(weldedMeshData(new THREE.PlaneGeometry(1, 1, 4, 4)));
+        const boundary = mesh.edges().filter(h => mesh.isBoundaryEdge(h));
+        const m = mesh.split(boundary[0]);
+        expect(mesh.isBoundaryVertex(m)).toBe(true);
+        expect(mesh.boundaryLoops()[0]).toHaveLength(17);
+
+        expect(mesh.collapse(mesh.outgoingEdges(m)[0])).toBe(true);
+        expect(mesh.boundaryLoops()[0]).toHaveLength(16);
+        expect(euler(mesh)).toBe(1);
+        expectValid(mesh);
+    });
+
+    it('refuses collapses that would pinch the surface', () => {
+        const mesh = new HalfEdgeMesh(weldedMeshData(new THREE.TetrahedronGeometry(1)));
+        mesh.edges().forEach(h => expect(mesh.canCollapse(h)).toBe(false));
+        expect(mesh.flip(mesh.edges()[0])).toBe(false);
+    });
+});
+
+describe('runIsometricRemesh', () => {
+    it('brings edges close to the target length on a closed surface', () => {
+        const [V, F] = weldedMeshData(new THREE.IcosahedronGeometry(1, 2));
+        geo3d.runIsometricRemesh(V, F, 3, 0.1);
+
+        const mesh = new HalfEdgeMesh([V, F]);
+        const lengths = mesh.edges().map(h => mesh.positions[mesh.source(h)].minus(mesh.positions[mesh.target(h)]).norm());
+        expect(mesh.boundaryLoops()).toHaveLength(0);
+        expect(euler(mesh)).toBe(2);
+        expect(lengths.reduce((s, l) => s + l, 0) / lengths.length).toBeCloseTo(0.1, 1);
+        expect(Math.max(...lengths)).toBeLessThan(0.2);
+        expectValid(mesh);
+    });
+});
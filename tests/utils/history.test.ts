@@ -0,0 +1,83 @@
+import { CommandHistory, Command } from '@/utils/history';
+
+/** A command that adds `delta` to a shared counter. */
+function add(state: { value: number }, delta: number): Command {
+    state.value += delta;
+    return {
+        label: `add ${delta}`,
+        undo: () => { state.value -= delta; },
+        redo: () => { state.value += delta; },
+    };
+}
+
+describe('CommandHistory', () => {
+    it('undoes and redoes in stack order', () => {
+        const state = { value: 0 };
+        const history = new CommandHistory();
+        history.push(add(state, 1));
+        history.push(add(state, 10));
+
+        expect(history.undo()?.label).toBe('add 10');
+        expect(state.value).toBe(1);
+        expect(history.undo()?.label).toBe('add 1');
+        expect(state.value).toBe(0);
+        expect(history.undo()).toBeNull();
+
+        history.redo();
+        history.redo();
+        expect(state.value).toBe(11);
+        expect(history.canRedo).toBe(false);
+    });
+
+    it('drops the redo stack when a new command is pushed', () => {
+        const state = { value: 0 };
+        const history = new CommandHistory();
+        history.push(add(state, 1));
+        history.push(add(state, 2));
+        history.undo();
+        history.push(add(state, 5));
+
+        expect(history.canRedo).toBe(false);
+        expect(history.undoLabel).toBe('add 5');
+        expect(state.value).toBe(6);
+    });
+
+    it('keeps at most depth commands', () => {
+        const state = { value: 0 };
+        const history = new CommandHistory(2);
+        [1, 2, 3].forEach(d => history.push(add(state, d)));
+
+        while (history.undo());
+        expect(state.value).toBe(1);
+
+        history.setDepth(0);
+        expect(history.canUndo).toBe(false);
+        expect(history.canRedo).toBe(true);
+    });
+
+    it('keeps at most depth commands after redoing past a lowered depth', () => {
+        const state = { value: 0 };
+        const history = new CommandHistory();
+        [1, 2, 3].forEach(d => history.push(add(state, d)));
+        while (history.undo());
+
+        history.setDepth(1);
+        while (history.redo());
+        expect(state.value).toBe(6);
+        expect(history.undoLabel).toBe('add 3');
+        history.undo();
+        expect(history.canUndo).toBe(false);
+    });
+
+    it('notifies subscribers until they unsubscribe', () => {
+        const history = new CommandHistory();
+        const listener = jest.fn();
+        const unsubscribe = history.subscribe(listener);
+
+        history.push(add({ value: 0 }, 1));
+        history.undo();
+        unsubscribe();
+        history.redo();
+        expect(listener).toHaveBeenCalledTimes(2);
+    });
+});
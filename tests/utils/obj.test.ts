@@ -0,0 +1,113 @@
+import { Vec3 } from '@/interface';
+import { parseOBJ, formatOBJ, writeOBJ } from '@/utils/obj';
+import { buildMesh } from '@/utils/threeMesh';
+
+const CUBE = `
+# unit cube written with split corners and quads
+v 0 0 0
+v 1 0 0
+v 1 1 0
+v 0 1 0
+v 0 0 1
+v 1 0 1
+v 1 1 1
+v 0 1 1
+v 0 0 0
+vt 0 0
+vn 0 0 -1
+o cube
+f 1/1/1 4/1/1 3/1/1 2/1/1
+f 5 6 7 8
+f 9//1 2//1 6//1 5//1
+f 2 3 7 6
+f 3 4 8 7
+f 4 1 5 8
+`;
+
+function eulerCharacteristic([V, F]: [Vec3[], number[][]]) {
+    const edges = new Set<string>();
+    for (const f of F)
+        for (let i = 0; i < 3; i++) {
+            const a = f[i], b = f[(i + 1) % 3];
+            edges.add(a < b ? `${a},${b}` : `${b},${a}`);
+        }
+    return V.length - edges.size + F.length;
+}
+
+describe('parseOBJ', () => {
+    it('triangulates quads and merges duplicate positions', () => {
+        const [cube] = parseOBJ(CUBE);
+        expect(cube.name).toBe('cube');
+        expect(cube.mesh[0]).toHaveLength(8);
+        expect(cube.mesh[1]).toHaveLength(12);
+        expect(eulerCharacteristic(cube.mesh)).toBe(2);
+    });
+
+    it('triangulates concave polygons inside their outline', () => {
+        // L-shape, concave at (1, 1)
+        const [{ mesh: [V, F] }] = parseOBJ(`
+v 0 0 0
+v 2 0 0
+v 2 1 0
+v 1 1 0
+v 1 2 0
+v 0 2 0
+f 1 2 3 4 5 6
+`);
+        expect(F).toHaveLength(4);
+        let area = 0;
+        for (const [a, b, c] of F)
+            area += V[b].minus(V[a]).cross(V[c].minus(V[a])).z / 2;
+        expect(area).toBeCloseTo(3);
+    });
+
+    it('splits o/g sections into separate meshes with local indices', () => {
+        const groups = parseOBJ(`
+v 0 0 0
+v 1 0 0
+v 0 1 0
+v 5 0 0
+v 6 0 0
+v 5 1 0
+g first
+f 1 2 3
+g second
+f -3 -2 -1
+o empty
+`);
+        expect(groups.map(g => g.name)).toEqual(['first', 'second']);
+        expect(groups[1].mesh[1]).toEqual([[0, 1, 2]]);
+        expect(groups[1].mesh[0][0].x).toBe(5);
+    });
+
+    it('puts faces before any group in a default mesh', () => {
+        const [group] = parseOBJ('v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n');
+        expect(group.name).toBe('default');
+    });
+
+    it('reports bad indices with their line', () => {
+        expect(() => parseOBJ('v 0 0 0\nf 1 2 3\n')).toThrow(/line 2/);
+    });
+});
+
+describe('writeOBJ', () => {
+    it('round-trips mesh data through formatOBJ', () => {
+        const [cube] = parseOBJ(CUBE);
+        const [again] = parseOBJ(formatOBJ([cube]));
+        expect(again.mesh[1]).toEqual(cube.mesh[1]);
+        expect(again.mesh[0].map(v => [v.x, v.y, v.z])).toEqual(cube.mesh[0].map(v => [v.x, v.y, v.z]));
+    });
+
+    it('writes meshes in world space with global indices', () => {
+        const [cube] = parseOBJ(CUBE);
+        const a = buildMesh(cube.mesh, false);
+        const b = buildMesh(cube.mesh, false);
+        b.position.set(10, 0, 0);
+        a.name = 'a';
+
+        const groups = parseOBJ(writeOBJ([a, b]));
+        expect(groups.map(g => g.name)).toEqual(['a', 'mesh_1']);
+        expect(Math.min(...groups[1].mesh[0].map(v => v.x))).toBe(10);
+        expect(groups[1].mesh[1]).toEqual(cube.mesh[1]);
+    });
+});
@@ -0,0 +1,45 @@
+import { Vec2 } from '@/interface';
+import { buildProfile, curveThickness, profilePerimeter, PROFILE_TYPES } from '@/utils/profile';
+
+/** Diamond 4 wide and 2 deep: its half-thickness falls linearly from 1 at x = 0 to 0 at the tips. */
+const diamond = [new Vec2(-2, 0), new Vec2(0, -1), new Vec2(2, 0), new Vec2(0, 1)];
+
+describe('buildProfile', () => {
+    it.each(PROFILE_TYPES)('passes through the chord endpoints (%s)', (type) => {
+        for (const curve of [diamond, null]) {
+            const profile = buildProfile(type, 0.5, curve);
+            const [start, end] = [profile(0), profile(Math.PI)];
+            expect(start.x).toBeCloseTo(1, 6);
+            expect(start.y).toBeCloseTo(0, 3);
+            expect(end.x).toBeCloseTo(-1, 6);
+            expect(end.y).toBeCloseTo(0, 3);
+        }
+    });
+
+    it('follows the thickness of a custom curve and is a circle without one', () => {
+        const custom = buildProfile('custom', 1, diamond);
+        const p = custom(Math.PI / 3);
+        expect(p.x).toBeCloseTo(0.5, 12);
+        expect(p.y).toBeCloseTo(0.25, 6);
+        expect(custom(-Math.PI / 3).y).toBeCloseTo(-0.25, 6);
+
+        const circle = buildProfile('custom', 1, null)(Math.PI / 3);
+        expect(circle.y).toBeCloseTo(Math.sin(Math.PI / 3), 12);
+    });
+});
+
+describe('curveThickness', () => {
+    it('measures the half-thickness relative to the half-width', () => {
+        const thickness = curveThickness(diamond);
+        for (const x of [-1, -0.5, 0, 0.25, 0.75, 1])
+            expect(thickness(x)).toBeCloseTo((1 - Math.abs(x)) / 2, 6);
+        expect(curveThickness([new Vec2(1, 0), new Vec2(1, 1), new Vec2(1, 2)])(0)).toBe(0);
+    });
+});
+
+describe('profilePerimeter', () => {
+    it('is 2 pi for the circle', () => {
+        expect(profilePerimeter(buildProfile('circle'))).toBeCloseTo(2 * Math.PI, 3);
+        expect(profilePerimeter(buildProfile('ellipse', 0.5))).toBeLessThan(2 * Math.PI);
+    });
+});
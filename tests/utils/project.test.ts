@@ -0,0 +1,148 @@
+import * as THREE from 'three';
+import { Vec3 } from '@/interface';
+import { skinnedMeshFromData } from '@/utils/threeMesh';
+import {
+    PROJECT_VERSION,
+    ProjectFormatError,
+    parseProject,
+    migrateProject,
+    meshesToProject,
+    projectToMeshes,
+} from '@/utils/project';
+import { setKeyframe, createAnimation, capturePose } from '@/utils/animation';
+
+/** A posed, transformed quad with a two-bone chain. */
+function makeMesh(): THREE.SkinnedMesh {
+    const mesh = skinnedMeshFromData({
+        mesh: [
+            [new Vec3(0, 0, 0), new Vec3(2, 0, 0), new Vec3(2, 1, 0), new Vec3(0, 1, 0)],
+            [[0, 1, 2], [0, 2, 3]],
+        ],
+        skel: [[new Vec3(0, 0.5, 0), new Vec3(1, 0.5, 0), new Vec3(2, 0.5, 0)], [[0, 1], [1, 2]]],
+        skinWeights: [[1], [1], [1], [0.5, 0.5]],
+        skinIndices: [[0], [1], [1], [0, 1]],
+    });
+    mesh.name = 'arm';
+    mesh.position.set(5, 0, -3);
+    mesh.rotation.set(0, 0, Math.PI / 6);
+    mesh.skeleton.bones[1].rotation.set(0, 0, Math.PI / 4);
+    mesh.updateMatrixWorld(true);
+    return mesh;
+}
+
+/** A single-mesh file as written before projects existed. */
+function makeLegacy() {
+    return {
+        mesh3D: {
+            vertices: [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }],
+            faces: [[0, 1, 2]],
+        },
+        skeleton: { joints: [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }], bones: [[0, 1]] },
+        skinWeights: [[1], [1], [1]],
+        skinIndices: [[0], [0], [0]],
+        version: '1.0',
+    };
+}
+
+const errorOf = (fn: () => unknown): ProjectFormatError => {
+    try {
+        fn();
+    } catch (error) {
+        return error as ProjectFormatError;
+    }
+    throw new Error('expected an error');
+};
+
+describe('project round-trip', () => {
+    it('restores names, weights, transforms and poses', () => {
+        const mesh = makeMesh();
+        const text = JSON.stringify(meshesToProject([mesh]));
+        const [restored] = projectToMeshes(parseProject(text));
+
+        expect(restored.name).toBe('arm');
+        expect(restored.userData.bones).toEqual([[0, 1], [1, 2]]);
+        expect(restored.userData.boneSkinWeights).toEqual(mesh.userData.boneSkinWeights);
+        for (let i = 0; i < 4; i++) {
+            const a = mesh.getVertexPosition(i, new THREE.Vector3()).applyMatrix4(mesh.matrixWorld);
+            const b = restored.getVertexPosition(i, new THREE.Vector3()).applyMatrix4(restored.matrixWorld);
+            expect(b.distanceTo(a)).toBeCloseTo(0, 4);
+        }
+    });
+
+    it('keeps keyframes in the frame of the restored bones', () => {
+        const mesh = makeMesh();
+        mesh.userData.animations = [setKeyframe(createAnimation(), 0.5, capturePose(mesh))];
+        const [restored] = projectToMeshes(parseProject(JSON.stringify(meshesToProject([mesh]))));
+
+        const [animation] = restored.userData.animations;
+        expect(animation.keyframes.map((k: { time: number }) => k.time)).toEqual([0.5]);
+        expect(animation.keyframes[0].pose).toEqual(capturePose(restored).map(m => m.map(x => expect.closeTo(x, 6))));
+    });
+});
+
+describe('migrateProject', () => {
+    it('upgrades legacy single-mesh files', () => {
+        const project = migrateProject(makeLegacy());
+        expect(project.version).toBe(PROJECT_VERSION);
+        expect(project.meshes).toHaveLength(1);
+        expect(project.meshes[0].data.mesh[0][1]).toEqual([1, 0, 0]);
+
+        const [mesh] = projectToMeshes(project);
+        const p = mesh.getVertexPosition(1, new THREE.Vector3()).applyMatrix4(mesh.matrixWorld);
+        expect(p.x).toBeCloseTo(1);
+        expect(p.y).toBeCloseTo(0);
+    });
+
+    it('reads serialized SkinnedMeshData as written by the CLI', () => {
+        const project = migrateProject({
+            mesh: [[[0, 0, 0], [1, 0, 0], [0, 1, 0]], [[0, 1, 2]]],
+            skel: [[[0, 0, 0]], []],
+            skinWeights: [[], [], []],
+            skinIndices: null,
+        });
+        expect(projectToMeshes(project)[0].geometry.getAttribute('position').count).toBe(3);
+    });
+
+    it('reports legacy errors with the legacy field names', () => {
+        const legacy = makeLegacy();
+        legacy.mesh3D.faces[0][2] = 3;
+        expect(errorOf(() => migrateProject(legacy)).message)
+            .toBe('mesh3D.faces[0][2]: vertex index 3 out of range (3 vertices)');
+    });
+
+    it('gives version 1 projects no animations', () => {
+        const v2 = meshesToProject([makeMesh()]);
+        const v1 = { ...v2, version: 1, meshes: v2.meshes.map(({ animations, ...mesh }) => mesh) };
+        expect(migrateProject(v1).meshes[0].animations).toEqual([]);
+    });
+
+    it('rejects files from newer versions', () => {
+        const error = errorOf(() => migrateProject({ format: 'rigmesh-project', version: PROJECT_VERSION + 1, meshes: [] }));
+        expect(error).toBeInstanceOf(ProjectFormatError);
+        expect(error.path).toBe('version');
+    });
+});
+
+describe('validateProject', () => {
+    it('locates the offending value', () => {
+        const project = JSON.parse(JSON.stringify(meshesToProject([makeMesh()])));
+        project.meshes[0].data.skinIndices[3][1] = 2;
+        expect(errorOf(() => migrateProject(project)).message)
+            .toBe('meshes[0].data.skinIndices[3][1]: bone index 2 out of range (2 bones)');
+
+        delete project.meshes[0].transform;
+        expect(errorOf(() => migrateProject(project)).path).toBe('meshes[0].transform');
+    });
+
+    it('checks that keyframes pose every joint', () => {
+        const project = meshesToProject([makeMesh()]);
+        project.meshes[0].animations = [{ ...createAnimation(), keyframes: [{ time: 0, pose: [] }] }];
+        expect(errorOf(() => migrateProject(project)).message)
+            .toBe('meshes[0].animations[0].keyframes[0].pose: expected 3 entries, got 0');
+    });
+
+    it('rejects invalid JSON and unknown formats', () => {
+        expect(() => parseProject('{')).toThrow(ProjectFormatError);
+        expect(errorOf(() => parseProject('{"format":"other"}')).path).toBe('format');
+    });
+});
@@ -0,0 +1,63 @@
+import { buildLaplacianTopology, smooth, diffuse, SolverContext } from '@/utils/solver';
+import * as sparse from '@/utils/sparse';
+
+/** Faces of a w x h grid of quads, split into triangles. */
+function grid(w: number, h: number): number[][] {
+    const F: number[][] = [];
+    for (let y = 0; y + 1 < h; y++)
+        for (let x = 0; x + 1 < w; x++) {
+            const i = y * w + x;
+            F.push([i, i + 1, i + w + 1], [i, i + w + 1, i + w]);
+        }
+    return F;
+}
+
+describe('SolverContext', () => {
+    const lap = buildLaplacianTopology([[], grid(6, 5)]);
+    const hard: [number, number[]][] = [0, 5, 24, 29].map(i => [i, [i, -i, 1]]);
+    const weak: [number, number[]][] = [7, 12, 16].map(i => [i, [Math.sin(i), Math.cos(i), 2]]);
+    const column = (c: number) => (list: [number, number[]][]) => list.map(([i, v]) => [i, v[c]] as [number, number]);
+
+    it('solves every column like the scalar solvers', () => {
+        const context = new SolverContext();
+        const smoothed = context.smooth(lap, weak, hard, 0.3);
+        const diffused = context.diffuse(lap, weak, hard, 0.3);
+        for (let c = 0; c < 3; c++) {
+            const expectedSmooth = smooth(lap, column(c)(weak), column(c)(hard), 0.3);
+            const expectedDiffuse = diffuse(lap, column(c)(weak), column(c)(hard), 0.3);
+            expect(smoothed.size).toBe(30);
+            expectedSmooth.forEach((v, i) => expect(smoothed.get(i)[c]).toBeCloseTo(v, 10));
+            expectedDiffuse.forEach((v, i) => expect(diffused.get(i)[c]).toBeCloseTo(v, 10));
+        }
+        hard.forEach(([i, v]) => expect(smoothed.get(i)).toEqual(v));
+    });
+
+    it('factors once for the same system with other values', () => {
+        const context = new SolverContext();
+        const chol = jest.spyOn(sparse.SparseMatrix.prototype, 'chol');
+        const first = context.smooth(lap, weak, hard, 0.3);
+        const moved = hard.map(([i, v]) => [i, v.map(x => 2 * x)] as [number, number[]]);
+        const twice = weak.map(([i, v]) => [i, v.map(x => 2 * x)] as [number, number[]]);
+        const second = context.smooth(lap, twice, moved, 0.3);
+        expect(chol).toHaveBeenCalledTimes(1);
+
+        second.forEach((v, i) => v.forEach((x, c) => expect(x).toBeCloseTo(2 * first.get(i)[c], 10)));
+        context.smooth(lap, weak, hard, 0.5);
+        context.smooth(lap, weak, hard.slice(1), 0.3);
+        expect(chol).toHaveBeenCalledTimes(3);
+        chol.mockRestore();
+    });
+
+    it('rebuilds a cached system of another shape found under the same key', () => {
+        const context = new SolverContext();
+        const expected = context.smooth(lap, weak, hard, 0.3);
+        const other = new SolverContext();
+        other.smooth(lap, weak, hard.slice(1), 0.3);
+
+        // plant the other system under this key, as a hash collision would
+        const [key] = context['systems'].keys();
+        context['systems'].set(key, other['systems'].values().next().value);
+        const result = context.smooth(lap, weak, hard, 0.3);
+        expected.forEach((v, i) => v.forEach((x, c) => expect(result.get(i)[c]).toBeCloseTo(x, 10)));
+    });
+});
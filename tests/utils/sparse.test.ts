@@ -0,0 +1,128 @@
+import { DenseMatrix, SparseMatrix, Triplet, Cholesky, conjugateGradient, minimumDegreeOrdering } from '@/utils/sparse';
+
+/** Deterministic numbers in [0, 1). */
+function random(seed: number): () => number {
+    return () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+}
+
+/** Dense solution of A x = b by Gaussian elimination with partial pivoting. */
+function denseSolve(A: number[][], b: number[]): number[] {
+    const n = b.length;
+    const M = A.map((row, i) => [...row, b[i]]);
+    for (let k = 0; k < n; k++) {
+        let pivot = k;
+        for (let i = k + 1; i < n; i++) if (Math.abs(M[i][k]) > Math.abs(M[pivot][k])) pivot = i;
+        [M[k], M[pivot]] = [M[pivot], M[k]];
+        for (let i = k + 1; i < n; i++) {
+            const f = M[i][k] / M[k][k];
+            for (let j = k; j <= n; j++) M[i][j] -= f * M[k][j];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let i = n - 1; i >= 0; i--) {
+        let s = M[i][n];
+        for (let j = i + 1; j < n; j++) s -= M[i][j] * x[j];
+        x[i] = s / M[i][i];
+    }
+    return x;
+}
+
+const toArray = (S: SparseMatrix): number[][] => {
+    const D = S.toDense();
+    return Array.from({ length: S.nRows() }, (_, i) => Array.from({ length: S.nCols() }, (_, j) => D.get(i, j)));
+};
+
+/**
+ * Graph Laplacian of a w x h grid plus a positive diagonal, assembled from
+ * duplicated triplets as the mesh solvers do.
+ */
+function gridSystem(w: number, h: number): Triplet {
+    const rand = random(11);
+    const T = new Triplet(w * h, w * h);
+    const add = (a: number, b: number) => {
+        const c = 0.5 + rand();
+        T.addEntry(c, a, a);
+        T.addEntry(c, b, b);
+        T.addEntry(-c, a, b);
+        T.addEntry(-c, b, a);
+    };
+    for (let y = 0; y < h; y++)
+        for (let x = 0; x < w; x++) {
+            const i = y * w + x;
+            if (x + 1 < w) add(i, i + 1);
+            if (y + 1 < h) add(i, i + w);
+            T.addEntry(0.01 + 0.1 * rand(), i, i);
+        }
+    return T;
+}
+
+describe('SparseMatrix', () => {
+    const rand = random(3);
+    const T = new Triplet(4, 3);
+    for (let k = 0; k < 10; k++)
+        T.addEntry(rand() - 0.5, Math.floor(rand() * 4), Math.floor(rand() * 3));
+    const A = SparseMatrix.fromTriplet(T);
+    const dense = toArray(A);
+
+    it('sums duplicated triplets', () => {
+        const expected = Array.from({ length: 4 }, () => new Array(3).fill(0));
+        T.values.forEach((x, k) => expected[T.rows[k]][T.cols[k]] += x);
+        expect(dense).toEqual(expected.map(row => row.map(x => expect.closeTo(x, 12))));
+        for (let j = 0; j < 3; j++)
+            for (let p = A.colPtr[j] + 1; p < A.colPtr[j + 1]; p++)
+                expect(A.rowIdx[p]).toBeGreaterThan(A.rowIdx[p - 1]);
+    });
+
+    it('multiplies like the dense matrices', () => {
+        const AtA = toArray(A.transpose().timesSparse(A));
+        const x = DenseMatrix.fromArray([1, -2, 3]);
+        const Ax = A.timesDense(x);
+        for (let i = 0; i < 3; i++)
+            for (let j = 0; j < 3; j++)
+                expect(AtA[i][j]).toBeCloseTo(dense.reduce((s, row) => s + row[i] * row[j], 0), 12);
+        for (let i = 0; i < 4; i++)
+            expect(Ax.get(i)).toBeCloseTo(dense[i][0] - 2 * dense[i][1] + 3 * dense[i][2], 12);
+        expect(toArray(A.plus(A).minus(A.timesReal(2))).flat().every(x => Math.abs(x) < 1e-12)).toBe(true);
+    });
+});
+
+describe('Cholesky', () => {
+    const A = SparseMatrix.fromTriplet(gridSystem(7, 5));
+    const n = A.nRows();
+    const rand = random(5);
+    const b = DenseMatrix.zeros(n, 2);
+    for (let i = 0; i < n; i++) b.set(rand(), i, 0), b.set(rand() - 0.5, i, 1);
+
+    it('solves like a dense reference solve', () => {
+        const x = A.chol().solvePositiveDefinite(b);
+        for (let c = 0; c < 2; c++) {
+            const expected = denseSolve(toArray(A), b.column(c));
+            expected.forEach((v, i) => expect(x.get(i, c)).toBeCloseTo(v, 9));
+        }
+    });
+
+    it('orders a grid with less fill than the natural order', () => {
+        const perm = minimumDegreeOrdering(A);
+        expect([...perm].sort((a, b) => a - b)).toEqual(Array.from({ length: n }, (_, i) => i));
+        const natural = new Cholesky(A, Int32Array.from({ length: n }, (_, i) => i));
+        expect(new Cholesky(A, perm).nnz()).toBeLessThan(natural.nnz());
+    });
+
+    it('rejects indefinite matrices', () => {
+        const T = new Triplet(2, 2);
+        T.addEntry(1, 0, 0);
+        T.addEntry(2, 0, 1);
+        T.addEntry(2, 1, 0);
+        T.addEntry(1, 1, 1);
+        expect(() => SparseMatrix.fromTriplet(T).chol()).toThrow(/positive definite/);
+    });
+});
+
+describe('conjugateGradient', () => {
+    it('converges to the dense reference solution', () => {
+        const A = SparseMatrix.fromTriplet(gridSystem(6, 6));
+        const b = DenseMatrix.fromArray(Array.from({ length: 36 }, (_, i) => Math.sin(i)));
+        const x = conjugateGradient(A, b, { tolerance: 1e-12 });
+        denseSolve(toArray(A), b.column()).forEach((v, i) => expect(x.get(i)).toBeCloseTo(v, 8));
+    });
+});
@@ -0,0 +1,59 @@
+import { Vec2 } from '@/interface';
+import { parseSVGPath, extractSVGPaths } from '@/utils/svg';
+
+const xy = (ring: Vec2[]) => ring.map(p => [p.x, p.y]);
+
+describe('parseSVGPath', () => {
+    it('parses absolute and relative line commands', () => {
+        const [ring] = parseSVGPath('M 0 0 L 10 0 v 5 H 0 z');
+        expect(xy(ring)).toEqual([[0, 0], [10, 0], [10, 5], [0, 5]]);
+    });
+
+    it('treats extra pairs after M as line-tos', () => {
+        const [ring] = parseSVGPath('m1,1 2,0 0,2Z');
+        expect(xy(ring)).toEqual([[1, 1], [3, 1], [3, 3]]);
+    });
+
+    it('handles numbers without separators', () => {
+        const [ring] = parseSVGPath('M0-1L.5.5-1e1,0z');
+        expect(xy(ring)).toEqual([[0, -1], [0.5, 0.5], [-10, 0]]);
+    });
+
+    it('splits subpaths and drops a repeated closing point', () => {
+        const rings = parseSVGPath('M0 0 L4 0 L4 4 L0 0 M1 1 L2 1 L2 2 Z');
+        expect(rings).toHaveLength(2);
+        expect(rings[0]).toHaveLength(3);
+        expect(rings[1]).toHaveLength(3);
+    });
+
+    it('samples cubic curves with the requested resolution', () => {
+        const [ring] = parseSVGPath('M0 0 C 0 10 10 10 10 0 Z', 8);
+        expect(ring).toHaveLength(9);
+        expect(ring[4].x).toBeCloseTo(5);
+        expect(ring[4].y).toBeCloseTo(7.5);
+    });
+
+    it('reflects the previous control point for S', () => {
+        const [a] = parseSVGPath('M0 0 C 0 10 10 10 10 0 S 20 -10 20 0', 4);
+        const [b] = parseSVGPath('M0 0 C 0 10 10 10 10 0 C 10 -10 20 -10 20 0', 4);
+        expect(xy(a)).toEqual(xy(b));
+    });
+
+    it('samples arcs on the ellipse', () => {
+        const [ring] = parseSVGPath('M 0 0 A 10 5 0 1 1 20 0 A 10 5 0 1 1 0 0 Z', 16);
+        for (const p of ring)
+            expect(((p.x - 10) / 10) ** 2 + (p.y / 5) ** 2).toBeCloseTo(1);
+    });
+
+    it('throws on malformed data', () => {
+        expect(() => parseSVGPath('10 10 L 0 0')).toThrow();
+        expect(() => parseSVGPath('M 0 0 L 5')).toThrow();
+    });
+});
+
+describe('extractSVGPaths', () => {
+    it('collects the d attribute of every path element', () => {
+        const svg = `<svg><path id="a" d="M0 0L1 0L1 1Z"/><rect/><path d='M2 2L3 2L3 3Z' fill="none"/></svg>`;
+        expect(extractSVGPaths(svg)).toEqual(['M0 0L1 0L1 1Z', 'M2 2L3 2L3 3Z']);
+    });
+});
@@ -10,6 +10,9 @@ import {
     extractSkelData,
     skinnedMeshFromData,
     skinnedMeshToData,
+    bakeSkinnedMesh,
+    snapshotSkinnedMesh,
+    restoreSkinnedMesh,
 } from '@/utils/threeMesh';
 
 // ---------------------------------------------------------------------------
@@ -190,6 +193,29 @@ describe('buildSkel', () => {
         expect(skel.bones[1].children).toContain(skel.bones[2]);
         expect(skel.bones[0].children.length).toBe(0);
     });
+
+    it('attaches disconnected components to the root', () => {
+        // 0--1 and 2--3 share no bone
+        const skelData: SkelData = [
+            [new Vec3(0, 0, 0), new Vec3(1, 0, 0), new Vec3(0, 1, 0), new Vec3(1, 1, 0)],
+            [[0, 1], [2, 3]],
+        ];
+        const skel = buildSkel(skelData);
+
+        expect(skel.bones[2].parent).toBe(skel.bones[0]);
+        expect(skel.bones[3].parent).toBe(skel.bones[2]);
+
+        const pos = new THREE.Vector3();
+        skel.bones[0].updateMatrixWorld(true);
+        skel.bones[3].getWorldPosition(pos);
+        expect(pos.x).toBeCloseTo(1);
+        expect(pos.y).toBeCloseTo(1);
+    });
+
+    it('names bones after their joint index', () => {
+        const skel = buildSkel(makeChainSkel());
+        expect(skel.bones.map(b => b.name)).toEqual(['joint_0', 'joint_1', 'joint_2']);
+    });
 });
 
 // ---------------------------------------------------------------------------
@@ -489,6 +515,110 @@ describe('skinnedMeshToData', () => {
     });
 });
 
+describe('bakeSkinnedMesh', () => {
+    /** Quad on a two-bone chain, with the second bone bent by 90 degrees. */
+    function makeBentMesh(): THREE.SkinnedMesh {
+        const mesh = skinnedMeshFromData({
+            mesh: makeQuadMesh(),
+            skel: makeChainSkel(),
+            skinWeights: [[1], [1], [0.5, 0.5], [1]],
+            skinIndices: [[0], [1], [0, 1], [1]],
+        });
+        mesh.position.add(new THREE.Vector3(3, 0, 0));
+        mesh.skeleton.bones[1].rotation.set(0, 0, Math.PI / 2);
+        mesh.updateMatrixWorld(true);
+        return mesh;
+    }
+
+    it('deforms vertices and joints into the posed shape', () => {
+        const mesh = makeBentMesh();
+        const { mesh: [V], skel: [J] } = bakeSkinnedMesh(mesh);
+
+        V.forEach((v, i) => {
+            const p = mesh.getVertexPosition(i, new THREE.Vector3()).applyMatrix4(mesh.matrixWorld);
+            expect(new THREE.Vector3(v.x, v.y, v.z).distanceTo(p)).toBeCloseTo(0, 6);
+        });
+        J.forEach((j, i) => {
+            const p = mesh.skeleton.bones[i].getWorldPosition(new THREE.Vector3());
+            expect(new THREE.Vector3(j.x, j.y, j.z).distanceTo(p)).toBeCloseTo(0, 6);
+        });
+        expect(skinnedMeshToData(mesh).mesh[0]).toEqual(V);
+    });
+
+    it('gives data whose rest pose is the baked pose', () => {
+        const mesh = makeBentMesh();
+        const data = bakeSkinnedMesh(mesh);
+        const rebuilt = skinnedMeshFromData(data);
+        expect(extractMeshData(rebuilt)[0].map(v => [v.x, v.y, v.z]))
+            .toEqual(data.mesh[0].map(v => [v.x, v.y, v.z].map(x => expect.closeTo(x, 6))));
+        expect(getSkinWeights(rebuilt)).toEqual(getSkinWeights(mesh));
+    });
+});
+
+// ---------------------------------------------------------------------------
+// snapshotSkinnedMesh + restoreSkinnedMesh
+// ---------------------------------------------------------------------------
+describe('snapshotSkinnedMesh + restoreSkinnedMesh', () => {
+    /** World-space positions of the skinned vertices, in the current pose. */
+    function skinnedPositions(mesh: THREE.SkinnedMesh): THREE.Vector3[] {
+        mesh.updateMatrixWorld(true);
+        mesh.skeleton.update();
+        const count = mesh.geometry.getAttribute('position').count;
+        return Array.from({ length: count }, (_, i) =>
+            mesh.getVertexPosition(i, new THREE.Vector3()).applyMatrix4(mesh.matrixWorld));
+    }
+
+    function makePosedMesh(): THREE.SkinnedMesh {
+        const mesh = skinnedMeshFromData({
+            mesh: makeQuadMesh(),
+            skel: makeChainSkel(),
+            skinWeights: [[1], [1], [0.5, 0.5], [1]],
+            skinIndices: [[0], [1], [0, 1], [1]],
+        });
+        mesh.name = 'quad';
+        mesh.userData.uid = 7;
+        mesh.position.add(new THREE.Vector3(10, -5, 2));
+        mesh.rotation.set(0, Math.PI / 3, 0);
+        mesh.scale.setScalar(2);
+        mesh.skeleton.bones[1].rotation.set(0, 0, Math.PI / 4);
+        mesh.updateMatrixWorld(true);
+        return mesh;
+    }
+
+    it('restores name, uid, bones and weights', () => {
+        const mesh = makePosedMesh();
+        const restored = restoreSkinnedMesh(snapshotSkinnedMesh(mesh));
+
+        expect(restored.name).toBe('quad');
+        expect(restored.userData.uid).toBe(7);
+        expect(restored.userData.bones).toEqual(mesh.userData.bones);
+        expect(getSkinWeights(restored)).toEqual(getSkinWeights(mesh));
+    });
+
+    it('restores the transform and the pose', () => {
+        const mesh = makePosedMesh();
+        const restored = restoreSkinnedMesh(snapshotSkinnedMesh(mesh));
+
+        const expected = skinnedPositions(mesh);
+        skinnedPositions(restored).forEach((p, i) => {
+            expect(p.x).toBeCloseTo(expected[i].x, 4);
+            expect(p.y).toBeCloseTo(expected[i].y, 4);
+            expect(p.z).toBeCloseTo(expected[i].z, 4);
+        });
+        mesh.skeleton.bones.forEach((bone, i) => {
+            const a = bone.getWorldPosition(new THREE.Vector3());
+            const b = restored.skeleton.bones[i].getWorldPosition(new THREE.Vector3());
+            expect(b.distanceTo(a)).toBeCloseTo(0, 4);
+        });
+    });
+
+    it('survives a JSON round-trip', () => {
+        const snapshot = JSON.parse(JSON.stringify(snapshotSkinnedMesh(makePosedMesh())));
+        const restored = restoreSkinnedMesh(snapshot);
+        expect(restored.geometry.getAttribute('position').count).toBe(4);
+    });
+});
+
 // ---------------------------------------------------------------------------
 // Data → Mesh → Data round-trip identity tests
 // ---------------------------------------------------------------------------
@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { Vec3, MeshData } from '@/interface';
+import {
+    validateMesh, isValidMesh, summarizeReport, repairMesh, repairSkinnedMeshData,
+    reorientFaces, fillSmallHoles,
+} from '@/utils/validate';
+import { weldedMeshData } from '../helpers/mesh';
+
+/** Closed box from (0, 0, 0) to (s, s, s), faces pointing outward. */
+function box(s: number = 1, offset: Vec3 = new Vec3(0, 0, 0)): MeshData {
+    const V = Array.from({ length: 8 }, (_, i) => new Vec3(i & 1, (i >> 1) & 1, (i >> 2) & 1).times(s).plus(offset));
+    const F = [
+        [0, 2, 3], [0, 3, 1], [4, 5, 7], [4, 7, 6],
+        [0, 1, 5], [0, 5, 4], [2, 6, 7], [2, 7, 3],
+        [0, 4, 6], [0, 6, 2], [1, 3, 7], [1, 7, 5],
+    ];
+    return [V, F];
+}
+
+const volume = ([V, F]: MeshData) => F.reduce((s, [a, b, c]) => s + V[a].dot(V[b].cross(V[c])) / 6, 0);
+
+describe('validateMesh', () => {
+    it('accepts a closed, consistently oriented box', () => {
+        const report = validateMesh(box());
+        expect(isValidMesh(report)).toBe(true);
+        expect(summarizeReport(report)).toBe('valid');
+        expect(volume(box())).toBeCloseTo(1, 12);
+    });
+
+    it('reports each defect with the elements involved', () => {
+        const [V, F] = box();
+        F[3].reverse();
+        expect(validateMesh([V, F]).inconsistentEdges).toHaveLength(3);
+
+        const open = validateMesh([V, box()[1].slice(1)]);
+        expect(open.boundaryLoops).toHaveLength(1);
+        expect([...open.boundaryLoops[0]].sort()).toEqual([0, 2, 3]);
+
+        const flat = validateMesh([[...V, new Vec3(0.5, 0, 0)], [...box()[1], [0, 8, 1]]]);
+        expect(flat.degenerateFaces).toEqual([12]);
+
+        const duplicated = validateMesh([[...V, V[5].times(1)], box()[1].map(f => f.map(i => i === 5 ? 8 : i))]);
+        expect(duplicated.duplicateVertices).toEqual([[8, 5]]);
+
+        const fin = validateMesh([[...V, new Vec3(2, 2, 2)], [...box()[1], [0, 1, 8]]]);
+        expect(fin.nonManifoldEdges).toEqual([[0, 1]]);
+    });
+
+    it('finds crossing faces and pinched vertices', () => {
+        const [V1, F1] = box();
+        const [V2, F2] = box(1, new Vec3(0.3, 0.4, 0.6));
+        const crossing = validateMesh([[...V1, ...V2], [...F1, ...F2.map(f => f.map(i => i + 8))]]);
+        expect(crossing.selfIntersections.length).toBeGreaterThan(0);
+        crossing.selfIntersections.forEach(([f, g]) => expect(f < 12 && g >= 12).toBe(true));
+
+        // two boxes sharing only vertex 7
+        const [V3, F3] = box(1, new Vec3(1, 1, 1));
+        const pinched = validateMesh([[...V1, ...V3.slice(1)], [...F1, ...F3.map(f => f.map(i => i === 0 ? 7 : i + 7))]]);
+        expect(pinched.nonManifoldVertices).toEqual([7]);
+        expect(pinched.selfIntersections).toEqual([]);
+    });
+
+    it('does not take nearly coplanar neighbours for crossing faces', () => {
+        // the rotation leaves rounding noise in the faces of each side strip
+        const tube = weldedMeshData(new THREE.CylinderGeometry(0.3, 0.3, 4, 16, 40).rotateZ(Math.PI / 2));
+        expect(isValidMesh(validateMesh(tube))).toBe(true);
+    });
+});
+
+describe('repairMesh', () => {
+    it('welds, drops degenerate faces, reorients and fills holes', () => {
+        const [V, F] = box();
+        // flip some faces, split vertex 5 in two, drop a face and add a sliver on edge 0-1
+        const broken: MeshData = [
+            [...V, V[5].times(1), new Vec3(0.5, 0, 0)],
+            [
+                ...F.slice(0, 5).map(f => [...f].reverse()),
+                ...F.slice(5, 11).map(f => f.map(i => i === 5 ? 8 : i)),
+                [0, 9, 1],
+            ],
+        ];
+        expect(isValidMesh(validateMesh(broken))).toBe(false);
+
+        const [repaired, source] = repairMesh(broken);
+        const report = validateMesh(repaired);
+        expect(summarizeReport(report)).toBe('valid');
+        expect(repaired[0]).toHaveLength(8);
+        expect(repaired[1]).toHaveLength(12);
+        expect(volume(repaired)).toBeCloseTo(1, 12);
+        repaired[0].forEach((v, i) => expect(v).toBe(broken[0][source[i]]));
+    });
+
+    it('turns closed surfaces outward and keeps large holes open', () => {
+        const inverted: MeshData = [box()[0], box()[1].map(f => [...f].reverse())];
+        expect(volume(reorientFaces(inverted))).toBeCloseTo(1, 12);
+
+        const open: MeshData = [box()[0], box()[1].slice(2)];
+        expect(validateMesh(fillSmallHoles(open, 3)).boundaryLoops).toHaveLength(1);
+        expect(isValidMesh(validateMesh(fillSmallHoles(open, 4)))).toBe(true);
+    });
+
+    it('carries skin weights to the repaired vertices', () => {
+        const [V, F] = box();
+        const data = repairSkinnedMeshData({
+            mesh: [[...V, V[5].times(1)], F.map(f => f.map(i => i === 5 ? 8 : i))],
+            skel: [[], []],
+            skinWeights: [...V, V[5]].map((_, i) => [i]),
+            skinIndices: null,
+        });
+        expect(data.skinIndices).toBeNull();
+        expect(data.skinWeights).toHaveLength(8);
+        data.mesh[0].forEach((v, i) => expect(v.minus(V[data.skinWeights[i][0] % 8]).norm()).toBe(0));
+    });
+});
@@ -0,0 +1,101 @@
+import { MeshGenService, CancelledError } from '@/workers/meshgenService';
+import { MeshGenRequest, WorkerInbound, WorkerOutbound } from '@/workers/protocol';
+
+/** Worker stand-in recording what is posted to it; replies are sent by hand. */
+class FakeWorker {
+    posted: WorkerInbound[] = [];
+    terminated = false;
+    onmessage: ((event: MessageEvent<WorkerOutbound>) => void) | null = null;
+    onerror: ((event: ErrorEvent) => void) | null = null;
+
+    postMessage(message: WorkerInbound) {
+        this.posted.push(message);
+    }
+
+    terminate() {
+        this.terminated = true;
+    }
+
+    reply(message: WorkerOutbound) {
+        this.onmessage?.({ data: message } as MessageEvent<WorkerOutbound>);
+    }
+
+    /** Answers the last posted request with an empty result. */
+    finish() {
+        const { id } = this.posted[this.posted.length - 1];
+        this.reply({ id, type: 'result', result: { mesh: [[], []] } });
+    }
+}
+
+const requests: Record<'init' | 'chords' | 'pipes' | 'smooth', MeshGenRequest> = {
+    init: { type: 'init', path: [[0, 0], [1, 0], [0, 1]], holes: [], isodistance: 10 },
+    chords: { type: 'chords', iterations: 50, alpha: 0.5 },
+    pipes: { type: 'pipes', profile: { type: 'circle', depth: 1, curve: null } },
+    smooth: { type: 'smooth', factor: 0.1 },
+};
+
+function setup() {
+    const workers: FakeWorker[] = [];
+    const service = new MeshGenService(() => {
+        workers.push(new FakeWorker());
+        return workers[workers.length - 1] as unknown as Worker;
+    });
+    return { service, workers };
+}
+
+describe('MeshGenService', () => {
+    it('never posts a queued job that was cancelled', async () => {
+        const { service, workers } = setup();
+        const first = service.request(requests.smooth);
+        const second = service.request(requests.smooth);
+        const third = service.request(requests.smooth);
+        expect(workers[0].posted.map(m => m.id)).toEqual([first.id]);
+
+        second.cancel();
+        await expect(second.promise).rejects.toBeInstanceOf(CancelledError);
+        workers[0].finish();
+        await first.promise;
+
+        expect(workers[0].posted.map(m => m.id)).toEqual([first.id, third.id]);
+    });
+
+    it('drops the result of a running job cancelled before it arrives', async () => {
+        const { service, workers } = setup();
+        const progress = jest.fn();
+        const job = service.request(requests.smooth, progress);
+        const next = service.request(requests.smooth);
+
+        job.cancel();
+        await expect(job.promise).rejects.toBeInstanceOf(CancelledError);
+        workers[0].reply({ id: job.id, type: 'progress', value: 0.5 });
+        workers[0].reply({ id: job.id, type: 'result', result: { mesh: [[], []] } });
+        expect(progress).not.toHaveBeenCalled();
+
+        // the worker is free again: the next job goes out and resolves
+        expect(workers[0].posted.map(m => m.id)).toEqual([job.id, next.id]);
+        workers[0].finish();
+        await expect(next.promise).resolves.toEqual({ mesh: [[], []] });
+    });
+
+    it('replays init, chords and pipes into the worker started after abort', async () => {
+        const { service, workers } = setup();
+        for (const request of [requests.init, requests.chords, requests.pipes, requests.smooth]) {
+            const job = service.request(request);
+            workers[0].finish();
+            await job.promise;
+        }
+        const running = service.request(requests.smooth);
+        service.abort();
+        await expect(running.promise).rejects.toBeInstanceOf(CancelledError);
+        expect(workers[0].terminated).toBe(true);
+
+        const job = service.request(requests.smooth);
+        expect(workers).toHaveLength(2);
+        expect(workers[1].posted).toEqual([
+            { id: -1, ...requests.init },
+            { id: -1, ...requests.chords },
+            { id: -1, ...requests.pipes },
+            { id: job.id, ...requests.smooth },
+        ]);
+    });
+});